@@ -1,8 +1,15 @@
 import axios from 'axios';
-import { getHighPrecisionTime, hrtimeToMs } from '../utils/timeUtils';
+import { computeExchangeOffset, getEpochTimeMs } from '../utils/timeUtils';
 
 const SERVER_URL = 'http://localhost:4000/api/time';
 
+// Clave de API (ver API_KEYS en el servidor); métricas y logs requieren el rol operator
+const API_KEY = process.env.CRISTIAN_API_KEY;
+
+// Tiempo máximo reintentando ante un 429 del rate limiter: con el presupuesto de
+// sync por defecto (burst 20, 30/min) la batería completa tarda alrededor de un minuto y medio
+const MAX_RATE_LIMIT_WAIT_MS = 180000;
+
 interface TestResult {
   success: boolean;
   latency: number;
@@ -10,6 +17,14 @@ interface TestResult {
   error?: string;
 }
 
+// Entrada de `servers` en GET /api/time/health
+interface HealthServerEntry {
+  server: string;
+  port: number;
+  priority: number;
+  status: 'healthy' | 'degraded' | 'falseticker';
+}
+
 class CristianClient {
   private clientId: string;
   private baseURL: string;
@@ -20,46 +35,85 @@ class CristianClient {
   }
 
   /**
-   * Sincronizar tiempo con el servidor usando algoritmo de Cristian
+   * Cabeceras comunes: identificador del cliente y, si está configurada, la clave de API
+   */
+  private headers(): Record<string, string> {
+    return API_KEY ? { 'x-client-id': this.clientId, 'X-API-Key': API_KEY } : { 'x-client-id': this.clientId };
+  }
+
+  /**
+   * Sincronizar tiempo con el servidor usando algoritmo de Cristian; ante un 429
+   * espera el Retry-After y reintenta
    */
   async syncTime(): Promise<TestResult> {
-    try {
-      const T0 = getHighPrecisionTime(); // Tiempo de solicitud
-      
-      const response = await axios.post(`${this.baseURL}/sync`, {
-        clientRequestTime: T0.toString()
-      }, {
-        headers: {
-          'x-client-id': this.clientId,
-          'Content-Type': 'application/json'
-        },
-        timeout: 10000
-      });
+    const startedAt = Date.now();
 
-      const T3 = getHighPrecisionTime(); // Tiempo de respuesta
-      const roundTripTime = hrtimeToMs(T3 - T0);
+    for (;;) {
+      try {
+        return await this.exchange();
+      } catch (error) {
+        const retryAfter = axios.isAxiosError(error) && error.response?.status === 429
+          ? Number(error.response.headers['retry-after'])
+          : NaN;
+
+        if (Number.isFinite(retryAfter) && Date.now() - startedAt < MAX_RATE_LIMIT_WAIT_MS) {
+          // Un poco de azar para que las requests concurrentes no reintenten juntas
+          await new Promise(resolve => setTimeout(resolve, retryAfter * 1000 + Math.random() * 1000));
+          continue;
+        }
 
-      if (response.data.success) {
-        return {
-          success: true,
-          latency: roundTripTime,
-          offset: response.data.syncResult.offset,
-        };
-      } else {
         return {
           success: false,
-          latency: roundTripTime,
+          latency: 0,
           offset: 0,
-          error: response.data.error
+          error: error instanceof Error ? error.message : 'Error desconocido'
         };
       }
+    }
+  }
+
+  /**
+   * Un intercambio T0..T3 completo con el servidor
+   */
+  private async exchange(): Promise<TestResult> {
+    const T0 = getEpochTimeMs(); // Tiempo de solicitud
+    
+    const response = await axios.post(`${this.baseURL}/sync`, {
+      clientRequestTime: Math.round(T0).toString()
+    }, {
+      headers: {
+        ...this.headers(),
+        'Content-Type': 'application/json'
+      },
+      timeout: 10000
+    });
+
+    const T3 = getEpochTimeMs(); // Tiempo de respuesta
+
+    if (response.data.success) {
+      const { t0, t1, t2 } = response.data.syncResult;
+      const { offset, delay } = computeExchangeOffset(t0, t1, t2, T3);
+
+      // Informar T3 para que el servidor registre el intercambio completo
+      await axios.post(`${this.baseURL}/sync/complete`, {
+        syncId: response.data.syncId,
+        clientReceiveTime: T3.toString()
+      }, {
+        headers: this.headers(),
+        timeout: 10000
+      });
 
-    } catch (error) {
+      return {
+        success: true,
+        latency: delay,
+        offset,
+      };
+    } else {
       return {
         success: false,
-        latency: 0,
+        latency: T3 - T0,
         offset: 0,
-        error: error instanceof Error ? error.message : 'Error desconocido'
+        error: response.data.error
       };
     }
   }
@@ -70,9 +124,7 @@ class CristianClient {
   async getCurrentTime() {
     try {
       const response = await axios.get(`${this.baseURL}/`, {
-        headers: {
-          'x-client-id': this.clientId
-        }
+        headers: this.headers()
       });
       return response.data;
     } catch (error) {
@@ -99,10 +151,17 @@ class CristianClient {
    */
   async getMetrics() {
     try {
-      const response = await axios.get(`${this.baseURL}/metrics?clientId=${this.clientId}`);
+      const response = await axios.get(`${this.baseURL}/metrics?clientId=${this.clientId}`, {
+        headers: this.headers()
+      });
       return response.data;
     } catch (error) {
-      console.error('Error obteniendo métricas:', error);
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      if (status === 401 || status === 403) {
+        console.error(`❌ Métricas rechazadas (${status}): defina CRISTIAN_API_KEY con una clave de rol operator o arranque el servidor con AUTH_DISABLED=true`);
+      } else {
+        console.error('Error obteniendo métricas:', error);
+      }
       return null;
     }
   }
@@ -126,7 +185,7 @@ async function runTests() {
   const health = await clients[0].getHealth();
   if (health) {
     console.log(`✅ Estado general: ${health.overall}`);
-    console.log(`📊 Servidores NTP: ${health.servers.primary.status} | ${health.servers.secondary.status}`);
+    console.log(`📊 Servidores NTP: ${health.servers.map((s: HealthServerEntry) => `${s.server} (${s.status})`).join(' | ')}`);
   } else {
     console.log('❌ No se pudo verificar la salud del servidor');
     return;
@@ -191,6 +250,12 @@ async function runTests() {
     console.log(`  Total sincronizaciones: ${metrics.system.totalSyncs}`);
     console.log(`  Sesiones activas: ${metrics.system.activeSessions}`);
     console.log(`  Tiempo activo: ${(metrics.system.uptime / 60).toFixed(1)} minutos`);
+
+    const cache = metrics.upstreamCache;
+    console.log('\n📊 Caché upstream:');
+    console.log(`  Consultas NTP reales: ${cache.miss}, reutilizadas: ${cache.hit}, compartidas: ${cache.coalesced} (${cache.hitRate ?? 0}% ahorro)`);
+  } else {
+    console.log('❌ No se pudieron obtener las métricas');
   }
 
   console.log('\n🎉 Pruebas completadas');
@@ -201,7 +266,7 @@ async function runTests() {
  */
 async function testFailover() {
   console.log('\n🔄 Prueba de Failover');
-  console.log('Para probar el failover, desconecte la red o bloquee ntp.shoa.cl y ejecute esta función');
+  console.log('Para probar el failover, desconecte la red o bloquee los servidores NTP configurados y ejecute esta función');
   
   const client = new CristianClient('failover-test-client');
   
@@ -0,0 +1,395 @@
+import 'dotenv/config'; // Las variables del .env se cargan antes de leer el entorno
+import fs from 'fs';
+import path from 'path';
+import { load as parseYaml } from 'js-yaml';
+import { z } from 'zod';
+
+// Mensajes de validación en español
+z.config(z.locales.es());
+
+const HOUR = 60 * 60 * 1000;
+
+// Entero positivo en milisegundos (o unidades); el entorno entrega strings
+const positiveInt = () => z.coerce.number().int().positive();
+const nonNegativeInt = () => z.coerce.number().int().min(0);
+
+// "true"/"false" desde el entorno; z.coerce.boolean trataría "false" como true
+const booleanFlag = () => z.preprocess(
+  value => value === 'true' ? true : value === 'false' ? false : value,
+  z.boolean()
+);
+
+// Lista separada por comas desde el entorno o arreglo desde el archivo
+const stringList = () => z.preprocess(
+  value => typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : value,
+  z.array(z.string().min(1))
+);
+
+const rateLimitPolicy = (burst: number, perMinute: number) => z.strictObject({
+  burst: positiveInt().default(burst),
+  perMinute: positiveInt().default(perMinute)
+}).prefault({});
+
+/**
+ * Esquema de la configuración del servidor con sus valores por defecto.
+ * Las claves desconocidas del archivo se rechazan para detectar errores de tipeo.
+ */
+const configSchema = z.strictObject({
+  server: z.strictObject({
+    port: z.coerce.number().int().min(1).max(65535).default(4000),
+    // Plazo para drenar las sincronizaciones en curso al apagar (ms)
+    shutdownTimeout: positiveInt().default(10000)
+  }).prefault({}),
+  cors: z.strictObject({
+    frontendUrl: z.url().default('http://localhost:5173'),
+    // Orígenes de desarrollo: CRA, Vite y Vite preview
+    origins: stringList().default(['http://localhost:3000', 'http://localhost:5173', 'http://localhost:4173'])
+  }).prefault({}),
+  ntp: z.strictObject({
+    servers: z.string().min(1).default('ntp.shoa.cl,pool.ntp.org'),
+    timeout: positiveInt().default(5000),
+    cacheTtl: nonNegativeInt().default(1000), // 0 solo comparte las consultas en curso
+    falsetickerThreshold: positiveInt().default(1000), // ms de discrepancia con el ensamble o el modelo local
+    metricsSnapshotInterval: positiveInt().default(60 * 1000),
+    metricsResetInterval: positiveInt().default(HOUR)
+  }).prefault({}),
+  circuitBreaker: z.strictObject({
+    errorThresholdPercentage: z.coerce.number().min(1).max(100).default(50),
+    resetTimeout: positiveInt().default(30000),
+    rollingCountTimeout: positiveInt().default(60000),
+    rollingCountBuckets: positiveInt().default(10)
+  }).prefault({}),
+  sync: z.strictObject({
+    maxRtt: positiveInt().default(1000), // RTT máximo de un intercambio confiable
+    maxPrecision: positiveInt().default(100), // Precisión máxima de un intercambio confiable
+    statsWindow: positiveInt().default(50) // Resultados recientes para las estadísticas de un cliente
+  }).prefault({}),
+  clients: z.strictObject({
+    activeWindow: positiveInt().default(30 * 1000),
+    idleExpiryHours: z.coerce.number().positive().default(24)
+  }).prefault({}),
+  rateLimit: z.strictObject({
+    enabled: booleanFlag().default(true),
+    sync: rateLimitPolicy(20, 30), // Admite dos ráfagas de 8 muestras seguidas
+    read: rateLimitPolicy(120, 600),
+    admin: rateLimitPolicy(10, 20)
+  }).prefault({}),
+  storage: z.strictObject({
+    driver: z.enum(['file', 'memory']).default('file'),
+    directory: z.string().min(1).default('data'),
+    flushInterval: positiveInt().default(1000),
+    maintenanceInterval: positiveInt().default(HOUR),
+    retention: z.strictObject({
+      syncDays: z.coerce.number().positive().default(30),
+      syncPerClient: positiveInt().default(1000),
+      logDays: z.coerce.number().positive().default(7),
+      logMaxEntries: positiveInt().default(10000),
+      metricsDays: z.coerce.number().positive().default(30)
+    }).prefault({})
+  }).prefault({}),
+  live: z.strictObject({
+    healthInterval: positiveInt().default(5000),
+    timeInterval: positiveInt().default(1000),
+    logLevel: z.enum(['ERROR', 'WARN', 'INFO', 'DEBUG', 'TRACE']).default('INFO')
+  }).prefault({}),
+  discipline: z.strictObject({
+    minPoll: positiveInt().default(16000),
+    maxPoll: positiveInt().default(1024000)
+  }).prefault({}),
+  berkeley: z.strictObject({
+    pollInterval: positiveInt().default(10000),
+    outlierThreshold: positiveInt().default(1000)
+  }).prefault({}),
+  sntp: z.strictObject({
+    enabled: booleanFlag().default(true),
+    host: z.string().min(1).default('0.0.0.0'),
+    port: z.coerce.number().int().min(1).max(65535).default(1123)
+  }).prefault({}),
+  leap: z.strictObject({
+    policy: z.enum(['step', 'smear']).default('step'), // smear: reparte el segundo en 24 h lineales
+    file: z.string().min(1).optional() // Archivo leap-seconds.list del IERS; por defecto el incluido
+  }).prefault({})
+});
+
+export type AppConfig = z.infer<typeof configSchema>;
+
+// Variables de entorno y la clave que alimentan; el entorno tiene prioridad sobre el archivo
+const ENV_KEYS: Record<string, string> = {
+  PORT: 'server.port',
+  SHUTDOWN_TIMEOUT: 'server.shutdownTimeout',
+  FRONTEND_URL: 'cors.frontendUrl',
+  CORS_ORIGINS: 'cors.origins',
+  NTP_SERVERS: 'ntp.servers',
+  NTP_TIMEOUT: 'ntp.timeout',
+  NTP_CACHE_TTL: 'ntp.cacheTtl',
+  NTP_FALSETICKER_THRESHOLD: 'ntp.falsetickerThreshold',
+  METRICS_SNAPSHOT_INTERVAL: 'ntp.metricsSnapshotInterval',
+  METRICS_RESET_INTERVAL: 'ntp.metricsResetInterval',
+  CIRCUIT_BREAKER_ERROR_THRESHOLD: 'circuitBreaker.errorThresholdPercentage',
+  CIRCUIT_BREAKER_RESET_TIMEOUT: 'circuitBreaker.resetTimeout',
+  CIRCUIT_BREAKER_ROLLING_WINDOW: 'circuitBreaker.rollingCountTimeout',
+  CIRCUIT_BREAKER_ROLLING_BUCKETS: 'circuitBreaker.rollingCountBuckets',
+  SYNC_MAX_RTT: 'sync.maxRtt',
+  SYNC_MAX_PRECISION: 'sync.maxPrecision',
+  SYNC_STATS_WINDOW: 'sync.statsWindow',
+  CLIENT_ACTIVE_WINDOW: 'clients.activeWindow',
+  CLIENT_IDLE_EXPIRY_HOURS: 'clients.idleExpiryHours',
+  RATE_LIMIT_ENABLED: 'rateLimit.enabled',
+  RATE_LIMIT_SYNC_BURST: 'rateLimit.sync.burst',
+  RATE_LIMIT_SYNC_PER_MINUTE: 'rateLimit.sync.perMinute',
+  RATE_LIMIT_READ_BURST: 'rateLimit.read.burst',
+  RATE_LIMIT_READ_PER_MINUTE: 'rateLimit.read.perMinute',
+  RATE_LIMIT_ADMIN_BURST: 'rateLimit.admin.burst',
+  RATE_LIMIT_ADMIN_PER_MINUTE: 'rateLimit.admin.perMinute',
+  STORAGE_DRIVER: 'storage.driver',
+  STORAGE_DIR: 'storage.directory',
+  STORAGE_FLUSH_INTERVAL: 'storage.flushInterval',
+  STORAGE_MAINTENANCE_INTERVAL: 'storage.maintenanceInterval',
+  RETENTION_SYNC_DAYS: 'storage.retention.syncDays',
+  RETENTION_SYNC_PER_CLIENT: 'storage.retention.syncPerClient',
+  RETENTION_LOG_DAYS: 'storage.retention.logDays',
+  RETENTION_LOG_MAX: 'storage.retention.logMaxEntries',
+  RETENTION_METRICS_DAYS: 'storage.retention.metricsDays',
+  LIVE_HEALTH_INTERVAL: 'live.healthInterval',
+  LIVE_TIME_INTERVAL: 'live.timeInterval',
+  LIVE_LOG_LEVEL: 'live.logLevel',
+  DISCIPLINE_MIN_POLL: 'discipline.minPoll',
+  DISCIPLINE_MAX_POLL: 'discipline.maxPoll',
+  BERKELEY_POLL_INTERVAL: 'berkeley.pollInterval',
+  BERKELEY_OUTLIER_THRESHOLD: 'berkeley.outlierThreshold',
+  SNTP_ENABLED: 'sntp.enabled',
+  SNTP_HOST: 'sntp.host',
+  SNTP_PORT: 'sntp.port',
+  LEAP_POLICY: 'leap.policy',
+  LEAP_SECONDS_FILE: 'leap.file'
+};
+
+/**
+ * Claves que se aplican en caliente al recargar: sus consumidores las leen en cada uso
+ * o reprograman sus timers al recibir el cambio. El resto requiere reiniciar el proceso.
+ */
+export const RELOADABLE_KEYS: string[] = [
+  'server.shutdownTimeout',
+  'cors.frontendUrl',
+  'cors.origins',
+  'ntp.cacheTtl',
+  'ntp.falsetickerThreshold',
+  'ntp.metricsSnapshotInterval',
+  'ntp.metricsResetInterval',
+  'circuitBreaker.errorThresholdPercentage',
+  'circuitBreaker.resetTimeout',
+  'sync.maxRtt',
+  'sync.maxPrecision',
+  'sync.statsWindow',
+  'clients.activeWindow',
+  'clients.idleExpiryHours',
+  'rateLimit.enabled',
+  'rateLimit.sync.burst',
+  'rateLimit.sync.perMinute',
+  'rateLimit.read.burst',
+  'rateLimit.read.perMinute',
+  'rateLimit.admin.burst',
+  'rateLimit.admin.perMinute',
+  'berkeley.outlierThreshold',
+  'leap.policy',
+  'leap.file'
+];
+
+/**
+ * Configuración inválida; cada problema indica la clave y, si aplica, su variable de entorno
+ */
+export class ConfigError extends Error {
+  constructor(readonly issues: string[], readonly source: string | null) {
+    super(`Configuración inválida${source ? ` (${source})` : ''}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+// Resultado de una recarga: claves aplicadas y claves cambiadas que esperan un reinicio
+export interface ConfigReloadResult {
+  applied: string[];
+  restartRequired: string[];
+  reloadedAt: number;
+}
+
+type ConfigListener = (config: AppConfig, changed: string[]) => void;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function setPath(target: Record<string, unknown>, key: string, value: unknown) {
+  const parts = key.split('.');
+  let node = target;
+  for (const part of parts.slice(0, -1)) {
+    const child = node[part];
+    node = isPlainObject(child) ? child : (node[part] = {});
+  }
+  node[parts[parts.length - 1]] = value;
+}
+
+function getPath(source: Record<string, unknown>, key: string): unknown {
+  return key.split('.').reduce<unknown>((node, part) => (isPlainObject(node) ? node[part] : undefined), source);
+}
+
+// Combina objetos anidados; los arreglos y valores simples de `override` reemplazan
+function deepMerge(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const current = result[key];
+    result[key] = isPlainObject(value) && isPlainObject(current) ? deepMerge(current, value) : value;
+  }
+  return result;
+}
+
+// Claves hoja (p. ej. "rateLimit.sync.burst") cuyo valor difiere entre dos configuraciones
+function diffKeys(previous: Record<string, unknown>, next: Record<string, unknown>, prefix = ''): string[] {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  return Array.from(keys).flatMap(key => {
+    const keyPath = prefix ? `${prefix}.${key}` : key;
+    const before = previous[key];
+    const after = next[key];
+    if (isPlainObject(before) && isPlainObject(after)) {
+      return diffKeys(before, after, keyPath);
+    }
+    return JSON.stringify(before) === JSON.stringify(after) ? [] : [keyPath];
+  });
+}
+
+/**
+ * Carga y valida la configuración: valores por defecto, luego el archivo CONFIG_FILE
+ * (JSON o YAML) y por último las variables de entorno.
+ */
+class ConfigManager {
+  private current: AppConfig;
+  private listeners: Set<ConfigListener> = new Set();
+  private loadedAt = Date.now();
+  private lastReload: ConfigReloadResult | null = null;
+  private reloads = 0;
+
+  constructor(
+    readonly file: string | null = process.env.CONFIG_FILE ? path.resolve(process.env.CONFIG_FILE) : null,
+    private env: NodeJS.ProcessEnv = process.env
+  ) {
+    this.current = this.load();
+  }
+
+  get(): AppConfig {
+    return this.current;
+  }
+
+  /**
+   * Vuelve a leer el archivo y el entorno; aplica solo las claves recargables.
+   * Si la nueva configuración es inválida se conserva la actual y se lanza ConfigError.
+   */
+  reload(): ConfigReloadResult {
+    const next = this.load();
+    const changed = diffKeys(this.current, next);
+    const applied = changed.filter(key => RELOADABLE_KEYS.includes(key));
+    const restartRequired = changed.filter(key => !RELOADABLE_KEYS.includes(key));
+
+    if (applied.length > 0) {
+      const updated = structuredClone(this.current);
+      applied.forEach(key => setPath(updated, key, getPath(next, key)));
+      this.current = updated;
+      this.listeners.forEach(listener => listener(updated, applied));
+    }
+
+    this.reloads++;
+    this.lastReload = { applied, restartRequired, reloadedAt: Date.now() };
+    return this.lastReload;
+  }
+
+  /**
+   * Suscribe a los cambios aplicados por una recarga; devuelve la función para desuscribirse
+   */
+  onChange(listener: ConfigListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private load(): AppConfig {
+    const raw = deepMerge(this.readFile(), this.readEnv());
+    const result = configSchema.safeParse(raw);
+
+    if (!result.success) {
+      const envByKey = Object.fromEntries(Object.entries(ENV_KEYS).map(([name, key]) => [key, name]));
+      const issues = result.error.issues.map(issue => {
+        const key = issue.path.join('.');
+        const envName = envByKey[key] && this.env[envByKey[key]] !== undefined ? ` (${envByKey[key]})` : '';
+        return `${key || '(raíz)'}${envName}: ${issue.message}`;
+      });
+      throw new ConfigError(issues, this.file);
+    }
+    return result.data;
+  }
+
+  private readFile(): Record<string, unknown> {
+    if (!this.file) return {};
+
+    let content: string;
+    try {
+      content = fs.readFileSync(this.file, 'utf8');
+    } catch (error) {
+      throw new ConfigError([`no se pudo leer el archivo: ${error instanceof Error ? error.message : error}`], this.file);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = /\.ya?ml$/i.test(this.file) ? parseYaml(content) : JSON.parse(content);
+    } catch (error) {
+      throw new ConfigError([`formato inválido: ${error instanceof Error ? error.message : error}`], this.file);
+    }
+
+    if (parsed === undefined || parsed === null) return {};
+    if (!isPlainObject(parsed)) {
+      throw new ConfigError(['el archivo debe contener un objeto'], this.file);
+    }
+    return parsed;
+  }
+
+  private readEnv(): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    for (const [name, key] of Object.entries(ENV_KEYS)) {
+      const value = this.env[name];
+      if (value !== undefined && value !== '') setPath(values, key, value);
+    }
+    return values;
+  }
+
+  getStatus() {
+    return {
+      file: this.file,
+      loadedAt: this.loadedAt,
+      reloads: this.reloads,
+      lastReload: this.lastReload,
+      reloadableKeys: RELOADABLE_KEYS
+    };
+  }
+}
+
+/**
+ * Carga la configuración de arranque; si es inválida muestra los problemas y termina
+ * el proceso antes de inicializar cualquier módulo
+ */
+function loadStartupConfig(): ConfigManager {
+  try {
+    return new ConfigManager();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+// Instancia singleton de la configuración
+export const configManager = loadStartupConfig();
+
+// Configuración vigente; se debe leer en cada uso para respetar las recargas
+export function getConfig(): AppConfig {
+  return configManager.get();
+}
+
+export { ConfigManager };
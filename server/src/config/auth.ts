@@ -0,0 +1,145 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import jwt from 'jsonwebtoken';
+
+// Roles en orden creciente de privilegios: cada uno incluye los permisos del anterior
+export const ROLES = ['viewer', 'operator', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+// Clave de API configurada en API_KEYS
+export interface ApiKeyEntry {
+  name: string; // Identificador para logs y para el `sub` del JWT
+  key: string;
+  role: Role;
+}
+
+// Identidad resuelta de una request o conexión WebSocket
+export interface AuthContext {
+  role: Role | null; // null: sin permisos (anónimo con AUTH_ANONYMOUS_ROLE=none)
+  subject: string;
+  method: 'api-key' | 'jwt' | 'anonymous' | 'disabled';
+}
+
+// Claims propios del JWT emitido por POST /api/auth/login
+interface TokenClaims {
+  sub: string;
+  role: Role;
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Indica si `role` alcanza el rol requerido según la jerarquía viewer < operator < admin
+ */
+export function hasRole(role: Role | null, required: Role): boolean {
+  return role !== null && ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Interpreta API_KEYS: lista separada por comas de `clave:rol[:nombre]`
+ * Ej: "s3cr3t:admin:ops,r34d0nly:operator:grafana"
+ */
+export function parseApiKeys(spec: string = process.env.API_KEYS || ''): ApiKeyEntry[] {
+  return spec
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const [key, role, name] = entry.split(':').map(part => part.trim());
+      if (!key || !isRole(role)) {
+        throw new Error(`Entrada inválida en API_KEYS (posición ${index + 1}): se espera clave:rol[:nombre] con rol ${ROLES.join(', ')}`);
+      }
+      return { key, role, name: name || `key-${index + 1}` };
+    });
+}
+
+function parseAnonymousRole(value: string = process.env.AUTH_ANONYMOUS_ROLE || 'viewer'): Role | null {
+  if (value === 'none') return null;
+  if (!isRole(value)) {
+    throw new Error(`AUTH_ANONYMOUS_ROLE inválido: ${value} (use none, ${ROLES.join(', ')})`);
+  }
+  return value;
+}
+
+/**
+ * Configuración de autenticación. Sin API_KEYS solo se concede el rol anónimo, así las
+ * rutas operator y admin quedan cerradas; deshabilitarla (todo con rol admin) exige
+ * AUTH_DISABLED=true.
+ */
+class AuthConfig {
+  readonly apiKeys: ApiKeyEntry[];
+  readonly enabled: boolean;
+  readonly anonymousRole: Role | null;
+  readonly tokenTtl: number; // Segundos de validez del JWT
+  private readonly jwtSecret: string;
+
+  constructor() {
+    this.apiKeys = parseApiKeys();
+    this.enabled = process.env.AUTH_DISABLED !== 'true';
+    this.anonymousRole = parseAnonymousRole();
+    this.tokenTtl = Number(process.env.JWT_TTL) || 3600;
+
+    if (!this.enabled) {
+      console.warn('🚨 AUTH_DISABLED=true: autenticación deshabilitada, cualquier request tiene rol admin (solo para desarrollo)');
+    } else if (this.apiKeys.length === 0) {
+      console.warn(`⚠️ API_KEYS no configurado: solo se permite el rol anónimo (${this.anonymousRole ?? 'none'}); las rutas operator y admin quedan cerradas`);
+    }
+
+    // Sin secreto configurado los tokens emitidos dejan de ser válidos al reiniciar
+    this.jwtSecret = process.env.JWT_SECRET || randomBytes(32).toString('hex');
+    if (this.apiKeys.length > 0 && !process.env.JWT_SECRET) {
+      console.warn('⚠️ JWT_SECRET no configurado: se usa un secreto aleatorio por proceso');
+    }
+  }
+
+  /**
+   * Busca una clave de API comparando en tiempo constante
+   */
+  findApiKey(candidate: string): ApiKeyEntry | undefined {
+    const candidateBuffer = Buffer.from(candidate);
+    return this.apiKeys.find(({ key }) => {
+      const keyBuffer = Buffer.from(key);
+      return keyBuffer.length === candidateBuffer.length && timingSafeEqual(keyBuffer, candidateBuffer);
+    });
+  }
+
+  issueToken(entry: ApiKeyEntry): { token: string; expiresAt: number } {
+    const token = jwt.sign({ role: entry.role } satisfies Omit<TokenClaims, 'sub'>, this.jwtSecret, {
+      algorithm: 'HS256',
+      subject: entry.name,
+      expiresIn: this.tokenTtl
+    });
+    return { token, expiresAt: Date.now() + this.tokenTtl * 1000 };
+  }
+
+  /**
+   * Resuelve una credencial (clave de API o JWT). Devuelve null si es inválida o expiró.
+   * Sin credencial se aplica el rol anónimo.
+   */
+  resolve(credential: string | undefined): AuthContext | null {
+    if (!this.enabled) {
+      return { role: 'admin', subject: 'anonymous', method: 'disabled' };
+    }
+    if (!credential) {
+      return { role: this.anonymousRole, subject: 'anonymous', method: 'anonymous' };
+    }
+
+    const apiKey = this.findApiKey(credential);
+    if (apiKey) {
+      return { role: apiKey.role, subject: apiKey.name, method: 'api-key' };
+    }
+
+    try {
+      const claims = jwt.verify(credential, this.jwtSecret, { algorithms: ['HS256'] }) as TokenClaims;
+      return isRole(claims.role) ? { role: claims.role, subject: claims.sub, method: 'jwt' } : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Instancia singleton de la configuración de autenticación
+export const authConfig = new AuthConfig();
+
+export { AuthConfig };
@@ -1,14 +1,12 @@
 import { CorsOptions } from 'cors';
 import { logger } from '../utils/logger';
+import { getConfig } from './appConfig';
 
 export const corsOptions: CorsOptions = {
     origin: function (origin, callback) {
-        const whitelist = [
-            process.env.FRONTEND_URL || 'http://localhost:5173',
-            'http://localhost:3000', // Para desarrollo
-            'http://localhost:5173', // Vite default
-            'http://localhost:4173'  // Vite preview
-        ];
+        // Se lee en cada request para respetar las recargas de configuración
+        const { frontendUrl, origins } = getConfig().cors;
+        const whitelist = [frontendUrl, ...origins];
 
         // Permitir requests sin origin (como Postman, curl, etc.) en desarrollo
         if (!origin && process.env.NODE_ENV === 'development') {
@@ -23,14 +21,25 @@ export const corsOptions: CorsOptions = {
             callback(new Error('ERROR DE CORS - Origen no permitido'));
         }
     },
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
     allowedHeaders: [
         'Content-Type', 
         'Authorization', 
         'x-client-id',
+        'X-API-Key',
         'X-Requested-With',
         'Accept',
-        'Origin'
+        'Origin',
+        'traceparent', // Contexto de traza W3C
+        'tracestate'
+    ],
+    // El navegador solo expone estas cabeceras si se declaran
+    exposedHeaders: [
+        'RateLimit-Limit',
+        'RateLimit-Remaining',
+        'RateLimit-Reset',
+        'RateLimit-Policy',
+        'Retry-After'
     ],
     credentials: true,
     optionsSuccessStatus: 200 // Para compatibilidad con browsers antiguos
@@ -1,47 +1,128 @@
 import CircuitBreaker from 'opossum';
-import { getNTPTime, NTPMetrics } from '../utils/timeUtils';
-
-// Configuración del Circuit Breaker para cada servidor NTP
-const circuitBreakerOptions = {
-  timeout: 5000, // 5 segundos timeout
-  errorThresholdPercentage: 50, // 50% de fallos para abrir el circuito
-  resetTimeout: 30000, // 30 segundos antes de intentar nuevamente
-  rollingCountTimeout: 60000, // Ventana de 60 segundos
-  rollingCountBuckets: 10,
-  name: 'NTP-Server'
-};
-
-// Circuit Breakers para cada servidor
-export const primaryNTPBreaker = new CircuitBreaker(getNTPTime, {
-  ...circuitBreakerOptions,
-  name: 'Primary-NTP-ntp.shoa.cl'
-});
+import {
+  getNTPTime,
+  getEpochTimeMs,
+  toUpstreamInfo,
+  selectAndCluster,
+  parseNTPServers,
+  NTPMetrics,
+  NTPServerConfig,
+  EnsembleReading,
+  EnsembleSelection,
+  UpstreamInfo
+} from '../utils/timeUtils';
+import type { SNTPResponse } from '../utils/sntpClient';
+import { storage, MetricSnapshot } from '../storage';
+import { metricsRegistry, Counter, Gauge, Histogram } from '../utils/openMetrics';
+import { SingleFlightCache, CacheSource } from '../utils/singleFlightCache';
+import { withSpan, recordSpan } from './tracing';
+import { configManager, getConfig } from './appConfig';
+import { logger } from '../utils/logger';
+import { leapSeconds } from '../services/leapSeconds';
+
+// Cantidad de offsets recientes usados para estimar el jitter de cada servidor
+const PEER_JITTER_WINDOW = 8;
+
+// Última lectura y consulta en curso de cada servidor NTP, indexadas por host
+const upstreamCache = new SingleFlightCache<SNTPResponse>();
+
+// Lectura upstream entregada a un consumidor; `cached` indica que no es una medición propia
+export interface UpstreamReading extends SNTPResponse {
+  cached: boolean;
+  age: number; // ms desde la medición (reloj monotónico)
+}
 
-export const secondaryNTPBreaker = new CircuitBreaker(getNTPTime, {
-  ...circuitBreakerOptions,
-  name: 'Secondary-NTP-pool.ntp.org'
-});
+// Circuit Breakers por servidor NTP, indexados por host
+export const ntpBreakers: Map<string, CircuitBreaker> = new Map();
+
+export type CircuitBreakerState = 'closed' | 'open' | 'half-open';
+
+export function getBreakerState(breaker: CircuitBreaker): CircuitBreakerState {
+  return breaker.closed ? 'closed' : breaker.opened ? 'open' : 'half-open';
+}
+
+// Métricas OpenMetrics de los servidores upstream; a diferencia de NTPMetrics no se reinician cada hora
+const upstreamLatency = metricsRegistry.register(new Histogram({
+  name: 'cristian_upstream_rtt_seconds',
+  help: 'Round-trip time SNTP de las consultas exitosas a cada servidor upstream',
+  unit: 'seconds',
+  labelNames: ['server'],
+  buckets: [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5]
+}));
+
+const upstreamRequests = metricsRegistry.register(new Counter({
+  name: 'cristian_upstream_requests',
+  help: 'Consultas a cada servidor upstream por resultado (success, failure)',
+  labelNames: ['server', 'result']
+}));
+
+const upstreamFalsetickers = metricsRegistry.register(new Counter({
+  name: 'cristian_upstream_falsetickers',
+  help: 'Veces que un servidor upstream pasó a falseticker en la selección del ensamble',
+  labelNames: ['server']
+}));
+
+const upstreamCacheRequests = metricsRegistry.register(new Counter({
+  name: 'cristian_upstream_cache_requests',
+  help: 'Lecturas upstream por servidor y origen (hit, miss, coalesced)',
+  labelNames: ['server', 'result']
+}));
+
+const upstreamFailovers = metricsRegistry.register(new Counter({
+  name: 'cristian_upstream_failovers',
+  help: 'Aperturas del circuit breaker de cada servidor upstream',
+  labelNames: ['server']
+}));
+
+metricsRegistry.register(new Gauge({
+  name: 'cristian_upstream_breaker_state',
+  help: 'Estado del circuit breaker de cada servidor upstream (1 en el estado actual)',
+  labelNames: ['server', 'state'],
+  collect: gauge => {
+    gauge.reset();
+    for (const [server, breaker] of ntpBreakers.entries()) {
+      const current = getBreakerState(breaker);
+      (['closed', 'open', 'half-open'] as CircuitBreakerState[]).forEach(state => {
+        gauge.set({ server, state }, state === current ? 1 : 0);
+      });
+    }
+  }
+}));
+
+// Transición de estado de un circuit breaker
+export interface BreakerTransition {
+  server: string;
+  state: CircuitBreakerState;
+  timestamp: number;
+}
 
 // Métricas globales
 class NTPMetricsManager {
+  private servers: Map<string, NTPServerConfig> = new Map();
   private metrics: Map<string, NTPMetrics> = new Map();
-  private activeServer: string = 'ntp.shoa.cl'; // Servidor actualmente en uso
+  private recentOffsets: Map<string, number[]> = new Map();
+  private cacheStats: Map<string, Record<CacheSource, number>> = new Map();
+  private lastResponses: Map<string, UpstreamInfo & { offset: number; delay: number; receivedAt: number }> = new Map();
+  private activeServer: string; // Servidor actualmente en uso (system peer)
   private lastSyncAttempt: { server: string; timestamp: number; success: boolean } | null = null;
+  private lastSelection: EnsembleSelection | null = null;
+  private breakerListeners: Set<(transition: BreakerTransition) => void> = new Set();
 
-  constructor() {
-    // Inicializar métricas para servidores
-    this.metrics.set('ntp.shoa.cl', {
-      server: 'ntp.shoa.cl',
-      averageLatency: 0,
-      successRate: 100,
-      responseTime: 0,
-      failoverCount: 0,
-      activeClients: 0,
-      lastSync: 0
-    });
+  constructor(servers: NTPServerConfig[]) {
+    // Inicializar breaker y métricas para cada servidor configurado
+    servers.forEach(server => this.registerServer(server));
+    this.activeServer = this.getServers()[0]?.host ?? 'ninguno';
+  }
+
+  /**
+   * Registra un servidor NTP con su propio circuit breaker y entrada de métricas
+   */
+  registerServer(server: NTPServerConfig) {
+    this.servers.set(server.host, server);
+    this.createBreaker(server);
 
-    this.metrics.set('pool.ntp.org', {
-      server: 'pool.ntp.org',
+    this.metrics.set(server.host, {
+      server: server.host,
       averageLatency: 0,
       successRate: 100,
       responseTime: 0,
@@ -49,51 +130,123 @@ class NTPMetricsManager {
       activeClients: 0,
       lastSync: 0
     });
+  }
+
+  /**
+   * Actualiza puerto, prioridad o timeout de un servidor. El circuit breaker se
+   * recrea con el nuevo timeout; las métricas acumuladas se conservan.
+   */
+  updateServer(host: string, changes: Partial<Omit<NTPServerConfig, 'host'>>): NTPServerConfig | undefined {
+    const current = this.servers.get(host);
+    if (!current) return undefined;
+
+    const updated = { ...current, ...changes, host };
+    this.servers.set(host, updated);
+
+    ntpBreakers.get(host)?.shutdown();
+    this.createBreaker(updated);
+    upstreamCache.delete(host); // La lectura guardada puede venir de otro puerto
 
-    this.setupCircuitBreakerEvents();
+    return updated;
   }
 
-  private setupCircuitBreakerEvents() {
-    // Eventos para servidor primario
-    primaryNTPBreaker.on('open', () => {
-      console.warn('🔴 Circuit Breaker ABIERTO para servidor primario ntp.shoa.cl');
-      this.incrementFailover('ntp.shoa.cl');
-    });
+  /**
+   * Elimina un servidor, su circuit breaker y sus métricas
+   */
+  removeServer(host: string): boolean {
+    if (!this.servers.has(host)) return false;
+
+    ntpBreakers.get(host)?.shutdown();
+    ntpBreakers.delete(host);
+    this.servers.delete(host);
+    this.metrics.delete(host);
+    this.recentOffsets.delete(host);
+    this.lastResponses.delete(host);
+    this.cacheStats.delete(host);
+    upstreamCache.delete(host);
+
+    if (this.activeServer === host) {
+      this.activeServer = this.getServers()[0]?.host ?? 'ninguno';
+    }
+    return true;
+  }
 
-    primaryNTPBreaker.on('halfOpen', () => {
-      console.info('🟡 Circuit Breaker MEDIO-ABIERTO para servidor primario ntp.shoa.cl');
+  private createBreaker(server: NTPServerConfig) {
+    // El timeout es propio de cada servidor; el resto viene de la configuración
+    const breaker = new CircuitBreaker(getNTPTime, {
+      ...getConfig().circuitBreaker,
+      timeout: server.timeout,
+      name: `NTP-${server.host}`
     });
+    ntpBreakers.set(server.host, breaker);
+    this.setupCircuitBreakerEvents(server.host, breaker);
+  }
 
-    primaryNTPBreaker.on('close', () => {
-      console.info('🟢 Circuit Breaker CERRADO para servidor primario ntp.shoa.cl');
-    });
+  // Servidores configurados ordenados por prioridad (menor número = mayor prioridad)
+  getServers(): NTPServerConfig[] {
+    return Array.from(this.servers.values()).sort((a, b) => a.priority - b.priority);
+  }
+
+  getServer(host: string): NTPServerConfig | undefined {
+    return this.servers.get(host);
+  }
+
+  // Configuración de un servidor junto a su circuit breaker y métricas
+  getServerEntry(host: string) {
+    const config = this.servers.get(host);
+    if (!config) return undefined;
+
+    return {
+      ...config,
+      circuitBreakerState: getBreakerState(ntpBreakers.get(host)!),
+      metrics: this.metrics.get(host),
+      isActive: this.activeServer === host
+    };
+  }
 
-    // Eventos para servidor secundario
-    secondaryNTPBreaker.on('open', () => {
-      console.warn('🔴 Circuit Breaker ABIERTO para servidor secundario pool.ntp.org');
-      this.incrementFailover('pool.ntp.org');
+  private setupCircuitBreakerEvents(host: string, breaker: CircuitBreaker) {
+    breaker.on('open', () => {
+      console.warn(`🔴 Circuit Breaker ABIERTO para servidor ${host}`);
+      recordSpan('ntp.failover', { 'ntp.server': host, 'ntp.failover.reason': 'circuit_open' });
+      this.incrementFailover(host);
+      this.notifyBreakerTransition(host, 'open');
     });
 
-    secondaryNTPBreaker.on('halfOpen', () => {
-      console.info('🟡 Circuit Breaker MEDIO-ABIERTO para servidor secundario pool.ntp.org');
+    breaker.on('halfOpen', () => {
+      console.info(`🟡 Circuit Breaker MEDIO-ABIERTO para servidor ${host}`);
+      this.notifyBreakerTransition(host, 'half-open');
     });
 
-    secondaryNTPBreaker.on('close', () => {
-      console.info('🟢 Circuit Breaker CERRADO para servidor secundario pool.ntp.org');
+    breaker.on('close', () => {
+      console.info(`🟢 Circuit Breaker CERRADO para servidor ${host}`);
+      this.notifyBreakerTransition(host, 'closed');
     });
   }
 
+  /**
+   * Registra un observador de transiciones de circuit breaker; devuelve la función para darlo de baja
+   */
+  onBreakerTransition(listener: (transition: BreakerTransition) => void): () => void {
+    this.breakerListeners.add(listener);
+    return () => this.breakerListeners.delete(listener);
+  }
+
+  private notifyBreakerTransition(server: string, state: CircuitBreakerState) {
+    const transition = { server, state, timestamp: Date.now() };
+    this.breakerListeners.forEach(listener => listener(transition));
+  }
+
   updateMetrics(server: string, latency: number, success: boolean, responseTime: number) {
     const metric = this.metrics.get(server);
     if (!metric) return;
 
     // Actualizar latencia promedio (media móvil)
     metric.averageLatency = (metric.averageLatency * 0.8) + (latency * 0.2);
-    
+
     // Actualizar tasa de éxito (media móvil)
     const successValue = success ? 100 : 0;
     metric.successRate = (metric.successRate * 0.9) + (successValue * 0.1);
-    
+
     // Actualizar tiempo de respuesta
     metric.responseTime = responseTime;
     metric.lastSync = Date.now();
@@ -106,12 +259,113 @@ class NTPMetricsManager {
       timestamp: Date.now(),
       success
     };
+  }
 
-    // Si el intento fue exitoso, actualizar el servidor activo
-    if (success) {
-      this.activeServer = server;
-      console.log(`🎯 Servidor activo actualizado a: ${server}`);
+  /**
+   * Registra un offset medido y devuelve el jitter del servidor:
+   * RMS de las diferencias entre los offsets recientes y el último
+   */
+  recordOffset(server: string, offset: number): number {
+    const offsets = this.recentOffsets.get(server) || [];
+    offsets.push(offset);
+    if (offsets.length > PEER_JITTER_WINDOW) {
+      offsets.splice(0, offsets.length - PEER_JITTER_WINDOW);
     }
+    this.recentOffsets.set(server, offsets);
+
+    return this.getJitter(server);
+  }
+
+  // Jitter respecto del último offset registrado, sin agregar una medición
+  getJitter(server: string): number {
+    const offsets = this.recentOffsets.get(server) || [];
+    if (offsets.length < 2) return 0;
+
+    const last = offsets[offsets.length - 1];
+    const sumSquares = offsets.slice(0, -1).reduce((sum, o) => sum + (o - last) ** 2, 0);
+    return Math.sqrt(sumSquares / (offsets.length - 1));
+  }
+
+  recordCacheResult(server: string, source: CacheSource) {
+    const stats = this.cacheStats.get(server) ?? { hit: 0, miss: 0, coalesced: 0 };
+    stats[source]++;
+    this.cacheStats.set(server, stats);
+    upstreamCacheRequests.inc({ server, result: source });
+  }
+
+  /**
+   * Aciertos de la caché upstream: `miss` son consultas reales, `hit` lecturas
+   * reutilizadas y `coalesced` requests que esperaron una consulta en curso
+   */
+  getCacheStatus() {
+    const servers = Array.from(this.cacheStats.entries()).map(([server, stats]) => ({ server, ...stats }));
+    const totals = servers.reduce(
+      (sum, stats) => ({ hit: sum.hit + stats.hit, miss: sum.miss + stats.miss, coalesced: sum.coalesced + stats.coalesced }),
+      { hit: 0, miss: 0, coalesced: 0 }
+    );
+    const requests = totals.hit + totals.miss + totals.coalesced;
+
+    return {
+      ttl: getConfig().ntp.cacheTtl,
+      ...totals,
+      hitRate: requests > 0 ? Number(((totals.hit + totals.coalesced) / requests * 100).toFixed(1)) : null,
+      servers
+    };
+  }
+
+  // Guarda los campos del último paquete SNTP recibido de un servidor
+  recordResponse(response: SNTPResponse) {
+    this.lastResponses.set(response.server, {
+      ...toUpstreamInfo(response),
+      offset: response.offset,
+      delay: response.delay,
+      receivedAt: Date.now()
+    });
+  }
+
+  recordSelection(selection: EnsembleSelection) {
+    this.reportFalsetickers(selection);
+    leapSeconds.observeUpstream(selection);
+    this.lastSelection = selection;
+    if (selection.systemPeer) {
+      if (selection.systemPeer !== this.activeServer) {
+        recordSpan('ntp.failover', {
+          'ntp.failover.from': this.activeServer,
+          'ntp.failover.to': selection.systemPeer,
+          'ntp.failover.reason': 'system_peer_change'
+        });
+      }
+      this.activeServer = selection.systemPeer;
+    }
+  }
+
+  /**
+   * Avisa cuando un servidor pasa a falseticker o deja de serlo respecto a la selección anterior
+   */
+  private reportFalsetickers(selection: EnsembleSelection) {
+    const previous = new Map(
+      (this.lastSelection?.readings || []).map(reading => [reading.server, reading.status])
+    );
+
+    for (const reading of selection.readings) {
+      const wasFalseticker = previous.get(reading.server) === 'falseticker';
+
+      if (reading.status === 'falseticker' && !wasFalseticker) {
+        upstreamFalsetickers.inc({ server: reading.server });
+        logger.warn(`🚨 Servidor NTP ${reading.server} marcado como falseticker`, {
+          offset: `${reading.offset.toFixed(3)}ms`,
+          reason: reading.rejection ?? 'Fuera de la intersección del ensamble'
+        }, undefined, reading.server);
+      } else if (wasFalseticker && (reading.status === 'survivor' || reading.status === 'outlier')) {
+        logger.info(`✅ Servidor NTP ${reading.server} vuelve a concordar con el ensamble`, {
+          offset: `${reading.offset.toFixed(3)}ms`
+        }, undefined, reading.server);
+      }
+    }
+  }
+
+  getLastSelection(): EnsembleSelection | null {
+    return this.lastSelection;
   }
 
   // Método para obtener el servidor actualmente en uso
@@ -131,6 +385,7 @@ class NTPMetricsManager {
   }
 
   incrementFailover(server: string) {
+    upstreamFailovers.inc({ server });
     const metric = this.metrics.get(server);
     if (metric) {
       metric.failoverCount++;
@@ -177,61 +432,104 @@ class NTPMetricsManager {
   getHealthStatus() {
     const activeServer = this.getActiveServer();
     const lastSync = this.getLastSyncAttempt();
-    
+    const selectionByServer = new Map(
+      (this.lastSelection?.readings || []).map(reading => [reading.server, reading])
+    );
+
+    const servers = this.getServers().map(config => {
+      const breaker = ntpBreakers.get(config.host)!;
+      const selection = selectionByServer.get(config.host);
+
+      return {
+        server: config.host,
+        port: config.port,
+        priority: config.priority,
+        status: selection?.status === 'falseticker'
+          ? 'falseticker'
+          : breaker.stats.fires > 0 && breaker.stats.failures > 0 ? 'degraded' : 'healthy',
+        circuitBreakerState: getBreakerState(breaker),
+        stats: breaker.stats,
+        metrics: this.metrics.get(config.host),
+        selection: selection ? {
+          status: selection.status,
+          offset: selection.offset,
+          delay: selection.delay,
+          jitter: selection.jitter,
+          rootDistance: selection.rootDistance,
+          rejection: selection.rejection ?? null
+        } : null,
+        sntp: this.lastResponses.get(config.host) || null,
+        isActive: activeServer === config.host
+      };
+    });
+
     return {
-      primary: {
-        server: 'ntp.shoa.cl',
-        status: primaryNTPBreaker.stats.fires > 0 ? 'degraded' : 'healthy',
-        circuitBreakerState: primaryNTPBreaker.closed ? 'closed' : primaryNTPBreaker.opened ? 'open' : 'half-open',
-        stats: primaryNTPBreaker.stats,
-        metrics: this.metrics.get('ntp.shoa.cl'),
-        isActive: activeServer === 'ntp.shoa.cl'
-      },
-      secondary: {
-        server: 'pool.ntp.org',
-        status: secondaryNTPBreaker.stats.fires > 0 ? 'degraded' : 'healthy',
-        circuitBreakerState: secondaryNTPBreaker.closed ? 'closed' : secondaryNTPBreaker.opened ? 'open' : 'half-open',
-        stats: secondaryNTPBreaker.stats,
-        metrics: this.metrics.get('pool.ntp.org'),
-        isActive: activeServer === 'pool.ntp.org'
-      },
+      servers,
       overall: this.getOverallHealth(),
       activeServer,
-      lastSyncAttempt: lastSync
+      lastSyncAttempt: lastSync,
+      lastSelection: this.lastSelection
     };
   }
 
   private getOverallHealth(): 'healthy' | 'degraded' | 'critical' {
-    const primaryHealthy = primaryNTPBreaker.closed;
-    const secondaryHealthy = secondaryNTPBreaker.closed;
+    const breakers = this.getServers().map(config => ntpBreakers.get(config.host)!);
+    const closedCount = breakers.filter(breaker => breaker.closed).length;
 
-    if (primaryHealthy && secondaryHealthy) return 'healthy';
-    if (primaryHealthy || secondaryHealthy) return 'degraded';
+    if (breakers.length > 0 && closedCount === breakers.length) return 'healthy';
+    if (closedCount > 0) return 'degraded';
     return 'critical';
   }
 
-  // Limpiar métricas periódicamente
-  // Métodos para simulación de fallos
-  forceFailure(server: string, duration: number) {
-    if (server === 'primary') {
-      primaryNTPBreaker.open();
-      setTimeout(() => {
-        primaryNTPBreaker.close();
-      }, duration);
-    } else if (server === 'secondary') {
-      secondaryNTPBreaker.open();
-      setTimeout(() => {
-        secondaryNTPBreaker.close();
-      }, duration);
-    }
+  /**
+   * Guarda una instantánea de las métricas de cada servidor en el almacenamiento
+   */
+  snapshotMetrics(): MetricSnapshot[] {
+    const timestamp = Date.now();
+    const selectionByServer = new Map(
+      (this.lastSelection?.readings || []).map(reading => [reading.server, reading])
+    );
+
+    const snapshots = this.getServers().map(config => {
+      const metric = this.metrics.get(config.host)!;
+      const selection = selectionByServer.get(config.host);
+
+      return {
+        timestamp,
+        server: config.host,
+        averageLatency: metric.averageLatency,
+        successRate: metric.successRate,
+        responseTime: metric.responseTime,
+        failoverCount: metric.failoverCount,
+        activeClients: metric.activeClients,
+        circuitBreakerState: getBreakerState(ntpBreakers.get(config.host)!),
+        selection: selection ? {
+          status: selection.status,
+          offset: selection.offset,
+          delay: selection.delay,
+          jitter: selection.jitter
+        } : null
+      };
+    });
+
+    snapshots.forEach(snapshot => storage.appendMetricSnapshot(snapshot));
+    return snapshots;
+  }
+
+  // Resuelve 'primary' al servidor de mayor prioridad para compatibilidad con la simulación
+  resolveServer(server: string): string | undefined {
+    if (server === 'primary') return this.getServers()[0]?.host;
+    return this.servers.has(server) ? server : undefined;
   }
 
+  // Cierra el circuit breaker tras retirar los fallos inyectados
   restoreService(server: string) {
-    if (server === 'primary') {
-      primaryNTPBreaker.close();
-    } else if (server === 'secondary') {
-      secondaryNTPBreaker.close();
-    }
+    ntpBreakers.get(this.resolveServer(server) ?? '')?.close();
+  }
+
+  // Descarta la lectura guardada para que la próxima consulta vea los fallos recién inyectados
+  discardReading(server: string) {
+    upstreamCache.delete(server);
   }
 
   resetMetrics() {
@@ -250,38 +548,168 @@ class NTPMetricsManager {
 }
 
 // Instancia singleton del gestor de métricas
-export const ntpMetricsManager = new NTPMetricsManager();
+export const ntpMetricsManager = new NTPMetricsManager(parseNTPServers());
 
 // Función para obtener tiempo con circuit breaker y métricas
-export async function getNTPTimeWithCircuitBreaker(server: string): Promise<{ time: number; roundTripTime: number }> {
-  const startTime = Date.now();
-  ntpMetricsManager.incrementActiveClients(server);
-
-  try {
-    let result;
-    
-    if (server === 'ntp.shoa.cl') {
-      result = await primaryNTPBreaker.fire(server);
-    } else {
-      result = await secondaryNTPBreaker.fire(server);
+export async function getNTPTimeWithCircuitBreaker(server: string): Promise<SNTPResponse> {
+  return withSpan('getNTPTimeWithCircuitBreaker', { 'ntp.server': server }, async (span) => {
+    const breaker = ntpBreakers.get(server);
+    if (!breaker) {
+      throw new Error(`Servidor NTP no registrado: ${server}`);
     }
 
-    const responseTime = Date.now() - startTime;
-    ntpMetricsManager.updateMetrics(server, result.roundTripTime, true, responseTime);
-    
-    return result;
-  } catch (error) {
-    const responseTime = Date.now() - startTime;
-    ntpMetricsManager.updateMetrics(server, 0, false, responseTime);
-    throw error;
-  } finally {
-    ntpMetricsManager.decrementActiveClients(server);
+    const config = ntpMetricsManager.getServer(server)!;
+    span.setAttribute('ntp.breaker.state', getBreakerState(breaker));
+    const startTime = Date.now();
+    ntpMetricsManager.incrementActiveClients(server);
+
+    try {
+      const result: SNTPResponse = await breaker.fire(server, config.port, config.timeout);
+
+      const responseTime = Date.now() - startTime;
+      ntpMetricsManager.updateMetrics(server, result.roundTripTime, true, responseTime);
+      ntpMetricsManager.recordResponse(result);
+      upstreamRequests.inc({ server, result: 'success' });
+      upstreamLatency.observe({ server }, result.roundTripTime / 1000);
+
+      return result;
+    } catch (error) {
+      const responseTime = Date.now() - startTime;
+      ntpMetricsManager.updateMetrics(server, 0, false, responseTime);
+      upstreamRequests.inc({ server, result: 'failure' });
+      throw error;
+    } finally {
+      ntpMetricsManager.decrementActiveClients(server);
+    }
+  });
+}
+
+/**
+ * Lectura de un servidor NTP a través de la caché: las requests concurrentes
+ * comparten una única consulta y, durante `maxAge` ms, reutilizan la última.
+ * La hora de una lectura reutilizada se extrapola con el reloj monotónico, así
+ * que un salto del reloj de pared local se refleja en el offset.
+ * Por defecto `maxAge` es ntp.cacheTtl; 0 solo comparte las consultas en curso.
+ */
+export async function getUpstreamReading(server: string, maxAge: number = getConfig().ntp.cacheTtl): Promise<UpstreamReading> {
+  const { value, ageMs, source } = await upstreamCache.get(server, maxAge, () => getNTPTimeWithCircuitBreaker(server));
+  ntpMetricsManager.recordCacheResult(server, source);
+
+  if (source === 'miss') {
+    return { ...value, cached: false, age: 0 };
+  }
+
+  const time = value.time + ageMs;
+  return { ...value, time, offset: time - getEpochTimeMs(), cached: true, age: ageMs };
+}
+
+/**
+ * Consulta en paralelo todos los servidores NTP configurados y aplica
+ * selección (intersección) y clustering al estilo RFC 5905.
+ * Con `maxAge: 0` se exige una medición nueva de cada servidor.
+ */
+export async function queryNTPEnsemble(options: { maxAge?: number; reference?: number | null } = {}): Promise<EnsembleSelection> {
+  return withSpan('queryNTPEnsemble', {}, async (span) => {
+    const servers = ntpMetricsManager.getServers();
+    let cachedReadings = 0;
+
+    const settled = await Promise.allSettled(servers.map(async ({ host }): Promise<EnsembleReading> => {
+      const upstream = await getUpstreamReading(host, options.maxAge);
+      // Una lectura reutilizada no es una muestra nueva para el jitter
+      if (upstream.cached) cachedReadings++;
+      const jitter = upstream.cached
+        ? ntpMetricsManager.getJitter(host)
+        : ntpMetricsManager.recordOffset(host, upstream.offset);
+      const { rootDelay, rootDispersion } = upstream.packet;
+
+      return {
+        server: host,
+        offset: upstream.offset,
+        delay: upstream.delay,
+        jitter,
+        // Distancia a la referencia primaria (RFC 5905): delay y dispersión acumulados más el jitter propio
+        rootDistance: (rootDelay + upstream.delay) / 2 + rootDispersion + jitter,
+        status: 'candidate',
+        upstream: toUpstreamInfo(upstream)
+      };
+    }));
+
+    const readings = settled.map((result, i): EnsembleReading => result.status === 'fulfilled'
+      ? result.value
+      : {
+          server: servers[i].host,
+          offset: 0,
+          delay: 0,
+          jitter: 0,
+          rootDistance: 0,
+          status: 'unreachable',
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason)
+        });
+
+    const selection = selectAndCluster(readings, options.reference ?? null);
+    ntpMetricsManager.recordSelection(selection);
+    span.setAttributes({
+      'ntp.servers': servers.length,
+      'ntp.reachable': readings.filter(r => r.status !== 'unreachable').length,
+      'ntp.cached_readings': cachedReadings,
+      'ntp.falsetickers': selection.falsetickers,
+      'ntp.system_peer': selection.systemPeer ?? 'ninguno'
+    });
+
+    return selection;
+  });
+}
+
+// Timers de instantáneas y reinicio de métricas; se reprograman si cambian sus intervalos
+let snapshotTimer: NodeJS.Timeout | null = null;
+let resetTimer: NodeJS.Timeout | null = null;
+
+function scheduleMetricsTimers() {
+  const { metricsSnapshotInterval, metricsResetInterval } = getConfig().ntp;
+  if (snapshotTimer) clearInterval(snapshotTimer);
+  if (resetTimer) clearInterval(resetTimer);
+
+  // Instantáneas periódicas de métricas upstream para reportes históricos
+  snapshotTimer = setInterval(() => {
+    ntpMetricsManager.snapshotMetrics();
+  }, metricsSnapshotInterval);
+
+  // Limpieza periódica de métricas (cada hora por defecto); antes se guarda una instantánea
+  resetTimer = setInterval(() => {
+    ntpMetricsManager.snapshotMetrics();
+    ntpMetricsManager.resetMetrics();
+  }, metricsResetInterval);
+}
+
+scheduleMetricsTimers();
+
+/**
+ * Detiene los timers de métricas y los breakers (apagado del proceso); antes guarda
+ * una instantánea para no perder las métricas acumuladas desde el último reinicio
+ */
+export function stopNTPTimers() {
+  if (snapshotTimer) clearInterval(snapshotTimer);
+  if (resetTimer) clearInterval(resetTimer);
+  snapshotTimer = null;
+  resetTimer = null;
+
+  ntpMetricsManager.snapshotMetrics();
+  for (const breaker of ntpBreakers.values()) {
+    breaker.shutdown();
   }
 }
 
-// Configuración para limpieza periódica de métricas (cada hora)
-setInterval(() => {
-  ntpMetricsManager.resetMetrics();
-}, 60 * 60 * 1000);
+// Recarga de configuración: umbrales de los breakers existentes e intervalos de métricas
+configManager.onChange((config, changed) => {
+  if (changed.some(key => key.startsWith('circuitBreaker.'))) {
+    for (const breaker of ntpBreakers.values()) {
+      breaker.options.errorThresholdPercentage = config.circuitBreaker.errorThresholdPercentage;
+      breaker.options.resetTimeout = config.circuitBreaker.resetTimeout;
+    }
+  }
+  if (changed.includes('ntp.metricsSnapshotInterval') || changed.includes('ntp.metricsResetInterval')) {
+    scheduleMetricsTimers();
+  }
+});
 
-export { NTPMetricsManager };
\ No newline at end of file
+export { NTPMetricsManager };
@@ -0,0 +1,63 @@
+import type { Server as HttpServer } from 'http';
+import { Server } from 'socket.io';
+import { corsOptions } from './cors';
+import { authConfig, hasRole } from './auth';
+import { logger } from '../utils/logger';
+import { clientRegistry } from '../services/clientRegistry';
+
+let io: Server | null = null;
+
+/**
+ * Inicializa socket.io sobre el servidor HTTP con la misma política CORS que el API
+ */
+export function initSocketServer(httpServer: HttpServer): Server {
+  io = new Server(httpServer, {
+    cors: corsOptions
+  });
+
+  // Misma autenticación que el API: `auth: { token }` con clave de API o JWT, rol mínimo viewer
+  io.use((socket, next) => {
+    const token = socket.handshake.auth?.token;
+    const auth = authConfig.resolve(typeof token === 'string' && token ? token : undefined);
+
+    if (!auth || !hasRole(auth.role, 'viewer')) {
+      logger.warn('🔒 Conexión WebSocket rechazada', { socketId: socket.id, reason: auth ? 'sin rol' : 'credencial inválida' });
+      return next(new Error(auth ? 'UNAUTHORIZED: autenticación requerida' : 'UNAUTHORIZED: credencial inválida o expirada'));
+    }
+
+    socket.data.auth = auth;
+    next();
+  });
+
+  io.on('connection', (socket) => {
+    const registeredId = socket.handshake.auth?.clientId;
+    const clientId = registeredId || socket.id;
+    socket.data.clientId = clientId;
+    // Solo las conexiones que lo declaran responden a los sondeos de Berkeley
+    socket.data.berkeley = socket.handshake.auth?.berkeley === true;
+
+    // Una conexión abierta mantiene activo al cliente en el registro
+    if (registeredId) {
+      clientRegistry.attachSocket(registeredId, {
+        userAgent: socket.handshake.headers['user-agent'] ?? null,
+        ip: socket.handshake.address
+      });
+    }
+
+    logger.info('🔌 Cliente conectado por WebSocket', { socketId: socket.id }, clientId);
+
+    socket.on('disconnect', (reason) => {
+      if (registeredId) clientRegistry.detachSocket(registeredId);
+      logger.info('🔌 Cliente desconectado por WebSocket', { socketId: socket.id, reason }, clientId);
+    });
+  });
+
+  return io;
+}
+
+/**
+ * Obtiene la instancia de socket.io (null si aún no se inicializa)
+ */
+export function getSocketServer(): Server | null {
+  return io;
+}
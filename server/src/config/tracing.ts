@@ -0,0 +1,158 @@
+import fs from 'fs';
+import path from 'path';
+import { trace, context, SpanStatusCode, type Span, type Attributes } from '@opentelemetry/api';
+import { ExportResultCode, hrTimeToMilliseconds, type ExportResult } from '@opentelemetry/core';
+import {
+  NodeTracerProvider,
+  BatchSpanProcessor,
+  SimpleSpanProcessor,
+  ConsoleSpanExporter,
+  type ReadableSpan,
+  type SpanExporter,
+  type SpanProcessor
+} from '@opentelemetry/sdk-trace-node';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
+import { registerInstrumentations } from '@opentelemetry/instrumentation';
+import { HttpInstrumentation } from '@opentelemetry/instrumentation-http';
+import { ExpressInstrumentation } from '@opentelemetry/instrumentation-express';
+
+// Este módulo se importa antes que express y no usa el logger: las instrumentaciones
+// deben parchear http/express antes de que se carguen
+
+export type TracesExporter = 'none' | 'console' | 'file' | 'otlp';
+
+const TRACES_EXPORTERS: TracesExporter[] = ['none', 'console', 'file', 'otlp'];
+
+const SERVICE_NAME = process.env.OTEL_SERVICE_NAME || 'cristian-time-server';
+
+// Tracer compartido por controladores, algoritmos y consultas NTP
+export const tracer = trace.getTracer(SERVICE_NAME);
+
+/**
+ * Exportador a archivo JSON Lines: un span por línea, para inspección local
+ */
+class FileSpanExporter implements SpanExporter {
+  constructor(private filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void) {
+    const lines = spans.map(span => JSON.stringify({
+      traceId: span.spanContext().traceId,
+      spanId: span.spanContext().spanId,
+      parentSpanId: span.parentSpanContext?.spanId,
+      name: span.name,
+      kind: span.kind,
+      startTime: hrTimeToMilliseconds(span.startTime),
+      duration: hrTimeToMilliseconds(span.duration),
+      status: span.status,
+      attributes: span.attributes,
+      events: span.events.map(event => ({
+        name: event.name,
+        time: hrTimeToMilliseconds(event.time),
+        attributes: event.attributes
+      }))
+    }));
+
+    fs.appendFile(this.filePath, lines.join('\n') + '\n', (error) => {
+      resultCallback(error
+        ? { code: ExportResultCode.FAILED, error }
+        : { code: ExportResultCode.SUCCESS });
+    });
+  }
+
+  async shutdown() {}
+}
+
+function createSpanProcessor(exporter: TracesExporter): SpanProcessor | null {
+  switch (exporter) {
+    case 'console':
+      return new SimpleSpanProcessor(new ConsoleSpanExporter());
+    case 'file':
+      return new BatchSpanProcessor(new FileSpanExporter(process.env.OTEL_TRACES_FILE || 'data/traces.jsonl'));
+    case 'otlp':
+      // Endpoint y cabeceras según las variables estándar OTEL_EXPORTER_OTLP_*
+      return new BatchSpanProcessor(new OTLPTraceExporter());
+    default:
+      return null;
+  }
+}
+
+let provider: NodeTracerProvider | null = null;
+
+/**
+ * Inicializa el SDK según OTEL_TRACES_EXPORTER. Con `none` (por defecto) la API
+ * de OpenTelemetry queda en modo no-op y los spans no tienen costo.
+ */
+export function startTracing(): TracesExporter {
+  const requested = (process.env.OTEL_TRACES_EXPORTER || 'none') as TracesExporter;
+  const exporter = TRACES_EXPORTERS.includes(requested) ? requested : 'none';
+  if (exporter !== requested) {
+    console.warn(`⚠️ OTEL_TRACES_EXPORTER desconocido: ${requested}; tracing deshabilitado`);
+  }
+
+  const spanProcessor = createSpanProcessor(exporter);
+  if (!spanProcessor || provider) return exporter;
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: SERVICE_NAME,
+      [ATTR_SERVICE_VERSION]: '1.0.0'
+    }),
+    spanProcessors: [spanProcessor]
+  });
+  // Registra además el propagador W3C (traceparent/tracestate) y el context manager
+  provider.register();
+
+  registerInstrumentations({
+    tracerProvider: provider,
+    instrumentations: [
+      new HttpInstrumentation({
+        // Los scrapes, health checks y streams largos no aportan a las trazas de sincronización
+        ignoreIncomingRequestHook: (req) => ['/metrics', '/health', '/livez', '/readyz', '/api/time/logs/stream'].includes((req.url || '').split('?')[0])
+      }),
+      new ExpressInstrumentation()
+    ]
+  });
+
+  console.info(`🔭 Tracing OpenTelemetry habilitado (exportador: ${exporter})`);
+  return exporter;
+}
+
+/**
+ * Vacía los spans pendientes y detiene el SDK
+ */
+export async function shutdownTracing() {
+  if (!provider) return;
+  await provider.shutdown();
+  provider = null;
+}
+
+/**
+ * Ejecuta `fn` dentro de un span activo: registra excepciones, marca el estado
+ * de error y cierra el span al terminar
+ */
+export async function withSpan<T>(name: string, attributes: Attributes, fn: (span: Span) => Promise<T>): Promise<T> {
+  return tracer.startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Registra un span instantáneo bajo el contexto activo (p. ej. un failover)
+ */
+export function recordSpan(name: string, attributes: Attributes) {
+  tracer.startSpan(name, { attributes }, context.active()).end();
+}
+
+startTracing();
@@ -0,0 +1,60 @@
+import type { Request, Response } from "express";
+import { authConfig, AuthContext } from "../config/auth";
+import { logger } from "../utils/logger";
+
+export class AuthController {
+
+  /**
+   * POST /api/auth/login - Canjea una clave de API por un JWT con su rol
+   */
+  static login = async (req: Request, res: Response) => {
+    if (!authConfig.enabled) {
+      return res.json({
+        success: true,
+        authEnabled: false,
+        token: null,
+        role: 'admin',
+        subject: 'anonymous',
+        expiresAt: null
+      });
+    }
+
+    const entry = authConfig.findApiKey(req.body.apiKey);
+    if (!entry) {
+      logger.warn('🔒 Intento de login con clave inválida', { ip: req.ip });
+      res.set('WWW-Authenticate', 'Bearer realm="cristian"');
+      return res.status(401).json({
+        success: false,
+        error: 'Clave de API inválida',
+        code: 'UNAUTHORIZED',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const { token, expiresAt } = authConfig.issueToken(entry);
+    logger.info(`🔑 Sesión iniciada por ${entry.name}`, { role: entry.role });
+
+    res.json({
+      success: true,
+      authEnabled: true,
+      token,
+      role: entry.role,
+      subject: entry.name,
+      expiresAt
+    });
+  };
+
+  /**
+   * GET /api/auth/me - Identidad y rol de la credencial enviada
+   */
+  static me = async (req: Request, res: Response) => {
+    const auth: AuthContext = res.locals.auth;
+
+    res.json({
+      success: true,
+      authEnabled: authConfig.enabled,
+      anonymousRole: authConfig.anonymousRole,
+      ...auth
+    });
+  };
+}
@@ -0,0 +1,114 @@
+import type { Request, Response } from "express";
+import { clientRegistry, requestMetadata } from "../services/clientRegistry";
+import { storage, ClientRecord } from "../storage";
+import { logger } from "../utils/logger";
+import { hasRole } from "../config/auth";
+
+export class ClientController {
+
+  /**
+   * POST /api/clients - Registrar un cliente o actualizar su nombre y metadatos
+   * El id se toma del cuerpo, de x-client-id o se genera uno nuevo; registrar un id
+   * distinto del propio x-client-id requiere el rol operator
+   */
+  static register = async (req: Request, res: Response) => {
+    try {
+      const { name, platform } = req.body;
+      const ownId = req.headers['x-client-id'] as string | undefined;
+      const id: string | undefined = req.body.clientId || ownId || undefined;
+
+      if (req.body.clientId && req.body.clientId !== ownId && !hasRole(res.locals.auth?.role ?? null, 'operator')) {
+        return res.status(403).json({
+          success: false,
+          error: 'Solo se puede registrar el propio x-client-id',
+          code: 'FORBIDDEN',
+          requiredRole: 'operator',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const metadata = requestMetadata(req);
+
+      const { client, created } = clientRegistry.register(id, name.trim(), {
+        ...metadata,
+        platform: platform ?? metadata.platform
+      });
+
+      res.status(created ? 201 : 200).json({
+        success: true,
+        created,
+        client: ClientController.toClientView(client)
+      });
+
+    } catch (error) {
+      logger.error('❌ Error registrando cliente', { error: error instanceof Error ? error.message : error });
+      res.status(500).json({
+        success: false,
+        error: 'Error interno del servidor'
+      });
+    }
+  };
+
+  /**
+   * GET /api/clients - Listar clientes registrados (los más recientes primero)
+   */
+  static getClients = async (req: Request, res: Response) => {
+    const activeOnly = req.query.active === 'true';
+    const clients = activeOnly ? clientRegistry.getActive() : clientRegistry.list();
+
+    res.json({
+      success: true,
+      total: clients.length,
+      registry: clientRegistry.getStatus(),
+      clients: clients.map(ClientController.toClientView)
+    });
+  };
+
+  /**
+   * GET /api/clients/:clientId - Obtener un cliente
+   */
+  static getClient = async (req: Request, res: Response) => {
+    const client = clientRegistry.get(req.params.clientId);
+
+    if (!client) {
+      return res.status(404).json({
+        success: false,
+        error: `Cliente no registrado: ${req.params.clientId}`
+      });
+    }
+
+    res.json({ success: true, client: ClientController.toClientView(client) });
+  };
+
+  /**
+   * DELETE /api/clients/:clientId - Dar de baja un cliente; su historial se conserva
+   */
+  static removeClient = async (req: Request, res: Response) => {
+    const { clientId } = req.params;
+
+    if (!clientRegistry.remove(clientId)) {
+      return res.status(404).json({
+        success: false,
+        error: `Cliente no registrado: ${clientId}`
+      });
+    }
+
+    logger.info(`🪪 Cliente dado de baja: ${clientId}`, undefined, clientId);
+    res.json({ success: true, message: `Cliente ${clientId} dado de baja` });
+  };
+
+  /**
+   * Registro del cliente junto a su estado de actividad y un resumen del historial
+   */
+  static toClientView(client: ClientRecord) {
+    const lastSync = storage.getSyncHistory(client.id, { limit: 1 })[0];
+
+    return {
+      ...client,
+      active: clientRegistry.isActive(client),
+      connected: clientRegistry.isConnected(client.id),
+      totalSyncs: storage.getSyncHistory(client.id).length,
+      lastSyncAt: lastSync?.clientTime ?? null
+    };
+  }
+}
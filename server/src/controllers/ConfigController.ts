@@ -0,0 +1,64 @@
+import type { Request, Response } from "express";
+import { configManager, ConfigError, ConfigReloadResult } from "../config/appConfig";
+import { logger } from "../utils/logger";
+
+export class ConfigController {
+
+  /**
+   * GET /api/config - Configuración vigente y estado de las recargas
+   */
+  static getConfig = async (req: Request, res: Response) => {
+    res.json({
+      success: true,
+      config: configManager.get(),
+      ...configManager.getStatus()
+    });
+  };
+
+  /**
+   * POST /api/config/reload - Vuelve a leer el archivo de configuración y el entorno
+   */
+  static reload = async (req: Request, res: Response) => {
+    try {
+      const result = ConfigController.applyReload('api');
+      res.json({ success: true, ...result, config: configManager.get() });
+
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        return res.status(400).json({
+          success: false,
+          error: 'Configuración inválida; se conserva la vigente',
+          issues: error.issues,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      logger.error('❌ Error recargando la configuración', { error: error instanceof Error ? error.message : error });
+      res.status(500).json({
+        success: false,
+        error: 'Error interno del servidor'
+      });
+    }
+  };
+
+  /**
+   * Recarga la configuración y registra el resultado; la usan el endpoint y SIGHUP
+   */
+  static applyReload(trigger: 'api' | 'SIGHUP'): ConfigReloadResult {
+    try {
+      const result = configManager.reload();
+
+      if (result.restartRequired.length > 0) {
+        logger.warn('⚙️ Cambios de configuración que requieren reiniciar', { trigger, keys: result.restartRequired });
+      }
+      logger.info(`⚙️ Configuración recargada (${result.applied.length} cambios aplicados)`, { trigger, applied: result.applied });
+      return result;
+
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        logger.error('❌ Recarga de configuración rechazada', { trigger, issues: error.issues });
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import type { Request, Response } from "express";
+import { ntpMetricsManager } from "../config/ntpConfig";
+import { faultInjector, FaultSpec } from "../services/faultInjector";
+
+export class FaultController {
+
+  /**
+   * GET /api/time/admin/faults - Fallos vigentes y programados, y escenarios disponibles
+   */
+  static getFaults = async (req: Request, res: Response) => {
+    res.json({
+      success: true,
+      ...faultInjector.getStatus(),
+      scenarios: faultInjector.listScenarios()
+    });
+  };
+
+  /**
+   * POST /api/time/admin/faults - Inyectar un fallo en un servidor upstream
+   */
+  static injectFault = async (req: Request, res: Response) => {
+    const { type, server, duration, startDelay, latency, jitter, lossPercent, offset, driftPpm, kissCode } = req.body;
+    const spec: FaultSpec = {
+      type,
+      server: ntpMetricsManager.resolveServer(server),
+      duration,
+      startDelay,
+      latency,
+      jitter,
+      lossPercent,
+      offset,
+      driftPpm,
+      kissCode
+    };
+
+    const fault = faultInjector.inject(spec);
+    ntpMetricsManager.discardReading(fault.server);
+    res.status(201).json({ success: true, fault });
+  };
+
+  /**
+   * POST /api/time/admin/faults/scenarios/:name - Ejecutar un escenario programado
+   * Sin `server` el objetivo es el servidor de mayor prioridad
+   */
+  static runScenario = async (req: Request, res: Response) => {
+    const scenario = faultInjector.getScenario(req.params.name);
+    if (!scenario) {
+      return res.status(404).json({
+        success: false,
+        error: `Escenario desconocido: ${req.params.name}`
+      });
+    }
+
+    const servers = ntpMetricsManager.getServers().map(server => server.host);
+    const target = ntpMetricsManager.resolveServer(req.body.server || 'primary');
+    if (!target) {
+      return res.status(409).json({
+        success: false,
+        error: 'No hay servidores NTP configurados'
+      });
+    }
+
+    const faults = faultInjector.runScenario(scenario.name, target, servers, req.body.duration);
+    faults.forEach(fault => ntpMetricsManager.discardReading(fault.server));
+    res.status(201).json({
+      success: true,
+      scenario: scenario.name,
+      target,
+      faults
+    });
+  };
+
+  /**
+   * DELETE /api/time/admin/faults/:id - Retirar un fallo
+   */
+  static removeFault = async (req: Request, res: Response) => {
+    const fault = faultInjector.list().find(candidate => candidate.id === req.params.id);
+
+    if (!fault || !faultInjector.remove(fault.id)) {
+      return res.status(404).json({
+        success: false,
+        error: `Fallo no encontrado: ${req.params.id}`
+      });
+    }
+
+    // Sin fallos restantes, el servidor vuelve a participar sin esperar el reset del breaker
+    if (faultInjector.list().every(candidate => candidate.server !== fault.server)) {
+      ntpMetricsManager.restoreService(fault.server);
+    }
+    res.json({ success: true, message: `Fallo ${fault.id} retirado` });
+  };
+
+  /**
+   * DELETE /api/time/admin/faults - Retirar todos los fallos (o los de ?server=)
+   */
+  static clearFaults = async (req: Request, res: Response) => {
+    const server = req.query.server ? ntpMetricsManager.resolveServer(req.query.server as string) : undefined;
+    const removed = faultInjector.clear(server);
+
+    const servers = server ? [server] : ntpMetricsManager.getServers().map(entry => entry.host);
+    servers.forEach(host => ntpMetricsManager.restoreService(host));
+
+    res.json({ success: true, removed });
+  };
+}
@@ -0,0 +1,140 @@
+import type { Request, Response } from "express";
+import { ntpMetricsManager } from "../config/ntpConfig";
+import { logger } from "../utils/logger";
+
+export class NTPServerController {
+
+  /**
+   * GET /api/time/servers - Listar servidores NTP registrados
+   */
+  static getServers = async (req: Request, res: Response) => {
+    const servers = ntpMetricsManager.getServers().map(({ host }) => ntpMetricsManager.getServerEntry(host));
+
+    res.json({
+      success: true,
+      total: servers.length,
+      servers
+    });
+  };
+
+  /**
+   * GET /api/time/servers/:host - Obtener un servidor NTP
+   */
+  static getServer = async (req: Request, res: Response) => {
+    const server = ntpMetricsManager.getServerEntry(req.params.host);
+
+    if (!server) {
+      return res.status(404).json({
+        success: false,
+        error: `Servidor NTP no registrado: ${req.params.host}`
+      });
+    }
+
+    res.json({ success: true, server });
+  };
+
+  /**
+   * POST /api/time/servers - Registrar un servidor NTP
+   * Crea automáticamente su circuit breaker y su entrada de métricas
+   */
+  static addServer = async (req: Request, res: Response) => {
+    try {
+      const { host, port, priority, timeout } = req.body;
+
+      if (ntpMetricsManager.getServer(host)) {
+        return res.status(409).json({
+          success: false,
+          error: `El servidor NTP ${host} ya está registrado`
+        });
+      }
+
+      const servers = ntpMetricsManager.getServers();
+      ntpMetricsManager.registerServer({
+        host,
+        port: port ?? 123,
+        priority: priority ?? (servers.length > 0 ? servers[servers.length - 1].priority + 1 : 1),
+        timeout: timeout ?? 5000
+      });
+
+      logger.info(`➕ Servidor NTP registrado: ${host}`, ntpMetricsManager.getServer(host), undefined, host);
+
+      res.status(201).json({
+        success: true,
+        server: ntpMetricsManager.getServerEntry(host)
+      });
+
+    } catch (error) {
+      logger.error('❌ Error registrando servidor NTP', { error: error instanceof Error ? error.message : error });
+      res.status(500).json({
+        success: false,
+        error: 'Error interno del servidor'
+      });
+    }
+  };
+
+  /**
+   * PATCH /api/time/servers/:host - Actualizar puerto, prioridad o timeout
+   */
+  static updateServer = async (req: Request, res: Response) => {
+    try {
+      const { host } = req.params;
+      const { port, priority, timeout } = req.body;
+
+      const changes = Object.fromEntries(
+        Object.entries({ port, priority, timeout }).filter(([, value]) => value !== undefined)
+      );
+      const updated = ntpMetricsManager.updateServer(host, changes);
+
+      if (!updated) {
+        return res.status(404).json({
+          success: false,
+          error: `Servidor NTP no registrado: ${host}`
+        });
+      }
+
+      logger.info(`✏️ Servidor NTP actualizado: ${host}`, changes, undefined, host);
+
+      res.json({
+        success: true,
+        server: ntpMetricsManager.getServerEntry(host)
+      });
+
+    } catch (error) {
+      logger.error('❌ Error actualizando servidor NTP', { error: error instanceof Error ? error.message : error });
+      res.status(500).json({
+        success: false,
+        error: 'Error interno del servidor'
+      });
+    }
+  };
+
+  /**
+   * DELETE /api/time/servers/:host - Eliminar un servidor NTP
+   */
+  static removeServer = async (req: Request, res: Response) => {
+    const { host } = req.params;
+
+    if (!ntpMetricsManager.getServer(host)) {
+      return res.status(404).json({
+        success: false,
+        error: `Servidor NTP no registrado: ${host}`
+      });
+    }
+
+    // El ensamble necesita al menos una fuente
+    if (ntpMetricsManager.getServers().length === 1) {
+      return res.status(409).json({
+        success: false,
+        error: 'No se puede eliminar el último servidor NTP'
+      });
+    }
+
+    ntpMetricsManager.removeServer(host);
+    logger.warn(`➖ Servidor NTP eliminado: ${host}`, undefined, undefined, host);
+
+    res.json({
+      success: true,
+      message: `Servidor ${host} eliminado`
+    });
+  };
+}
@@ -1,47 +1,102 @@
 import type { Request, Response } from "express";
+import { randomUUID } from "crypto";
 import { 
-  cristianSyncAlgorithm, 
+  getSyncAlgorithm,
+  listSyncAlgorithms,
+  completeExchange,
+  stampTransmitTime,
+  getEpochTimeMs,
   getHighPrecisionTime, 
   hrtimeToMs, 
   formatTime,
   calculateSyncStats,
   isReliableSync,
-  SyncResult
+  parseDuration,
+  buildMetricsSeries,
+  SyncResult,
+  SyncAlgorithmName,
+  DEFAULT_SYNC_ALGORITHM
 } from "../utils/timeUtils";
 import { 
   ntpMetricsManager, 
   getNTPTimeWithCircuitBreaker,
-  primaryNTPBreaker,
-  secondaryNTPBreaker
+  ntpBreakers,
+  getBreakerState
 } from "../config/ntpConfig";
-import { logger, logSyncAttempt, logSyncSuccess, logSyncFailure } from "../utils/logger";
+import { berkeleyCoordinator } from "../services/berkeleyCoordinator";
+import { sntpResponder } from "../services/sntpResponder";
+import { clockDiscipline } from "../services/clockDiscipline";
+import { liveUpdates } from "../services/liveUpdates";
+import { rateLimitStore } from "../services/rateLimitStore";
+import { clientRegistry, requestMetadata } from "../services/clientRegistry";
+import { getConfig } from "../config/appConfig";
+import { faultInjector } from "../services/faultInjector";
+import { leapSeconds } from "../services/leapSeconds";
+import { logger, logSyncAttempt, logSyncSuccess, logSyncFailure, LogEntry } from "../utils/logger";
+import { storage, syncResultTime } from "../storage";
+import { metricsRegistry, Counter, Histogram } from "../utils/openMetrics";
+import { SpanStatusCode } from "@opentelemetry/api";
+import { withSpan } from "../config/tracing";
+
+// Métricas OpenMetrics por cliente, alimentadas desde el historial de sincronización
+const clientSyncs = metricsRegistry.register(new Counter({
+  name: 'cristian_client_syncs',
+  help: 'Sincronizaciones registradas por cliente y resultado (success, failure)',
+  labelNames: ['client_id', 'result']
+}));
+
+// El offset puede ser negativo: buckets simétricos y sin _sum (requisito de OpenMetrics)
+const clientOffset = metricsRegistry.register(new Histogram({
+  name: 'cristian_client_offset_seconds',
+  help: 'Offset calculado en las sincronizaciones exitosas de cada cliente',
+  unit: 'seconds',
+  labelNames: ['client_id'],
+  buckets: [-1, -0.1, -0.05, -0.01, -0.005, -0.001, 0, 0.001, 0.005, 0.01, 0.05, 0.1, 1],
+  sum: false
+}));
+
+const clientRtt = metricsRegistry.register(new Histogram({
+  name: 'cristian_client_rtt_seconds',
+  help: 'Round-trip time de las sincronizaciones exitosas de cada cliente',
+  unit: 'seconds',
+  labelNames: ['client_id'],
+  buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5]
+}));
+
+// client_id viene de x-client-id: las series de un cliente dado de baja o expirado se
+// eliminan para que ids rotados no acumulen series sin límite
+clientRegistry.onRemove(clientId => {
+  clientSyncs.remove({ client_id: clientId, result: 'success' });
+  clientSyncs.remove({ client_id: clientId, result: 'failure' });
+  clientOffset.remove({ client_id: clientId });
+  clientRtt.remove({ client_id: clientId });
+});
 
 export class TimeController {
   
-  // Almacenar resultados de sincronización por cliente
-  private static syncHistory: Map<string, SyncResult[]> = new Map();
+  // Máximo de buckets por serie temporal
+  private static readonly MAX_SERIES_BUCKETS = 1000;
+
+  // Intervalo del comentario keep-alive del stream de logs
+  private static readonly LOG_STREAM_HEARTBEAT = 15000;
+
+  // Intercambios a la espera de que el cliente informe t3, indexados por syncId
+  private static pendingExchanges: Map<string, { clientId: string; result: SyncResult; createdAt: number }> = new Map();
+  private static readonly PENDING_EXCHANGE_TTL = 60 * 1000;
 
   /**
    * GET /api/time - Obtener hora actual del servidor
    */
   static getCurrentTime = async (req: Request, res: Response) => {
     try {
-      const serverTime = Date.now();
-      const highPrecisionTime = getHighPrecisionTime();
+      const currentTime = this.buildCurrentTime();
       
       logger.info('⏰ Solicitud de tiempo actual', {
-        serverTime: formatTime(serverTime),
-        precision: hrtimeToMs(highPrecisionTime)
+        serverTime: currentTime.serverTimeFormatted,
+        precision: currentTime.highPrecisionTime
       });
 
-      res.json({
-        success: true,
-        serverTime,
-        serverTimeFormatted: formatTime(serverTime),
-        highPrecisionTime: hrtimeToMs(highPrecisionTime),
-        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        timestamp: new Date().toISOString()
-      });
+      res.json(currentTime);
 
     } catch (error) {
       logger.error('❌ Error obteniendo tiempo actual', { error: error instanceof Error ? error.message : error });
@@ -53,140 +108,194 @@ export class TimeController {
   };
 
   /**
-   * POST /api/time/sync - Sincronizar tiempo usando algoritmo de Cristian
+   * POST /api/time/sync - Intercambio de marcas de tiempo (T0 → T1, T2)
+   * La escala de referencia de T1 y T2 la define el algoritmo elegido (por defecto Cristian).
+   * El cliente calcula offset y delay localmente con su T3 y lo informa en /sync/complete
    */
   static syncTime = async (req: Request, res: Response) => {
-    console.log('🔥 [SYNC DEBUG] Request received to /api/time/sync');
-    console.log('🔥 [SYNC DEBUG] Request body:', req.body);
-    console.log('🔥 [SYNC DEBUG] Request headers:', req.headers);
-    
-    const clientId = req.headers['x-client-id'] as string || `client-${Date.now()}`;
-    const { clientRequestTime } = req.body;
-
-    // Validar parámetros
-    if (!clientRequestTime) {
-      console.log('🔥 [SYNC DEBUG] Missing clientRequestTime!');
-      return res.status(400).json({
-        success: false,
-        error: 'clientRequestTime es requerido'
-      });
-    }
-
-    console.log('🔥 [SYNC DEBUG] Valid request, proceeding with sync...');
-    try {
-      // El parámetro debe ser number, no bigint
-      const requestTimeMs = Number(clientRequestTime);
-      logSyncAttempt(clientId, 'ntp.shoa.cl');
-      
-      // Ejecutar algoritmo de Cristian
-      const syncResult = await cristianSyncAlgorithm(requestTimeMs);
-      
-      // Registrar histórico de sincronización
-      if (!this.syncHistory.has(clientId)) {
-        this.syncHistory.set(clientId, []);
+    return withSpan('TimeController.syncTime', {}, async (span) => {
+      const serverReceiveTime: number = res.locals.receiveTime ?? getEpochTimeMs();
+      // Sin x-client-id se usa un id estable por IP y user agent; los ids nuevos se registran implícitamente
+      const metadata = requestMetadata(req);
+      const clientId = req.headers['x-client-id'] as string || clientRegistry.anonymousId(metadata);
+      clientRegistry.touch(clientId, metadata);
+      const { clientRequestTime } = req.body;
+      const algorithmName: SyncAlgorithmName = req.body.algorithm || DEFAULT_SYNC_ALGORITHM;
+
+      // El span cuelga del span HTTP, que continúa la traza W3C (traceparent) del cliente
+      span.setAttributes({ 'sync.client_id': clientId, 'sync.algorithm': algorithmName });
+
+      // Validar parámetros
+      if (!clientRequestTime) {
+        return res.status(400).json({
+          success: false,
+          error: 'clientRequestTime es requerido'
+        });
       }
+
+      try {
+        logSyncAttempt(clientId, algorithmName === 'berkeley' ? 'berkeley' : 'ensamble NTP');
       
-      const clientHistory = this.syncHistory.get(clientId)!;
-      clientHistory.push(syncResult);
-      
-      // Mantener solo los últimos 50 resultados por cliente
-      if (clientHistory.length > 50) {
-        clientHistory.splice(0, clientHistory.length - 50);
-      }
+        // Ejecutar el algoritmo de sincronización solicitado
+        const algorithm = getSyncAlgorithm(algorithmName);
+        const syncResult = await algorithm.synchronize({
+          clientId,
+          clientRequestTime: Number(clientRequestTime),
+          serverReceiveTime,
+          clientClockDeviations: this.getClientClockDeviations(clientId)
+        });
+
+        span.setAttributes({
+          'sync.success': syncResult.success,
+          'sync.server': syncResult.server
+        });
+
+        // Lo inyectado en los upstream queda registrado junto al resultado
+        const injectedFaults = faultInjector.summarize();
+        if (injectedFaults.length > 0) {
+          syncResult.faults = injectedFaults;
+        }
 
-      if (syncResult.success) {
-        logSyncSuccess(syncResult, clientId);
+        if (syncResult.success) {
+          const syncId = randomUUID();
+          this.registerPendingExchange(syncId, clientId, syncResult);
+
+          // T2 se marca lo más tarde posible, justo antes de responder.
+          // stampTransmitTime muta el resultado, así el intercambio pendiente conserva el mismo T2
+          stampTransmitTime(syncResult);
+          res.json({
+            success: true,
+            syncId,
+            syncResult,
+            algorithm: syncResult.algorithm,
+            clientId
+          });
         
-        // Calcular estadísticas del cliente
-        const stats = calculateSyncStats(clientHistory);
-        const isReliable = isReliableSync(syncResult);
+        } else {
+          this.addToHistory(clientId, syncResult);
+          logSyncFailure(syncResult.error || 'Error desconocido', clientId, 'unknown');
         
-        res.json({
-          success: true,
-          syncResult,
-          isReliable,
-          stats,
-          recommendations: this.generateRecommendations(syncResult, stats),
+          res.status(503).json({
+            success: false,
+            syncResult,
+            algorithm: syncResult.algorithm,
+            error: syncResult.error,
+            clientId,
+            fallbackTime: Date.now()
+          });
+        }
+
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Error desconocido';
+        logSyncFailure(errorMessage, clientId, 'server');
+        span.recordException(error instanceof Error ? error : errorMessage);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: errorMessage });
+      
+        logger.error('❌ Error en sincronización', { 
+          error: errorMessage, 
           clientId,
-          serverProcessingTime: Date.now() - requestTimeMs
+          stack: error instanceof Error ? error.stack : undefined
         });
-        
-      } else {
-        logSyncFailure(syncResult.error || 'Error desconocido', clientId, 'unknown');
-        
-        res.status(503).json({
+
+        res.status(500).json({
           success: false,
-          syncResult,
-          error: syncResult.error,
+          error: 'Error interno del servidor durante sincronización',
           clientId,
           fallbackTime: Date.now()
         });
       }
+    });
+  };
+
+  /**
+   * POST /api/time/sync/complete - El cliente informa T3 y se registra el intercambio completo
+   * Opcionalmente incluye los datos de la ráfaga de la que se eligió la muestra
+   */
+  static completeSync = async (req: Request, res: Response) => {
+    const clientId = req.headers['x-client-id'] as string;
+    const { syncId, clientReceiveTime, burst } = req.body;
+
+    try {
+      const pending = this.pendingExchanges.get(syncId);
+
+      if (!pending || (clientId && pending.clientId !== clientId)) {
+        return res.status(404).json({
+          success: false,
+          error: 'Intercambio de sincronización no encontrado o expirado',
+          syncId
+        });
+      }
+
+      this.pendingExchanges.delete(syncId);
+
+      const syncResult = completeExchange(pending.result, Number(clientReceiveTime));
+
+      // En modo ráfaga solo se completa la muestra elegida; las rechazadas expiran
+      if (burst) {
+        syncResult.burst = {
+          id: String(burst.id),
+          size: Number(burst.size),
+          index: Number(burst.index),
+          selected: true,
+          dispersion: Number(burst.dispersion)
+        };
+      }
+      const clientHistory = this.addToHistory(pending.clientId, syncResult);
+      logSyncSuccess(syncResult, pending.clientId);
+
+      // Calcular estadísticas del cliente
+      const stats = calculateSyncStats(clientHistory);
+      const isReliable = isReliableSync(syncResult);
+
+      res.json({
+        success: true,
+        syncResult,
+        isReliable,
+        stats,
+        recommendations: this.generateRecommendations(syncResult, stats),
+        algorithm: syncResult.algorithm,
+        clientId: pending.clientId,
+        serverProcessingTime: syncResult.t2 - syncResult.t1
+      });
 
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Error desconocido';
-      logSyncFailure(errorMessage, clientId, 'server');
-      
-      logger.error('❌ Error en sincronización', { 
-        error: errorMessage, 
+      logger.error('❌ Error completando sincronización', { 
+        error: error instanceof Error ? error.message : error, 
         clientId,
-        stack: error instanceof Error ? error.stack : undefined
+        syncId
       });
 
       res.status(500).json({
         success: false,
-        error: 'Error interno del servidor durante sincronización',
-        clientId,
-        fallbackTime: Date.now()
+        error: 'Error interno del servidor completando sincronización',
+        syncId
       });
     }
   };
 
+  /**
+   * GET /api/time/algorithms - Listar algoritmos de sincronización disponibles
+   */
+  static getAlgorithms = async (req: Request, res: Response) => {
+    res.json({
+      success: true,
+      default: DEFAULT_SYNC_ALGORITHM,
+      algorithms: listSyncAlgorithms().map(({ name, description }) => ({ name, description }))
+    });
+  };
+
   /**
    * GET /api/time/health - Verificar estado del servidor de tiempo
    */
   static getHealthStatus = async (req: Request, res: Response) => {
     try {
-      const healthStatus = ntpMetricsManager.getHealthStatus();
-      const allMetrics = ntpMetricsManager.getAllMetrics();
-      const logStats = logger.getLogStats();
+      const response = this.buildHealthStatus();
       
       // Debug: Log del health status generado
       console.log('=== BACKEND HEALTH DEBUG ===');
-      console.log('Raw healthStatus from ntpMetricsManager:', JSON.stringify(healthStatus, null, 2));
-      
-      // Reportar estado de conectividad basado en circuit breakers (sin hacer requests reales)
-      const connectivity = [
-        { 
-          server: 'ntp.shoa.cl', 
-          status: primaryNTPBreaker.closed ? 'ok' : primaryNTPBreaker.opened ? 'failed' : 'degraded' 
-        },
-        { 
-          server: 'pool.ntp.org', 
-          status: secondaryNTPBreaker.closed ? 'ok' : secondaryNTPBreaker.opened ? 'failed' : 'degraded' 
-        }
-      ];
-      
-      console.log('Connectivity status (from circuit breakers):', connectivity);
-
-      logger.info('🏥 Verificación de salud del sistema', { healthStatus: healthStatus.overall });
+      console.log('Connectivity status (from circuit breakers):', response.connectivity);
 
-      const response = {
-        success: true,
-        timestamp: new Date().toISOString(),
-        overall: healthStatus.overall,
-        servers: healthStatus,
-        metrics: allMetrics,
-        connectivity,
-        logging: {
-          totalLogs: logStats.total,
-          errorCount: logStats.byLevel.ERROR,
-          recentErrorsCount: logStats.recentErrors.length
-        },
-        activeClients: this.getActiveClientsCount(),
-        uptime: process.uptime(),
-        memoryUsage: process.memoryUsage()
-      };
+      logger.info('🏥 Verificación de salud del sistema', { healthStatus: response.overall });
       
       console.log('Final response being sent:', JSON.stringify(response, null, 2));
       console.log('=== BACKEND HEALTH DEBUG END ===');
@@ -219,9 +328,9 @@ export class TimeController {
         ? allMetrics.filter(m => m.server === server)
         : allMetrics;
 
-      // Estadísticas de sincronización por cliente
+      // Estadísticas de sincronización por cliente registrado
       const clientStats = clientId 
-        ? this.getClientStats(clientId as string)
+        ? [this.getClientStats(clientId as string)].filter(Boolean)
         : this.getAllClientsStats();
 
       // Estadísticas de período si se especifica
@@ -237,11 +346,20 @@ export class TimeController {
         servers: filteredMetrics,
         clients: clientStats,
         period: periodStats,
+        upstreamHistory: period
+          ? storage.getMetricSnapshots({ since: this.getPeriodCutoff(period as string)!, server: server as string | undefined })
+          : undefined,
+        sntpResponder: sntpResponder.getStatus(),
+        live: liveUpdates.getStatus(),
+        rateLimit: rateLimitStore.getStatus(),
+        upstreamCache: ntpMetricsManager.getCacheStatus(),
+        registry: clientRegistry.getStatus(),
         system: {
           totalSyncs: this.getTotalSyncsCount(),
           activeSessions: this.getActiveClientsCount(),
           uptime: process.uptime(),
-          logs: logStats
+          logs: logStats,
+          storage: storage.getStatus()
         }
       });
 
@@ -255,6 +373,60 @@ export class TimeController {
     }
   };
 
+  /**
+   * GET /api/time/metrics/series - Series temporales de offset, RTT, éxito y latencia upstream
+   * Se calculan a partir de los resultados y las instantáneas persistidas
+   */
+  static getMetricsSeries = async (req: Request, res: Response) => {
+    try {
+      const { clientId, server } = req.query as { clientId?: string; server?: string };
+      const range = parseDuration((req.query.range as string) || '24h')!;
+      const bucket = parseDuration((req.query.bucket as string) || '1h')!;
+
+      if (bucket > range) {
+        return res.status(400).json({
+          success: false,
+          error: 'bucket no puede ser mayor que range'
+        });
+      }
+
+      if (Math.ceil(range / bucket) > this.MAX_SERIES_BUCKETS) {
+        return res.status(400).json({
+          success: false,
+          error: `La serie no puede tener más de ${this.MAX_SERIES_BUCKETS} buckets`
+        });
+      }
+
+      // Buckets alineados al tamaño elegido para que consultas sucesivas coincidan
+      const to = Math.ceil(Date.now() / bucket) * bucket;
+      const from = to - Math.ceil(range / bucket) * bucket;
+
+      const clientIds = clientId ? [clientId] : storage.getClientIds();
+      const results = clientIds
+        .flatMap(id => storage.getSyncHistory(id, { since: from }))
+        .filter(result => !server || result.server === server);
+      const snapshots = storage.getMetricSnapshots({ since: from, server });
+
+      res.json({
+        success: true,
+        from,
+        to,
+        bucket,
+        filter: { clientId: clientId ?? null, server: server ?? null },
+        series: buildMetricsSeries(results, snapshots, from, to, bucket),
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.error('❌ Error obteniendo series de métricas', { error: error instanceof Error ? error.message : error });
+
+      res.status(500).json({
+        success: false,
+        error: 'Error obteniendo series de métricas'
+      });
+    }
+  };
+
   /**
    * GET /api/time/logs - Obtener logs del sistema
    */
@@ -310,8 +482,165 @@ export class TimeController {
     }
   };
 
+  /**
+   * GET /api/time/logs/stream - Stream SSE de nuevas entradas de log.
+   * Con Last-Event-ID (o ?lastEventId) reenvía primero las entradas retenidas posteriores a ese id.
+   */
+  static streamLogs = async (req: Request, res: Response) => {
+    const { level, clientId, server } = req.query as Record<string, string | undefined>;
+    const lastEventId = Number(req.get('Last-Event-ID') ?? req.query.lastEventId);
+
+    const matches = (entry: LogEntry) =>
+      (!level || entry.level === level) &&
+      (!clientId || entry.clientId === clientId) &&
+      (!server || entry.server === server);
+
+    const send = (entry: LogEntry) => {
+      res.write(`id: ${entry.id}\nevent: log\ndata: ${JSON.stringify(entry)}\n\n`);
+    };
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+    res.write('retry: 3000\n\n');
+
+    if (Number.isInteger(lastEventId)) {
+      storage.getLogs()
+        .filter(entry => entry.id !== undefined && entry.id > lastEventId && matches(entry))
+        .forEach(send);
+    }
+
+    const unsubscribe = logger.onEntry(entry => {
+      if (matches(entry)) send(entry);
+    });
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), TimeController.LOG_STREAM_HEARTBEAT);
+
+    logger.debug('📜 Stream de logs abierto', { level, clientId, server, lastEventId: Number.isInteger(lastEventId) ? lastEventId : null });
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      logger.debug('📜 Stream de logs cerrado', { level, clientId, server });
+    });
+  };
+
+  /**
+   * Hora actual según el modelo del lazo de disciplina; sin referencia aún, el reloj local.
+   * La comparten GET /api/time y el canal en vivo.
+   */
+  static buildCurrentTime() {
+    const disciplinedTime = clockDiscipline.now();
+    const referenceTime = disciplinedTime ?? Date.now();
+    // La política de segundos intercalares (salto o smear) define la escala entregada
+    const serverTime = leapSeconds.apply(referenceTime);
+
+    return {
+      success: true,
+      serverTime,
+      serverTimeFormatted: formatTime(serverTime),
+      disciplined: disciplinedTime !== null,
+      offset: clockDiscipline.getReference()?.offset ?? null,
+      leap: {
+        policy: leapSeconds.getPolicy(),
+        smearCorrection: leapSeconds.smearCorrection(referenceTime)
+      },
+      highPrecisionTime: hrtimeToMs(getHighPrecisionTime()),
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Estado de salud completo. Lo comparten GET /api/time/health y el canal en vivo
+   */
+  static buildHealthStatus() {
+    const healthStatus = ntpMetricsManager.getHealthStatus();
+    const logStats = logger.getLogStats();
+
+    // Reportar estado de conectividad basado en circuit breakers (sin hacer requests reales)
+    const connectivity = ntpMetricsManager.getServers().map(({ host }) => {
+      const state = getBreakerState(ntpBreakers.get(host)!);
+      return {
+        server: host,
+        status: state === 'closed' ? 'ok' : state === 'open' ? 'failed' : 'degraded'
+      };
+    });
+
+    return {
+      success: true,
+      timestamp: new Date().toISOString(),
+      overall: healthStatus.overall,
+      servers: healthStatus.servers,
+      activeServer: healthStatus.activeServer,
+      lastSyncAttempt: healthStatus.lastSyncAttempt,
+      ensemble: healthStatus.lastSelection,
+      metrics: ntpMetricsManager.getAllMetrics(),
+      connectivity,
+      logging: {
+        totalLogs: logStats.total,
+        errorCount: logStats.byLevel.ERROR,
+        recentErrorsCount: logStats.recentErrors.length
+      },
+      activeClients: this.getActiveClientsCount(),
+      berkeley: berkeleyCoordinator.getStatus(),
+      discipline: clockDiscipline.getStatus(),
+      leap: leapSeconds.getStatus(),
+      uptime: process.uptime(),
+      memoryUsage: process.memoryUsage()
+    };
+  }
+
+  /**
+   * Resumen de métricas upstream y del sistema que se publica en el canal en vivo
+   */
+  static buildMetricsSummary() {
+    return {
+      timestamp: new Date().toISOString(),
+      servers: ntpMetricsManager.getAllMetrics(),
+      system: {
+        totalSyncs: this.getTotalSyncsCount(),
+        activeSessions: this.getActiveClientsCount(),
+        uptime: process.uptime()
+      }
+    };
+  }
+
   // Métodos privados auxiliares
 
+  /**
+   * Persiste el resultado y devuelve la ventana reciente del cliente para sus estadísticas
+   */
+  private static addToHistory(clientId: string, result: SyncResult): SyncResult[] {
+    // La retención y las consultas por fecha usan el reloj del servidor, no el del cliente
+    result.recordedAt = Date.now();
+    storage.appendSyncResult(clientId, result);
+    liveUpdates.publishSync(clientId, result);
+
+    clientSyncs.inc({ client_id: clientId, result: result.success ? 'success' : 'failure' });
+    if (result.success) {
+      clientOffset.observe({ client_id: clientId }, result.offset / 1000);
+      clientRtt.observe({ client_id: clientId }, result.roundTripTime / 1000);
+    }
+    return storage.getSyncHistory(clientId, { limit: getConfig().sync.statsWindow });
+  }
+
+  private static registerPendingExchange(syncId: string, clientId: string, result: SyncResult) {
+    const now = Date.now();
+
+    // Descartar intercambios que el cliente nunca completó
+    for (const [id, pending] of this.pendingExchanges.entries()) {
+      if (now - pending.createdAt > this.PENDING_EXCHANGE_TTL) {
+        this.pendingExchanges.delete(id);
+      }
+    }
+
+    this.pendingExchanges.set(syncId, { clientId, result, createdAt: now });
+  }
+
   private static generateRecommendations(result: SyncResult, stats: any): string[] {
     const recommendations: string[] = [];
     
@@ -339,13 +668,17 @@ export class TimeController {
   }
 
   private static getClientStats(clientId: string) {
-    const history = this.syncHistory.get(clientId) || [];
+    const history = storage.getSyncHistory(clientId);
     if (history.length === 0) return null;
     
+    const client = clientRegistry.get(clientId);
     return {
       clientId,
+      name: client?.name ?? null,
+      active: client ? clientRegistry.isActive(client) : false,
+      lastSeen: client?.lastSeen ?? null,
       totalSyncs: history.length,
-      stats: calculateSyncStats(history),
+      stats: calculateSyncStats(history.slice(-getConfig().sync.statsWindow)),
       lastSync: history[history.length - 1],
       reliableSyncs: history.filter(isReliableSync).length
     };
@@ -354,31 +687,33 @@ export class TimeController {
   private static getAllClientsStats() {
     const allClients: any[] = [];
     
-    for (const [clientId, history] of this.syncHistory.entries()) {
-      if (history.length > 0) {
-        allClients.push(this.getClientStats(clientId));
+    for (const { id: clientId } of clientRegistry.list()) {
+      const clientStats = this.getClientStats(clientId);
+      if (clientStats) {
+        allClients.push(clientStats);
       }
     }
     
     return allClients;
   }
 
-  private static getPeriodStats(period: string) {
-    const now = Date.now();
-    let periodMs: number;
-    
+  private static getPeriodCutoff(period: string): number | null {
     switch (period) {
-      case 'hour': periodMs = 60 * 60 * 1000; break;
-      case 'day': periodMs = 24 * 60 * 60 * 1000; break;
-      case 'week': periodMs = 7 * 24 * 60 * 60 * 1000; break;
+      case 'hour': return Date.now() - 60 * 60 * 1000;
+      case 'day': return Date.now() - 24 * 60 * 60 * 1000;
+      case 'week': return Date.now() - 7 * 24 * 60 * 60 * 1000;
       default: return null;
     }
-    
-    const cutoff = now - periodMs;
+  }
+
+  private static getPeriodStats(period: string) {
+    const cutoff = this.getPeriodCutoff(period);
+    if (cutoff === null) return null;
+
     const periodResults: SyncResult[] = [];
     
-    for (const history of this.syncHistory.values()) {
-      periodResults.push(...history.filter(r => r.clientTime > cutoff));
+    for (const clientId of storage.getClientIds()) {
+      periodResults.push(...storage.getSyncHistory(clientId, { since: cutoff }));
     }
     
     return {
@@ -390,37 +725,44 @@ export class TimeController {
 
   /**
    * POST /api/admin/simulate-failure - Simular fallo del servidor NTP primario
+   * Equivale al escenario "timeout" del inyector de fallos
    */
   static simulateNTPFailure = async (req: Request, res: Response) => {
     try {
       const { action, duration } = req.body;
+      // Sin servidor explícito se usa el de mayor prioridad
+      const server = ntpMetricsManager.resolveServer(req.body.server || 'primary');
       
       if (action === 'fail-primary') {
-        // Simular fallo del servidor primario por un tiempo determinado
+        // Simular fallo del servidor por un tiempo determinado
         const failureDuration = duration || 30000; // 30 segundos por defecto
         
-        // Forzar el circuit breaker a abrirse temporalmente
-        ntpMetricsManager.forceFailure('primary', failureDuration);
+        // Las consultas reales al servidor terminan por timeout y abren su circuit breaker
+        const fault = faultInjector.inject({ type: 'timeout', server, duration: failureDuration });
         
-        logger.warn(`🚨 Simulando fallo del servidor NTP primario por ${failureDuration}ms`);
+        logger.warn(`🚨 Simulando fallo del servidor NTP ${server} por ${failureDuration}ms`);
         
         res.json({
           success: true,
-          message: `Servidor primario simulando fallo por ${failureDuration / 1000} segundos`,
+          message: `Servidor ${server} simulando fallo por ${failureDuration / 1000} segundos`,
           action: 'fail-primary',
-          duration: failureDuration
+          server,
+          duration: failureDuration,
+          fault
         });
         
       } else if (action === 'restore') {
-        // Restaurar el servidor primario
-        ntpMetricsManager.restoreService('primary');
+        // Retirar los fallos inyectados y cerrar el circuit breaker
+        faultInjector.clear(server);
+        ntpMetricsManager.restoreService(server);
         
-        logger.info('✅ Restaurando servidor NTP primario');
+        logger.info(`✅ Restaurando servidor NTP ${server}`);
         
         res.json({
           success: true,
-          message: 'Servidor primario restaurado',
-          action: 'restore'
+          message: `Servidor ${server} restaurado`,
+          action: 'restore',
+          server
         });
         
       } else {
@@ -439,25 +781,36 @@ export class TimeController {
     }
   };
 
-  private static getActiveClientsCount(): number {
-    // Considerar activos a clientes que han sincronizado en los últimos 30 segundos (más agresivo)
+  /**
+   * Desviación (reloj del cliente - reloj local) de los demás clientes activos,
+   * según su última sincronización completa. offset = referencia - cliente y
+   * referencia = local + upstreamOffset, por lo tanto cliente - local = upstreamOffset - offset.
+   * La antigüedad se mide con la hora del servidor: un cliente atrasado o adelantado
+   * es justamente el que Berkeley debe corregir.
+   */
+  private static getClientClockDeviations(excludeClientId: string): number[] {
     const thirtySecondsAgo = Date.now() - (30 * 1000);
-    let activeCount = 0;
-    
-    for (const history of this.syncHistory.values()) {
-      if (history.length > 0 && history[history.length - 1].clientTime > thirtySecondsAgo) {
-        activeCount++;
+    const deviations: number[] = [];
+
+    for (const { id: clientId } of clientRegistry.getActive()) {
+      if (clientId === excludeClientId) continue;
+
+      const history = storage.getSyncHistory(clientId, { since: thirtySecondsAgo });
+      const lastSync = [...history].reverse().find(r => r.success && r.t3 !== null);
+      if (lastSync && syncResultTime(lastSync) > thirtySecondsAgo) {
+        deviations.push(lastSync.upstreamOffset - lastSync.offset);
       }
     }
-    
-    return Math.max(activeCount, 1); // Siempre mostrar al menos 1 si hay conexiones recientes
+
+    return deviations;
+  }
+
+  // Clientes con conexión WebSocket abierta o actividad reciente según el registro
+  private static getActiveClientsCount(): number {
+    return clientRegistry.countActive();
   }
 
   private static getTotalSyncsCount(): number {
-    let total = 0;
-    for (const history of this.syncHistory.values()) {
-      total += history.length;
-    }
-    return total;
+    return storage.countSyncResults();
   }
 }
\ No newline at end of file
@@ -1,8 +1,124 @@
+import 'dotenv/config'; // Cargar variables de entorno antes de inicializar los módulos
+import { configManager } from './config/appConfig'; // Valida la configuración; si es inválida termina el proceso
+import { shutdownTracing } from './config/tracing'; // Debe cargarse antes que http y express para instrumentarlos
 import colors from 'colors'; // Para darle color a el texto de consola
+import { createServer } from 'http';
 import server from './server'; // Importa la instancia de servidor express
+import { initSocketServer } from './config/socket';
+import { berkeleyCoordinator } from './services/berkeleyCoordinator';
+import { sntpResponder } from './services/sntpResponder';
+import { clockDiscipline } from './services/clockDiscipline';
+import { storage } from './storage';
+import { liveUpdates } from './services/liveUpdates';
+import { clientRegistry } from './services/clientRegistry';
+import { leapSeconds } from './services/leapSeconds';
+import { lifecycle } from './services/lifecycle';
+import { stopNTPTimers } from './config/ntpConfig';
+import { logger } from './utils/logger';
+import { TimeController } from './controllers/TimeController';
+import { ConfigController } from './controllers/ConfigController';
 
-const port = process.env.PORT || 4000; //asigna un puerto al servidor
+const port = configManager.get().server.port; //asigna un puerto al servidor
 
-server.listen(port, () => {
+// Cargar historial, logs y métricas persistidos antes de atender solicitudes
+storage.init();
+
+// Tabla de segundos intercalares del IERS (incluida o LEAP_SECONDS_FILE)
+leapSeconds.load();
+
+// Expiración periódica de los clientes inactivos del registro
+clientRegistry.start();
+
+// Servidor HTTP compartido entre express y socket.io
+const httpServer = createServer(server);
+const io = initSocketServer(httpServer);
+berkeleyCoordinator.start(io);
+
+// Canal en vivo: salud, hora, métricas, logs y sincronizaciones por WebSocket
+liveUpdates.start(io, {
+  health: () => TimeController.buildHealthStatus(),
+  time: () => TimeController.buildCurrentTime(),
+  metrics: () => TimeController.buildMetricsSummary()
+});
+
+httpServer.listen(port, () => {
   console.log(colors.cyan.bold(`El server esta ON en <http://localhost>:${port}`));
-});
\ No newline at end of file
+});
+
+// Lazo de disciplina: mantiene el modelo de reloj contra el ensamble NTP
+clockDiscipline.start();
+
+// Responder SNTP para que otras máquinas usen este servidor como fuente de tiempo
+sntpResponder.start();
+// SIGHUP recarga la configuración sin reiniciar; los errores ya quedan registrados
+process.on('SIGHUP', () => {
+  try {
+    ConfigController.applyReload('SIGHUP');
+  } catch {
+    // Se conserva la configuración vigente
+  }
+});
+
+/**
+ * Apagado ordenado: deja de aceptar conexiones, espera las sincronizaciones en curso,
+ * detiene los pollers y timers, cierra los sockets y vuelca el estado persistido
+ */
+async function shutdown(signal: NodeJS.Signals) {
+  // Una segunda señal no espera al drenaje
+  if (lifecycle.isShuttingDown()) {
+    logger.warn(`🛑 ${signal} recibido durante el apagado: terminando sin esperar`);
+    storage.close();
+    process.exit(1);
+  }
+
+  const { shutdownTimeout } = configManager.get().server;
+  lifecycle.beginShutdown();
+  logger.info(`🛑 ${signal} recibido: apagando el servidor`, {
+    inFlightSyncs: lifecycle.getInFlight(),
+    timeout: shutdownTimeout
+  });
+
+  // Respaldo por si algún cierre queda colgado
+  setTimeout(() => {
+    console.error(colors.red.bold('Apagado ordenado vencido; terminando el proceso'));
+    process.exit(1);
+  }, shutdownTimeout * 2).unref();
+
+  // Sin nuevas conexiones; las keep-alive ociosas se cierran y las activas terminan su request
+  const httpClosed = new Promise<void>(resolve => httpServer.close(() => resolve()));
+  httpServer.closeIdleConnections();
+
+  const drained = await lifecycle.drain(shutdownTimeout);
+  if (!drained) {
+    logger.warn('⚠️ Plazo de apagado vencido con sincronizaciones en curso', {
+      inFlightSyncs: lifecycle.getInFlight()
+    });
+  }
+
+  clockDiscipline.stop();
+  berkeleyCoordinator.stop();
+  liveUpdates.stop();
+  clientRegistry.stop();
+  sntpResponder.stop();
+  stopNTPTimers();
+
+  // WebSockets y conexiones restantes (streams SSE de logs)
+  io.close();
+  httpServer.closeAllConnections();
+  await httpClosed;
+
+  logger.info('✅ Servidor detenido; volcando el estado persistido');
+  storage.close();
+  await shutdownTracing().catch(() => undefined);
+  process.exit(drained ? 0 : 1);
+}
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    shutdown(signal).catch(error => {
+      console.error(colors.red.bold(`Error durante el apagado: ${error instanceof Error ? error.message : error}`));
+      storage.close();
+      process.exit(1);
+    });
+  });
+}
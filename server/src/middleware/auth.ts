@@ -0,0 +1,84 @@
+import type { Request, Response, NextFunction } from 'express';
+import { authConfig, hasRole, Role, AuthContext } from '../config/auth';
+import { logger } from '../utils/logger';
+
+/**
+ * Extrae la credencial de la request: `Authorization: Bearer <jwt|clave>`,
+ * `Authorization: ApiKey <clave>`, `X-API-Key` o, solo en GET, `?access_token=`
+ * (EventSource no permite enviar cabeceras)
+ */
+export function extractCredential(req: Request): string | undefined {
+  const authorization = req.get('Authorization');
+  if (authorization) {
+    const [scheme, value] = authorization.split(' ');
+    if (/^(bearer|apikey)$/i.test(scheme) && value) return value.trim();
+  }
+
+  const apiKey = req.get('X-API-Key');
+  if (apiKey) return apiKey.trim();
+
+  if (req.method === 'GET' && typeof req.query.access_token === 'string') {
+    return req.query.access_token;
+  }
+  return undefined;
+}
+
+function sendAuthError(res: Response, status: 401 | 403, error: string, requiredRole?: Role) {
+  if (status === 401) {
+    res.set('WWW-Authenticate', 'Bearer realm="cristian"');
+  }
+  res.status(status).json({
+    success: false,
+    error,
+    code: status === 401 ? 'UNAUTHORIZED' : 'FORBIDDEN',
+    requiredRole,
+    timestamp: new Date().toISOString()
+  });
+}
+
+/**
+ * Resuelve la identidad de la request en res.locals.auth.
+ * Una credencial presente pero inválida o expirada se rechaza siempre con 401.
+ */
+export const authenticate = (req: Request, res: Response, next: NextFunction) => {
+  const credential = extractCredential(req);
+  const auth = authConfig.resolve(credential);
+
+  if (!auth) {
+    logger.warn('🔒 Credencial inválida o expirada', { path: req.path, ip: req.ip });
+    return sendAuthError(res, 401, 'Credencial inválida o expirada');
+  }
+
+  res.locals.auth = auth;
+  next();
+};
+
+/**
+ * Exige un rol mínimo: 401 si la request es anónima y el rol anónimo no alcanza,
+ * 403 si la credencial es válida pero su rol no alcanza
+ */
+export const requireRole = (required: Role) => (req: Request, res: Response, next: NextFunction) => {
+  const auth: AuthContext | undefined = res.locals.auth;
+
+  if (!auth || (auth.method === 'anonymous' && !hasRole(auth.role, required))) {
+    return sendAuthError(res, 401, 'Autenticación requerida', required);
+  }
+
+  if (!hasRole(auth.role, required)) {
+    logger.warn(`🔒 Acceso denegado: ${req.method} ${req.originalUrl}`, {
+      subject: auth.subject,
+      role: auth.role,
+      requiredRole: required
+    });
+    return sendAuthError(res, 403, `Se requiere el rol ${required}`, required);
+  }
+
+  next();
+};
+
+/**
+ * Oculta el access_token de una URL antes de registrarla en logs
+ */
+export function redactAccessToken(url: string): string {
+  return url.replace(/([?&]access_token=)[^&]*/g, '$1[redactado]');
+}
@@ -1,5 +1,27 @@
 import type { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
+import { getEpochTimeMs } from '../utils/timeUtils';
+import { metricsRegistry, Histogram } from '../utils/openMetrics';
+import { rateLimitStore, RateLimitClass } from '../services/rateLimitStore';
+import { clientRegistry } from '../services/clientRegistry';
+import { lifecycle } from '../services/lifecycle';
+
+const httpRequestDuration = metricsRegistry.register(new Histogram({
+  name: 'cristian_http_request_duration_seconds',
+  help: 'Duración de las requests HTTP por método, ruta y código de estado',
+  unit: 'seconds',
+  labelNames: ['method', 'route', 'status_code'],
+  buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+}));
+
+/**
+ * Middleware que registra el instante de recepción de la request (T1 local)
+ * Debe montarse antes que cualquier otro middleware para minimizar el error
+ */
+export const receiveTimestamp = (req: Request, res: Response, next: NextFunction) => {
+  res.locals.receiveTime = getEpochTimeMs();
+  next();
+};
 
 /**
  * Middleware para agregar headers de seguridad básicos
@@ -24,10 +46,19 @@ export const requestLogger = (req: Request, res: Response, next: NextFunction) =
     clientId,
     userAgent: req.headers['user-agent'],
     ip: req.ip || req.connection.remoteAddress,
-    query: req.query,
+    query: req.query.access_token ? { ...req.query, access_token: '[redactado]' } : req.query,
     bodySize: req.headers['content-length'] || '0'
   });
 
+  // La ruta es el patrón de Express (no la URL) para acotar la cardinalidad de la etiqueta
+  res.on('finish', () => {
+    httpRequestDuration.observe({
+      method: req.method,
+      route: req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched',
+      status_code: res.statusCode
+    }, (Date.now() - startTime) / 1000);
+  });
+
   // Override del método res.json para loggear responses
   const originalJson = res.json;
   const originalSend = res.send;
@@ -57,6 +88,47 @@ export const requestLogger = (req: Request, res: Response, next: NextFunction) =
   next();
 };
 
+/**
+ * Middleware que actualiza la última actividad de los clientes registrados;
+ * los ids desconocidos no se registran aquí
+ */
+export const trackClient = (req: Request, res: Response, next: NextFunction) => {
+  const clientId = req.headers['x-client-id'];
+  if (typeof clientId === 'string' && clientId) {
+    clientRegistry.seen(clientId);
+  }
+  next();
+};
+
+/**
+ * Middleware de las rutas de sincronización: cuenta las requests en curso para que el
+ * apagado las espere, y durante el apagado rechaza las nuevas con 503
+ */
+export const trackSync = (req: Request, res: Response, next: NextFunction) => {
+  if (lifecycle.isShuttingDown()) {
+    res.set('Connection', 'close');
+    res.set('Retry-After', '5');
+    res.status(503).json({
+      success: false,
+      error: 'El servidor se está apagando; reintente en otra instancia',
+      code: 'SHUTTING_DOWN',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  lifecycle.syncStarted();
+  let finished = false;
+  const done = () => {
+    if (finished) return;
+    finished = true;
+    lifecycle.syncFinished();
+  };
+  res.on('finish', done);
+  res.on('close', done);
+  next();
+};
+
 /**
  * Middleware para manejar errores 404
  */
@@ -75,12 +147,37 @@ export const notFoundHandler = (req: Request, res: Response, next: NextFunction)
     availableEndpoints: [
       'GET /',
       'GET /health',
+      'GET /livez',
+      'GET /readyz',
+      'GET /metrics',
+      'POST /api/auth/login',
+      'GET /api/auth/me',
+      'POST /api/clients',
+      'GET /api/clients',
+      'GET /api/clients/:clientId',
+      'DELETE /api/clients/:clientId',
+      'GET /api/time/admin/faults',
+      'POST /api/time/admin/faults',
+      'POST /api/time/admin/faults/scenarios/:name',
+      'DELETE /api/time/admin/faults/:id',
+      'DELETE /api/time/admin/faults',
+      'GET /api/config',
+      'POST /api/config/reload',
       'GET /api/time',
       'POST /api/time/sync',
+      'POST /api/time/sync/complete',
+      'GET /api/time/algorithms',
       'GET /api/time/health',
       'GET /api/time/metrics',
+      'GET /api/time/metrics/series',
       'GET /api/time/logs',
-      'DELETE /api/time/logs'
+      'GET /api/time/logs/stream',
+      'DELETE /api/time/logs',
+      'GET /api/time/servers',
+      'POST /api/time/servers',
+      'GET /api/time/servers/:host',
+      'PATCH /api/time/servers/:host',
+      'DELETE /api/time/servers/:host'
     ]
   });
 };
@@ -137,16 +234,59 @@ export const errorHandler = (error: any, req: Request, res: Response, next: Next
   });
 };
 
+// Health check y sondas de liveness/readiness del orquestador
+const UNLIMITED_PATHS = ['/health', '/livez', '/readyz'];
+
 /**
- * Middleware para rate limiting básico (opcional)
+ * Clase de ruta de la request: solo POST /api/time/sync consulta upstream; las
+ * lecturas (y /sync/complete y el registro de clientes) comparten presupuesto, y el resto de las escrituras
+ * (incluido el login) usa el presupuesto admin. Preflights, /health y las sondas no se limitan.
+ */
+const classifyRequest = (req: Request): RateLimitClass | null => {
+  if (req.method === 'OPTIONS' || UNLIMITED_PATHS.includes(req.path)) return null;
+  if (req.method === 'POST' && req.path === '/api/time/sync') return 'sync';
+  if (req.method === 'GET' || req.method === 'HEAD' || req.path.startsWith('/api/time/sync/')) return 'read';
+  if (req.method === 'POST' && req.path === '/api/clients') return 'read';
+  return 'admin';
+};
+
+/**
+ * Middleware de rate limiting con token buckets por cliente (x-client-id o IP)
+ * y clase de ruta. Informa el estado en las cabeceras RateLimit-* y responde
+ * 429 con Retry-After al agotar el presupuesto.
  */
 export const rateLimiter = (req: Request, res: Response, next: NextFunction) => {
-  // Implementación básica de rate limiting
-  // En producción, usar librerías como express-rate-limit
-  const clientId = req.headers['x-client-id'] as string || req.ip;
-  
-  // Por ahora solo logging, pero se puede extender
-  logger.trace('🚦 Rate limit check', { clientId, path: req.path });
-  
-  next();
+  const routeClass = classifyRequest(req);
+  if (!rateLimitStore.enabled || !routeClass) return next();
+
+  const ip = req.ip || 'unknown';
+  const clientId = req.headers['x-client-id'] as string || ip;
+  // x-client-id lo elige el cliente: rotándolo obtendría un bucket nuevo por request.
+  // Las sincronizaciones, que consultan upstream, consumen además del bucket de su IP.
+  const decision = rateLimitStore.take(routeClass, routeClass === 'sync' ? [clientId, ip] : clientId);
+
+  res.set({
+    'RateLimit-Limit': String(decision.limit),
+    'RateLimit-Remaining': String(decision.remaining),
+    'RateLimit-Reset': String(decision.resetSeconds),
+    'RateLimit-Policy': `${decision.policy.perMinute};w=60;burst=${decision.policy.burst}`
+  });
+
+  if (decision.allowed) return next();
+
+  logger.warn(`🚦 Rate limit excedido: ${req.method} ${req.path}`, {
+    clientId,
+    routeClass,
+    retryAfter: decision.retryAfterSeconds
+  });
+
+  res.set('Retry-After', String(decision.retryAfterSeconds));
+  res.status(429).json({
+    success: false,
+    error: `Demasiadas solicitudes (${routeClass}); reintente en ${decision.retryAfterSeconds}s`,
+    code: 'RATE_LIMITED',
+    routeClass,
+    retryAfter: decision.retryAfterSeconds,
+    timestamp: new Date().toISOString()
+  });
 };
@@ -1,5 +1,10 @@
 import morgan from 'morgan';
+import type { Request } from 'express';
 import { logger } from '../utils/logger';
+import { redactAccessToken } from './auth';
+
+// El stream SSE recibe el token en la query: nunca debe quedar en los logs
+morgan.token('url', (req: Request) => redactAccessToken(req.originalUrl || req.url || ''));
 
 /**
  * Configuración personalizada de Morgan para logging HTTP
@@ -7,8 +12,8 @@ import { logger } from '../utils/logger';
 export const httpLogger = morgan('combined', {
   stream: {
     write: (message: string) => {
-      // Filtrar mensajes de health checks para reducir ruido
-      if (!message.includes('/health') || process.env.NODE_ENV === 'development') {
+      // Filtrar mensajes de health checks y sondas para reducir ruido
+      if (!/\/(health|livez|readyz)/.test(message) || process.env.NODE_ENV === 'development') {
         logger.info(`🌐 ${message.trim()}`);
       }
     }
@@ -16,7 +21,9 @@ export const httpLogger = morgan('combined', {
   skip: (req, res) => {
     // Omitir logs de static assets y health checks en producción
     if (process.env.NODE_ENV === 'production') {
-      return req.url.includes('/health') || 
+      return req.url.includes('/health') ||
+             req.url.includes('/livez') ||
+             req.url.includes('/readyz') || 
              req.url.includes('/favicon.ico') ||
              req.url.includes('/static/');
     }
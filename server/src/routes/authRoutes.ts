@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { AuthController } from '../controllers/AuthController';
+import { handleInputErrors } from '../middleware/validation';
+
+const router = Router();
+
+// POST /api/auth/login - Canjear una clave de API por un JWT
+router.post('/login',
+  [
+    body('apiKey').isString().notEmpty().withMessage('apiKey es requerido')
+  ],
+  handleInputErrors,
+  AuthController.login
+);
+
+// GET /api/auth/me - Identidad y rol de la credencial actual
+router.get('/me', AuthController.me);
+
+export default router;
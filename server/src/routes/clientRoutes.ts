@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { body, header, param, query } from 'express-validator';
+import { ClientController } from '../controllers/ClientController';
+import { handleInputErrors } from '../middleware/validation';
+import { requireRole } from '../middleware/auth';
+import { CLIENT_ID_PATTERN } from '../services/clientRegistry';
+
+const router = Router();
+
+// POST /api/clients - Registrar un cliente o actualizar su nombre
+// Sin rol operator solo se puede registrar el propio x-client-id
+router.post('/',
+  requireRole('viewer'),
+  [
+    header('x-client-id')
+      .optional()
+      .matches(CLIENT_ID_PATTERN)
+      .withMessage('x-client-id solo admite letras, números, ".", "_", ":" y "-" (máx. 100)'),
+    body('name')
+      .isString()
+      .withMessage('name es requerido')
+      .trim()
+      .isLength({ min: 1, max: 50 })
+      .withMessage('name debe tener entre 1 y 50 caracteres'),
+    body('clientId')
+      .optional()
+      .matches(CLIENT_ID_PATTERN)
+      .withMessage('clientId solo admite letras, números, ".", "_", ":" y "-" (máx. 100)'),
+    body('platform')
+      .optional()
+      .isString()
+      .isLength({ max: 100 })
+      .withMessage('platform debe ser un string de hasta 100 caracteres')
+  ],
+  handleInputErrors,
+  ClientController.register
+);
+
+// GET /api/clients - Listar clientes registrados
+router.get('/',
+  requireRole('operator'),
+  [
+    query('active').optional().isBoolean().withMessage('active debe ser true o false')
+  ],
+  handleInputErrors,
+  ClientController.getClients
+);
+
+// GET /api/clients/:clientId - Obtener un cliente
+router.get('/:clientId',
+  requireRole('operator'),
+  [
+    param('clientId').matches(CLIENT_ID_PATTERN).withMessage('clientId inválido')
+  ],
+  handleInputErrors,
+  ClientController.getClient
+);
+
+// DELETE /api/clients/:clientId - Dar de baja un cliente
+router.delete('/:clientId',
+  requireRole('admin'),
+  [
+    param('clientId').matches(CLIENT_ID_PATTERN).withMessage('clientId inválido')
+  ],
+  handleInputErrors,
+  ClientController.removeClient
+);
+
+export default router;
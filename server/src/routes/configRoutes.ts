@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { ConfigController } from '../controllers/ConfigController';
+import { requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// La configuración solo la ven y recargan administradores
+router.use(requireRole('admin'));
+
+// GET /api/config - Configuración vigente
+router.get('/', ConfigController.getConfig);
+
+// POST /api/config/reload - Recargar las claves recargables sin reiniciar
+router.post('/reload', ConfigController.reload);
+
+export default router;
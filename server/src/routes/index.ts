@@ -1,3 +1,6 @@
 // Exportar todas las rutas desde un punto central
 export { default as timeRoutes } from './timeRoutes';
 export { default as systemRoutes } from './systemRoutes';
+export { default as authRoutes } from './authRoutes';
+export { default as clientRoutes } from './clientRoutes';
+export { default as configRoutes } from './configRoutes';
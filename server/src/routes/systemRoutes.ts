@@ -1,6 +1,10 @@
 import { Router } from 'express';
 import type { Request, Response } from 'express';
 import { logger } from '../utils/logger';
+import { ntpMetricsManager } from '../config/ntpConfig';
+import { metricsRegistry, OPENMETRICS_CONTENT_TYPE } from '../utils/openMetrics';
+import { requireRole } from '../middleware/auth';
+import { lifecycle } from '../services/lifecycle';
 
 const router = Router();
 
@@ -36,6 +40,57 @@ router.get('/health', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /livez - Liveness: el proceso atiende requests. No depende de NTP, así un upstream
+ * caído no provoca reinicios
+ */
+router.get('/livez', (req: Request, res: Response) => {
+  res.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    uptime: process.uptime()
+  });
+});
+
+/**
+ * GET /readyz - Readiness: 503 si no hay upstream utilizable, el modelo de reloj no está
+ * sincronizado o el servidor se está apagando
+ */
+router.get('/readyz', (req: Request, res: Response) => {
+  try {
+    const readiness = lifecycle.getReadiness();
+
+    if (!readiness.ready) {
+      logger.trace('🚦 Readiness fallida', { reasons: readiness.reasons });
+    }
+
+    res.status(readiness.ready ? 200 : 503).json({
+      status: readiness.ready ? 'ready' : 'not-ready',
+      timestamp: new Date().toISOString(),
+      ...readiness
+    });
+  } catch (error) {
+    logger.error('❌ Error evaluando readiness', { error: error instanceof Error ? error.message : error });
+    res.status(503).json({
+      status: 'error',
+      timestamp: new Date().toISOString(),
+      error: 'Error evaluando readiness del servidor'
+    });
+  }
+});
+
+/**
+ * GET /metrics - Métricas en formato OpenMetrics para Prometheus
+ */
+router.get('/metrics', requireRole('operator'), (req: Request, res: Response) => {
+  try {
+    res.type(OPENMETRICS_CONTENT_TYPE).send(metricsRegistry.render());
+  } catch (error) {
+    logger.error('❌ Error exponiendo métricas OpenMetrics', { error: error instanceof Error ? error.message : error });
+    res.status(500).type('text/plain').send('Error generando métricas\n');
+  }
+});
+
 /**
  * GET / - Información general del API
  */
@@ -50,12 +105,37 @@ router.get('/', (req: Request, res: Response) => {
       endpoints: {
         'GET /': 'Información del API',
         'GET /health': 'Health check del servidor',
+        'GET /livez': 'Liveness: el proceso responde',
+        'GET /readyz': 'Readiness: upstream utilizable y reloj sincronizado',
+        'GET /metrics': 'Métricas en formato OpenMetrics (Prometheus)',
+        'POST /api/auth/login': 'Canjear una clave de API por un JWT',
+        'GET /api/auth/me': 'Identidad y rol de la credencial actual',
+        'POST /api/clients': 'Registrar un cliente (nombre y metadatos)',
+        'GET /api/clients': 'Listar clientes registrados',
+        'GET /api/clients/:clientId': 'Obtener un cliente registrado',
+        'DELETE /api/clients/:clientId': 'Dar de baja un cliente',
+        'GET /api/time/admin/faults': 'Fallos inyectados y escenarios',
+        'POST /api/time/admin/faults': 'Inyectar un fallo en un servidor upstream',
+        'POST /api/time/admin/faults/scenarios/:name': 'Ejecutar un escenario de fallos',
+        'DELETE /api/time/admin/faults/:id': 'Retirar un fallo inyectado',
+        'DELETE /api/time/admin/faults': 'Retirar todos los fallos inyectados',
+        'GET /api/config': 'Configuración vigente',
+        'POST /api/config/reload': 'Recargar la configuración sin reiniciar',
         'GET /api/time': 'Obtener hora actual del servidor',
-        'POST /api/time/sync': 'Sincronizar tiempo usando algoritmo de Cristian',
+        'POST /api/time/sync': 'Sincronizar tiempo (algoritmo cristian, berkeley o marzullo)',
+        'POST /api/time/sync/complete': 'Informar T3 y registrar el intercambio completo',
+        'GET /api/time/algorithms': 'Algoritmos de sincronización disponibles',
         'GET /api/time/health': 'Estado detallado del sistema de tiempo',
         'GET /api/time/metrics': 'Métricas detalladas del sistema',
+        'GET /api/time/metrics/series': 'Series temporales de offset, RTT y latencia upstream',
         'GET /api/time/logs': 'Logs del sistema',
-        'DELETE /api/time/logs': 'Limpiar logs del sistema'
+        'GET /api/time/logs/stream': 'Stream SSE de logs en vivo',
+        'DELETE /api/time/logs': 'Limpiar logs del sistema',
+        'GET /api/time/servers': 'Listar servidores NTP registrados',
+        'POST /api/time/servers': 'Registrar un servidor NTP (host, port, priority, timeout)',
+        'GET /api/time/servers/:host': 'Obtener un servidor NTP',
+        'PATCH /api/time/servers/:host': 'Actualizar puerto, prioridad o timeout de un servidor NTP',
+        'DELETE /api/time/servers/:host': 'Eliminar un servidor NTP'
       },
       
       algorithm: {
@@ -71,15 +151,18 @@ router.get('/', (req: Request, res: Response) => {
       },
       
       ntpServers: {
-        primary: 'ntp.shoa.cl',
-        secondary: 'pool.ntp.org',
-        timeout: '5000ms',
-        failover: 'Automático'
+        servers: ntpMetricsManager.getServers().map(({ host, port, priority, timeout }) => ({
+          host,
+          port,
+          priority,
+          timeout: `${timeout}ms`
+        })),
+        selection: 'Intersección, clustering y combinación al estilo RFC 5905'
       },
       
       features: [
         'Sincronización de alta precisión',
-        'Failover automático entre servidores NTP',
+        'Ensamble de servidores NTP consultados en paralelo',
         'Circuit breaker pattern para protección',
         'Métricas en tiempo real',
         'Sistema de logging completo',
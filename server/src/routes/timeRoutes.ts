@@ -1,16 +1,33 @@
 import {Router} from 'express';
 import { TimeController } from '../controllers/TimeController';
-import { body, param, query } from 'express-validator';
+import { NTPServerController } from '../controllers/NTPServerController';
+import { FaultController } from '../controllers/FaultController';
+import { body, header, param, query } from 'express-validator';
 import { handleInputErrors } from '../middleware/validation';
+import { trackSync } from '../middleware/common';
+import { requireRole } from '../middleware/auth';
+import { SYNC_ALGORITHM_NAMES, parseDuration } from '../utils/timeUtils';
+import { ntpMetricsManager } from '../config/ntpConfig';
+import { FAULT_TYPES, KISS_CODES } from '../services/faultInjector';
+import { CLIENT_ID_PATTERN } from '../services/clientRegistry';
 
 const router = Router(); //inicializa el router
 
+// Hora y sincronización requieren al menos el rol viewer; métricas y logs, operator;
+// limpiar logs, simular fallos y administrar servidores, admin
+router.use(requireRole('viewer'));
+
 // GET /api/time - Obtener hora actual del servidor
 router.get('/', TimeController.getCurrentTime);
 
-// POST /api/time/sync - Sincronizar tiempo usando algoritmo de Cristian
+// POST /api/time/sync - Sincronizar tiempo (Cristian, Berkeley o Marzullo)
 router.post('/sync',
+  trackSync,
   [
+    header('x-client-id')
+      .optional()
+      .matches(CLIENT_ID_PATTERN)
+      .withMessage('x-client-id solo admite letras, números, ".", "_", ":" y "-" (máx. 100)'),
     body('clientRequestTime')
       .notEmpty()
       .withMessage('clientRequestTime es requerido')
@@ -22,28 +39,98 @@ router.post('/sync',
           throw new Error('clientRequestTime debe ser mayor que 0');
         }
         return true;
-      })
+      }),
+    body('algorithm')
+      .optional()
+      .isIn(SYNC_ALGORITHM_NAMES)
+      .withMessage(`algorithm debe ser ${SYNC_ALGORITHM_NAMES.join(', ')}`)
   ],
   handleInputErrors,
   TimeController.syncTime
 );
 
+// POST /api/time/sync/complete - Informar T3 para completar el intercambio
+router.post('/sync/complete',
+  trackSync,
+  [
+    header('x-client-id')
+      .optional()
+      .matches(CLIENT_ID_PATTERN)
+      .withMessage('x-client-id solo admite letras, números, ".", "_", ":" y "-" (máx. 100)'),
+    body('syncId')
+      .isUUID()
+      .withMessage('syncId debe ser un UUID válido'),
+    body('clientReceiveTime')
+      .notEmpty()
+      .withMessage('clientReceiveTime es requerido')
+      .isNumeric()
+      .withMessage('clientReceiveTime debe ser un número'),
+    body('burst')
+      .optional()
+      .isObject()
+      .withMessage('burst debe ser un objeto'),
+    body('burst.id')
+      .if(body('burst').exists())
+      .isString()
+      .withMessage('burst.id debe ser string'),
+    body('burst.size')
+      .if(body('burst').exists())
+      .isInt({ min: 1, max: 32 })
+      .withMessage('burst.size debe estar entre 1 y 32'),
+    body('burst.index')
+      .if(body('burst').exists())
+      .isInt({ min: 0, max: 31 })
+      .withMessage('burst.index debe estar entre 0 y 31'),
+    body('burst.dispersion')
+      .if(body('burst').exists())
+      .isFloat({ min: 0 })
+      .withMessage('burst.dispersion debe ser un número no negativo')
+  ],
+  handleInputErrors,
+  TimeController.completeSync
+);
+
+// GET /api/time/algorithms - Listar algoritmos de sincronización disponibles
+router.get('/algorithms', TimeController.getAlgorithms);
+
 // GET /api/time/health - Verificar estado del servidor de tiempo
 router.get('/health', TimeController.getHealthStatus);
 
 // GET /api/time/metrics - Obtener métricas detalladas
 router.get('/metrics',
+  requireRole('operator'),
   [
     query('clientId').optional().isString().withMessage('clientId debe ser string'),
-    query('server').optional().isIn(['ntp.shoa.cl', 'pool.ntp.org']).withMessage('server debe ser ntp.shoa.cl o pool.ntp.org'),
+    query('server').optional()
+      .custom(value => ntpMetricsManager.getServer(value) !== undefined)
+      .withMessage('server debe ser uno de los servidores NTP configurados'),
     query('period').optional().isIn(['hour', 'day', 'week']).withMessage('period debe ser hour, day o week')
   ],
   handleInputErrors,
   TimeController.getMetrics
 );
 
+// GET /api/time/metrics/series - Series temporales de métricas
+router.get('/metrics/series',
+  requireRole('operator'),
+  [
+    query('clientId').optional().isString().withMessage('clientId debe ser string'),
+    query('server').optional()
+      .matches(/^[a-zA-Z0-9.-]+$/).withMessage('server debe ser un host válido'),
+    query('range').optional()
+      .custom(value => parseDuration(value) !== null)
+      .withMessage('range debe ser una duración como 30m, 24h o 7d'),
+    query('bucket').optional()
+      .custom(value => parseDuration(value) !== null)
+      .withMessage('bucket debe ser una duración como 1m, 15m o 1h')
+  ],
+  handleInputErrors,
+  TimeController.getMetricsSeries
+);
+
 // GET /api/time/logs - Obtener logs del sistema
 router.get('/logs',
+  requireRole('operator'),
   [
     query('level').optional().isIn(['ERROR', 'WARN', 'INFO', 'DEBUG', 'TRACE']).withMessage('level inválido'),
     query('clientId').optional().isString().withMessage('clientId debe ser string'),
@@ -55,15 +142,88 @@ router.get('/logs',
   TimeController.getLogs
 );
 
+// GET /api/time/logs/stream - Stream SSE de nuevas entradas de log
+router.get('/logs/stream',
+  requireRole('operator'),
+  [
+    query('level').optional().isIn(['ERROR', 'WARN', 'INFO', 'DEBUG', 'TRACE']).withMessage('level inválido'),
+    query('clientId').optional().isString().withMessage('clientId debe ser string'),
+    query('server').optional().isString().withMessage('server debe ser string'),
+    query('lastEventId').optional().isInt({ min: 0 }).withMessage('lastEventId debe ser un entero positivo'),
+    header('Last-Event-ID').optional().isInt({ min: 0 }).withMessage('Last-Event-ID debe ser un entero positivo')
+  ],
+  handleInputErrors,
+  TimeController.streamLogs
+);
+
 // DELETE /api/time/logs - Limpiar logs del sistema
-router.delete('/logs', TimeController.clearLogs);
+router.delete('/logs', requireRole('admin'), TimeController.clearLogs);
+
+// Validaciones comunes para los parámetros de un servidor NTP
+const ntpServerSettingsValidators = [
+  body('port')
+    .optional()
+    .isInt({ min: 1, max: 65535 })
+    .withMessage('port debe estar entre 1 y 65535')
+    .toInt(),
+  body('priority')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('priority debe estar entre 1 y 100')
+    .toInt(),
+  body('timeout')
+    .optional()
+    .isInt({ min: 100, max: 30000 })
+    .withMessage('timeout debe estar entre 100ms y 30000ms')
+    .toInt()
+];
+
+// GET /api/time/servers - Listar servidores NTP registrados
+router.get('/servers', requireRole('operator'), NTPServerController.getServers);
+
+// POST /api/time/servers - Registrar un servidor NTP
+router.post('/servers',
+  requireRole('admin'),
+  [
+    body('host')
+      .notEmpty()
+      .withMessage('host es requerido')
+      .matches(/^[a-zA-Z0-9.-]+$/)
+      .withMessage('host debe ser un nombre de dominio o una dirección IPv4'),
+    ...ntpServerSettingsValidators
+  ],
+  handleInputErrors,
+  NTPServerController.addServer
+);
+
+// GET /api/time/servers/:host - Obtener un servidor NTP
+router.get('/servers/:host', requireRole('operator'), NTPServerController.getServer);
+
+// PATCH /api/time/servers/:host - Actualizar un servidor NTP
+router.patch('/servers/:host',
+  requireRole('admin'),
+  [
+    param('host').notEmpty().withMessage('host es requerido'),
+    ...ntpServerSettingsValidators
+  ],
+  handleInputErrors,
+  NTPServerController.updateServer
+);
+
+// DELETE /api/time/servers/:host - Eliminar un servidor NTP
+router.delete('/servers/:host', requireRole('admin'), NTPServerController.removeServer);
 
 // POST /api/time/admin/simulate-failure - Simular fallo del servidor NTP (solo para testing)
 router.post('/admin/simulate-failure',
+  requireRole('admin'),
   [
     body('action')
       .isIn(['fail-primary', 'restore'])
       .withMessage('action debe ser fail-primary o restore'),
+    body('server')
+      .optional()
+      .custom(value => ntpMetricsManager.getServer(value) !== undefined)
+      .withMessage('server debe ser uno de los servidores NTP configurados'),
     body('duration')
       .optional()
       .isInt({ min: 1000, max: 300000 })
@@ -73,4 +233,95 @@ router.post('/admin/simulate-failure',
   TimeController.simulateNTPFailure
 );
 
+// Servidor upstream objetivo de un fallo: un host configurado o 'primary'
+const faultServerValidator = (field: ReturnType<typeof body>) => field
+  .custom(value => ntpMetricsManager.resolveServer(value) !== undefined)
+  .withMessage('server debe ser "primary" o uno de los servidores NTP configurados');
+
+// GET /api/time/admin/faults - Fallos inyectados y escenarios disponibles
+router.get('/admin/faults', requireRole('admin'), FaultController.getFaults);
+
+// POST /api/time/admin/faults - Inyectar un fallo en un servidor upstream
+router.post('/admin/faults',
+  requireRole('admin'),
+  [
+    body('type')
+      .isIn(FAULT_TYPES)
+      .withMessage(`type debe ser uno de: ${FAULT_TYPES.join(', ')}`),
+    faultServerValidator(body('server').notEmpty().withMessage('server es requerido')),
+    body('duration')
+      .isInt({ min: 1000, max: 600000 })
+      .withMessage('duration debe estar entre 1000ms y 600000ms (10 minutos)')
+      .toInt(),
+    body('startDelay')
+      .optional()
+      .isInt({ min: 0, max: 600000 })
+      .withMessage('startDelay debe estar entre 0 y 600000ms')
+      .toInt(),
+    body('latency')
+      .if(body('type').equals('latency'))
+      .isInt({ min: 1, max: 30000 })
+      .withMessage('latency debe estar entre 1ms y 30000ms')
+      .toInt(),
+    body('jitter')
+      .optional()
+      .isInt({ min: 0, max: 10000 })
+      .withMessage('jitter debe estar entre 0 y 10000ms')
+      .toInt(),
+    body('lossPercent')
+      .if(body('type').equals('loss'))
+      .isFloat({ min: 0, max: 100 })
+      .withMessage('lossPercent debe estar entre 0 y 100')
+      .toFloat(),
+    body('offset')
+      .if(body('type').equals('offset'))
+      .isFloat({ min: -86400000, max: 86400000 })
+      .withMessage('offset debe estar entre -86400000ms y 86400000ms (±1 día)')
+      .toFloat(),
+    body('driftPpm')
+      .if(body('type').equals('drift'))
+      .isFloat({ min: -100000, max: 100000 })
+      .withMessage('driftPpm debe estar entre -100000 y 100000')
+      .toFloat(),
+    body('kissCode')
+      .optional()
+      .isIn(KISS_CODES)
+      .withMessage(`kissCode debe ser uno de: ${KISS_CODES.join(', ')}`)
+  ],
+  handleInputErrors,
+  FaultController.injectFault
+);
+
+// POST /api/time/admin/faults/scenarios/:name - Ejecutar un escenario de fallos
+router.post('/admin/faults/scenarios/:name',
+  requireRole('admin'),
+  [
+    param('name').notEmpty().withMessage('name es requerido'),
+    faultServerValidator(body('server').optional()),
+    body('duration')
+      .optional()
+      .isInt({ min: 1000, max: 600000 })
+      .withMessage('duration debe estar entre 1000ms y 600000ms (10 minutos)')
+      .toInt()
+  ],
+  handleInputErrors,
+  FaultController.runScenario
+);
+
+// DELETE /api/time/admin/faults/:id - Retirar un fallo
+router.delete('/admin/faults/:id', requireRole('admin'), FaultController.removeFault);
+
+// DELETE /api/time/admin/faults - Retirar todos los fallos (o los de ?server=)
+router.delete('/admin/faults',
+  requireRole('admin'),
+  [
+    query('server')
+      .optional()
+      .custom(value => ntpMetricsManager.resolveServer(value) !== undefined)
+      .withMessage('server debe ser "primary" o uno de los servidores NTP configurados')
+  ],
+  handleInputErrors,
+  FaultController.clearFaults
+);
+
 export default router;
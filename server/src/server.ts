@@ -1,4 +1,5 @@
 import express from 'express';
+import type { RequestHandler } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 
@@ -7,20 +8,27 @@ import { corsOptions } from './config/cors';
 
 // Middlewares
 import { 
+  receiveTimestamp,
   securityHeaders, 
   requestLogger, 
   notFoundHandler, 
   errorHandler,
-  rateLimiter 
+  rateLimiter,
+  trackClient
 } from './middleware/common';
 import { getHttpLogger } from './middleware/logging';
+import { authenticate } from './middleware/auth';
 
 // Rutas
 import timeRoutes from './routes/timeRoutes';
 import systemRoutes from './routes/systemRoutes';
+import authRoutes from './routes/authRoutes';
+import clientRoutes from './routes/clientRoutes';
+import configRoutes from './routes/configRoutes';
 
 // Utilidades
 import { logger } from './utils/logger';
+import { ntpMetricsManager } from './config/ntpConfig';
 
 dotenv.config(); // Variables de entorno
 
@@ -30,8 +38,16 @@ const app = express();
 // MIDDLEWARES GLOBALES
 // ========================
 
-// CORS con configuración personalizada
-app.use(cors(corsOptions));
+// Marca de tiempo de recepción (T1) antes de cualquier otro procesamiento
+app.use(receiveTimestamp);
+
+// CORS con configuración personalizada; GET /metrics y las sondas quedan fuera
+// porque los scrapers de Prometheus y el orquestador no envían Origin
+const CORS_EXEMPT_PATHS = ['/metrics', '/livez', '/readyz'];
+const corsMiddleware = cors(corsOptions);
+const corsExceptProbes: RequestHandler = (req, res, next) =>
+  CORS_EXEMPT_PATHS.includes(req.path) ? next() : corsMiddleware(req, res, next);
+app.use(corsExceptProbes);
 
 // Parsing de datos
 app.use(express.json({ 
@@ -50,19 +66,34 @@ app.use(getHttpLogger());
 // Headers de seguridad
 app.use(securityHeaders);
 
-// Rate limiting básico
+// Rate limiting por cliente y clase de ruta (sync, lecturas, administración)
 app.use(rateLimiter);
 
 // Logging detallado de requests
 app.use(requestLogger);
 
+// Identidad y rol de la request (clave de API o JWT); cada ruta exige su rol
+app.use(authenticate);
+
+// Última actividad de los clientes registrados (x-client-id)
+app.use(trackClient);
+
 // ========================
 // RUTAS PRINCIPALES
 // ========================
 
-// Rutas del sistema (health, info general)
+// Rutas del sistema (health, sondas, info general)
 app.use('/', systemRoutes);
 
+// Autenticación: login con clave de API e identidad actual
+app.use('/api/auth', authRoutes);
+
+// Registro de clientes: nombre, metadatos y actividad
+app.use('/api/clients', clientRoutes);
+
+// Configuración vigente y recarga en caliente
+app.use('/api/config', configRoutes);
+
 // Rutas de sincronización temporal
 app.use('/api/time', timeRoutes);
 
@@ -83,7 +114,7 @@ app.use(errorHandler);
 // Log de inicialización del servidor
 logger.info('🚀 Servidor de sincronización temporal inicializado', {
   algorithm: 'Cristian',
-  ntpServers: ['ntp.shoa.cl', 'pool.ntp.org'],
+  ntpServers: ntpMetricsManager.getServers().map(({ host, port }) => `${host}:${port}`),
   features: ['failover', 'circuit-breaker', 'metrics', 'logging'],
   environment: process.env.NODE_ENV || 'development',
   cors: 'configurado',
@@ -0,0 +1,173 @@
+import type { Server, Socket } from 'socket.io';
+import { getEpochTimeMs } from '../utils/timeUtils';
+import { logger } from '../utils/logger';
+import { getConfig } from '../config/appConfig';
+
+// Lectura de reloj de un cliente durante una ronda
+export interface BerkeleyReading {
+  clientId: string;
+  socketId: string;
+  clientTime: number;
+  roundTripTime: number;
+  deviation: number; // Reloj del cliente - reloj del coordinador (ms)
+  discarded: boolean; // Descartada como outlier para el promedio
+  correction: number; // Ajuste enviado al cliente (ms)
+}
+
+// Resultado de una ronda del coordinador
+export interface BerkeleyRound {
+  round: number;
+  timestamp: number;
+  participants: number;
+  averageDeviation: number;
+  serverCorrection: number;
+  readings: BerkeleyReading[];
+}
+
+/**
+ * Coordinador del algoritmo de Berkeley
+ * Periódicamente pide la hora a cada cliente conectado por socket.io, promedia los relojes
+ * (incluido el propio) descartando outliers y envía a cada cliente su corrección.
+ */
+class BerkeleyCoordinator {
+  private io: Server | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private round = 0;
+  private lastRound: BerkeleyRound | null = null;
+
+  constructor(
+    private pollInterval: number = getConfig().berkeley.pollInterval,
+    private pollTimeout: number = 2000
+  ) {}
+
+  // Umbral recargable: se lee en cada ronda
+  private get outlierThreshold(): number {
+    return getConfig().berkeley.outlierThreshold;
+  }
+
+  start(io: Server) {
+    this.io = io;
+    this.stop();
+    this.timer = setInterval(() => {
+      this.runRound().catch(error => {
+        logger.error('❌ Error en ronda de Berkeley', { error: error instanceof Error ? error.message : error });
+      });
+    }, this.pollInterval);
+
+    logger.info('🕰️ Coordinador de Berkeley iniciado', {
+      pollInterval: this.pollInterval,
+      outlierThreshold: this.outlierThreshold
+    });
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Ejecuta una ronda: sondeo, promedio tolerante a fallos y envío de correcciones
+   */
+  async runRound(): Promise<BerkeleyRound | null> {
+    if (!this.io) return null;
+
+    // El canal en vivo abre otra conexión por navegador que no atiende berkeley:poll
+    const sockets = Array.from(this.io.sockets.sockets.values()).filter(socket => socket.data.berkeley);
+    if (sockets.length === 0) return null;
+
+    const polled = await Promise.all(sockets.map(socket => this.pollClient(socket)));
+    const readings = polled.filter((r): r is BerkeleyReading => r !== null);
+    if (readings.length === 0) return null;
+
+    // El coordinador participa con desviación 0; se descartan relojes lejos de la mediana
+    const deviations = [0, ...readings.map(r => r.deviation)].sort((a, b) => a - b);
+    const median = deviations[Math.floor(deviations.length / 2)];
+
+    for (const reading of readings) {
+      reading.discarded = Math.abs(reading.deviation - median) > this.outlierThreshold;
+    }
+
+    const accepted = [0, ...readings.filter(r => !r.discarded).map(r => r.deviation)];
+    const averageDeviation = accepted.reduce((sum, d) => sum + d, 0) / accepted.length;
+
+    this.round++;
+    for (const reading of readings) {
+      reading.correction = averageDeviation - reading.deviation;
+      this.io.sockets.sockets.get(reading.socketId)?.emit('berkeley:correction', {
+        round: this.round,
+        correction: reading.correction,
+        averageDeviation,
+        participants: accepted.length,
+        discarded: reading.discarded,
+        timestamp: Date.now()
+      });
+    }
+
+    this.lastRound = {
+      round: this.round,
+      timestamp: Date.now(),
+      participants: accepted.length,
+      averageDeviation,
+      serverCorrection: averageDeviation,
+      readings
+    };
+
+    logger.debug('🕰️ Ronda de Berkeley completada', {
+      round: this.round,
+      clients: readings.length,
+      discarded: readings.filter(r => r.discarded).length,
+      averageDeviation: `${averageDeviation.toFixed(2)}ms`
+    });
+
+    return this.lastRound;
+  }
+
+  /**
+   * Pide la hora a un cliente y estima su desviación compensando RTT/2
+   */
+  private async pollClient(socket: Socket): Promise<BerkeleyReading | null> {
+    const sentAt = getEpochTimeMs();
+
+    try {
+      const reply = await socket.timeout(this.pollTimeout).emitWithAck('berkeley:poll', { round: this.round + 1 });
+      const receivedAt = getEpochTimeMs();
+      const roundTripTime = receivedAt - sentAt;
+
+      // Un valor no numérico propagaría NaN al promedio y a las correcciones de todos
+      const clientTime = Number(reply?.clientTime);
+      if (!Number.isFinite(clientTime)) {
+        logger.warn('⚠️ Respuesta inválida al sondeo de Berkeley', { socketId: socket.id }, socket.data.clientId);
+        return null;
+      }
+
+      return {
+        clientId: socket.data.clientId,
+        socketId: socket.id,
+        clientTime,
+        roundTripTime,
+        deviation: clientTime - (sentAt + roundTripTime / 2),
+        discarded: false,
+        correction: 0
+      };
+    } catch {
+      logger.trace('⏱️ Cliente no respondió al sondeo de Berkeley', { socketId: socket.id }, socket.data.clientId);
+      return null;
+    }
+  }
+
+  getStatus() {
+    return {
+      running: this.timer !== null,
+      pollInterval: this.pollInterval,
+      outlierThreshold: this.outlierThreshold,
+      lastRound: this.lastRound
+    };
+  }
+}
+
+// Instancia singleton del coordinador
+export const berkeleyCoordinator = new BerkeleyCoordinator();
+
+export { BerkeleyCoordinator };
@@ -0,0 +1,247 @@
+import { createHash, randomUUID } from 'crypto';
+import type { Request } from 'express';
+import { storage, ClientRecord } from '../storage';
+import { logger } from '../utils/logger';
+import { getConfig } from '../config/appConfig';
+
+const HOUR = 60 * 60 * 1000;
+
+// Los ids de cliente viajan en cabeceras y URLs: solo caracteres seguros
+export const CLIENT_ID_PATTERN = /^[a-zA-Z0-9._:-]{1,100}$/;
+
+// Datos del cliente tomados de la request o de la conexión WebSocket
+export interface ClientMetadata {
+  userAgent?: string | null;
+  platform?: string | null;
+  ip?: string | null;
+}
+
+/**
+ * Metadatos de una request HTTP; la plataforma viene de la client hint
+ * Sec-CH-UA-Platform si el navegador la envía
+ */
+export function requestMetadata(req: Request): ClientMetadata {
+  const platform = req.get('Sec-CH-UA-Platform');
+  return {
+    userAgent: req.get('User-Agent') ?? null,
+    platform: platform ? platform.replace(/"/g, '') : null,
+    ip: req.ip ?? null
+  };
+}
+
+// lastSeen se actualiza en memoria en cada request; al almacenamiento solo cada este intervalo
+const LAST_SEEN_PERSIST_INTERVAL = 60 * 1000;
+
+// Intervalo entre pasadas de expiración de clientes inactivos
+const EXPIRY_SWEEP_INTERVAL = 60 * 1000;
+
+/**
+ * Registro de clientes: nombre, metadatos, última actividad y conexiones WebSocket.
+ * Los clientes se registran con POST /api/clients o, implícitamente, al sincronizar;
+ * los que no se ven durante `idleExpiry` se dan de baja.
+ */
+class ClientRegistry {
+  private sockets: Map<string, number> = new Map(); // Conexiones WebSocket abiertas por cliente
+  private persistedSeen: Map<string, number> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private expired = 0;
+  private removeListeners: Set<(id: string) => void> = new Set();
+
+  // Ventanas leídas en cada uso para respetar las recargas de configuración
+  private get activeWindow(): number {
+    return getConfig().clients.activeWindow;
+  }
+
+  private get idleExpiry(): number {
+    return getConfig().clients.idleExpiryHours * HOUR;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.expireIdle(), EXPIRY_SWEEP_INTERVAL);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Identificador estable para requests sin x-client-id, derivado de IP y user agent,
+   * para no crear un historial huérfano en cada llamada
+   */
+  anonymousId(metadata: ClientMetadata): string {
+    const digest = createHash('sha256')
+      .update(`${metadata.ip ?? ''}|${metadata.userAgent ?? ''}`)
+      .digest('hex');
+    return `anon-${digest.substring(0, 12)}`;
+  }
+
+  /**
+   * Alta o actualización explícita; sin id se genera uno nuevo
+   */
+  register(id: string | undefined, name: string, metadata: ClientMetadata): { client: ClientRecord; created: boolean } {
+    const now = Date.now();
+    const existing = id ? storage.getClient(id) : undefined;
+    const client: ClientRecord = {
+      id: existing?.id ?? id ?? `client-${randomUUID()}`,
+      name,
+      registration: 'explicit',
+      userAgent: metadata.userAgent ?? existing?.userAgent ?? null,
+      platform: metadata.platform ?? existing?.platform ?? null,
+      ip: metadata.ip ?? existing?.ip ?? null,
+      registeredAt: existing?.registeredAt ?? now,
+      lastSeen: now
+    };
+
+    this.persist(client);
+    if (!existing) {
+      logger.info(`🪪 Cliente registrado: ${client.name}`, { platform: client.platform }, client.id);
+    } else if (existing.name !== name) {
+      logger.info(`🪪 Cliente renombrado: ${existing.name} → ${name}`, undefined, client.id);
+    }
+    return { client, created: !existing };
+  }
+
+  /**
+   * Marca actividad del cliente; si no está registrado se crea un registro implícito
+   * con el id como nombre
+   */
+  touch(id: string, metadata: ClientMetadata = {}): ClientRecord {
+    const existing = storage.getClient(id);
+    if (!existing) {
+      const now = Date.now();
+      const client: ClientRecord = {
+        id,
+        name: id,
+        registration: 'implicit',
+        userAgent: metadata.userAgent ?? null,
+        platform: metadata.platform ?? null,
+        ip: metadata.ip ?? null,
+        registeredAt: now,
+        lastSeen: now
+      };
+      this.persist(client);
+      return client;
+    }
+
+    this.markSeen(existing);
+    return existing;
+  }
+
+  /**
+   * Actualiza la última actividad solo si el cliente ya está registrado
+   */
+  seen(id: string) {
+    const existing = storage.getClient(id);
+    if (existing) this.markSeen(existing);
+  }
+
+  attachSocket(id: string, metadata: ClientMetadata) {
+    this.touch(id, metadata);
+    this.sockets.set(id, (this.sockets.get(id) ?? 0) + 1);
+  }
+
+  detachSocket(id: string) {
+    const count = (this.sockets.get(id) ?? 1) - 1;
+    if (count > 0) this.sockets.set(id, count);
+    else this.sockets.delete(id);
+    this.seen(id);
+  }
+
+  get(id: string): ClientRecord | undefined {
+    return storage.getClient(id);
+  }
+
+  list(): ClientRecord[] {
+    return storage.getClients().sort((a, b) => b.lastSeen - a.lastSeen);
+  }
+
+  remove(id: string): boolean {
+    this.sockets.delete(id);
+    this.persistedSeen.delete(id);
+    const removed = storage.removeClient(id);
+    if (removed) this.removeListeners.forEach(listener => listener(id));
+    return removed;
+  }
+
+  /**
+   * Suscribe a las bajas de clientes (eliminación o expiración); devuelve la desuscripción
+   */
+  onRemove(listener: (id: string) => void): () => void {
+    this.removeListeners.add(listener);
+    return () => this.removeListeners.delete(listener);
+  }
+
+  /**
+   * Activo: con una conexión WebSocket abierta o visto dentro de la ventana de actividad
+   */
+  isActive(client: ClientRecord, now: number = Date.now()): boolean {
+    return this.sockets.has(client.id) || now - client.lastSeen <= this.activeWindow;
+  }
+
+  isConnected(id: string): boolean {
+    return this.sockets.has(id);
+  }
+
+  getActive(now: number = Date.now()): ClientRecord[] {
+    return this.list().filter(client => this.isActive(client, now));
+  }
+
+  countActive(now: number = Date.now()): number {
+    return this.getActive(now).length;
+  }
+
+  /**
+   * Da de baja a los clientes sin actividad ni conexión durante `idleExpiry`.
+   * Su historial de sincronización se conserva según la política de retención.
+   */
+  expireIdle(now: number = Date.now()): string[] {
+    const expiredIds = storage.getClients()
+      .filter(client => !this.sockets.has(client.id) && now - client.lastSeen > this.idleExpiry)
+      .map(client => client.id);
+
+    expiredIds.forEach(id => this.remove(id));
+    if (expiredIds.length > 0) {
+      this.expired += expiredIds.length;
+      logger.info(`🪪 ${expiredIds.length} cliente(s) expirados por inactividad`, { clients: expiredIds });
+    }
+    return expiredIds;
+  }
+
+  // El registro en memoria se actualiza siempre; la compactación persiste el último valor
+  private markSeen(client: ClientRecord) {
+    client.lastSeen = Date.now();
+    if (client.lastSeen - (this.persistedSeen.get(client.id) ?? 0) >= LAST_SEEN_PERSIST_INTERVAL) {
+      this.persist(client);
+    }
+  }
+
+  private persist(client: ClientRecord) {
+    storage.saveClient(client);
+    this.persistedSeen.set(client.id, client.lastSeen);
+  }
+
+  getStatus() {
+    const clients = storage.getClients();
+    const now = Date.now();
+
+    return {
+      registered: clients.length,
+      explicit: clients.filter(client => client.registration === 'explicit').length,
+      active: clients.filter(client => this.isActive(client, now)).length,
+      connected: this.sockets.size,
+      expired: this.expired,
+      activeWindow: this.activeWindow,
+      idleExpiry: this.idleExpiry
+    };
+  }
+}
+
+// Instancia singleton del registro de clientes
+export const clientRegistry = new ClientRegistry();
+
+export { ClientRegistry };
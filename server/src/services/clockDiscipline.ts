@@ -0,0 +1,245 @@
+import { queryNTPEnsemble } from '../config/ntpConfig';
+import { getEpochTimeMs, EnsembleReading } from '../utils/timeUtils';
+import { logger } from '../utils/logger';
+import { getConfig } from '../config/appConfig';
+
+// Parámetros del lazo de disciplina (inspirados en RFC 5905 §11.3)
+const STEP_THRESHOLD = 128; // ms: residuos mayores se corrigen con un salto de fase
+const PHASE_GAIN = 0.5; // Fracción del residuo que se aplica a la fase en cada actualización
+const PLL_LOOP_CONSTANT = 4; // Constante de tiempo del PLL en múltiplos del intervalo de sondeo
+const FLL_GAIN = 0.25; // Peso de la estimación de frecuencia del FLL
+const FLL_MIN_INTERVAL = 256000; // ms: el FLL sólo participa con intervalos largos
+const MAX_FREQUENCY = 500; // ppm
+const AVERAGING = 4; // Promedio exponencial del jitter
+const POLL_GATE = 4; // Residuo < POLL_GATE · jitter cuenta a favor de alargar el intervalo
+const POLL_LIMIT = 4; // Votos necesarios para cambiar el intervalo de sondeo
+
+export type DisciplineState = 'unset' | 'synchronized' | 'holdover';
+
+// Referencia del modelo de reloj para una marca de tiempo local
+export interface DisciplineReference {
+  offset: number; // Offset de la referencia respecto al reloj local (ms)
+  systemPeer: EnsembleReading | null;
+  lastUpdate: number; // Marca local de la última actualización exitosa
+  jitter: number; // ms
+  frequency: number; // ppm
+}
+
+/**
+ * Lazo de disciplina del reloj del servidor
+ * Sondea el ensamble NTP en segundo plano con intervalo adaptativo, estima la deriva de
+ * frecuencia con un filtro PLL/FLL y mantiene un modelo offset(t) = offset0 + f·(t - t0)
+ * con el que se responde sin esperar una consulta upstream.
+ */
+class ClockDiscipline {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private state: DisciplineState = 'unset';
+  private anchorTime = 0; // Marca local del ancla del modelo
+  private anchorOffset = 0; // Offset del modelo en el ancla (ms)
+  private frequency = 0; // Deriva estimada (ms/ms)
+  private jitter = 0; // ms
+  private pollInterval: number;
+  private pollVotes = 0;
+  private lastMeasurement: { time: number; offset: number } | null = null;
+  private systemPeer: EnsembleReading | null = null;
+  private updates = 0;
+  private failures = 0;
+  private lastResidual = 0;
+
+  constructor(
+    private minPoll: number = getConfig().discipline.minPoll,
+    private maxPoll: number = getConfig().discipline.maxPoll
+  ) {
+    this.pollInterval = this.minPoll;
+  }
+
+  start() {
+    this.stop();
+    this.running = true;
+    logger.info('🧭 Lazo de disciplina del reloj iniciado', { minPoll: this.minPoll, maxPoll: this.maxPoll });
+    this.poll();
+  }
+
+  stop() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule() {
+    this.timer = setTimeout(() => this.poll(), this.pollInterval);
+  }
+
+  /**
+   * Consulta el ensamble y actualiza el modelo; sin referencia válida el modelo
+   * sigue extrapolando con la última frecuencia (holdover)
+   */
+  private async poll() {
+    try {
+      // El lazo necesita mediciones propias: no reutiliza lecturas de la caché.
+      // El modelo vigente sirve de referencia para detectar fuentes con la hora equivocada.
+      const selection = await queryNTPEnsemble({
+        maxAge: 0,
+        reference: this.state === 'unset' ? null : this.offsetAt()
+      });
+
+      if (selection.offset === null) {
+        this.registerFailure('Sin referencia válida del ensamble NTP');
+      } else {
+        this.systemPeer = selection.readings.find(r => r.server === selection.systemPeer) || null;
+        this.update(selection.offset, getEpochTimeMs());
+      }
+    } catch (error) {
+      this.registerFailure(error instanceof Error ? error.message : String(error));
+    } finally {
+      // Si se detuvo durante la consulta no se vuelve a programar
+      if (this.running) this.schedule();
+    }
+  }
+
+  /**
+   * Incorpora una medición de offset al modelo (filtro híbrido PLL/FLL)
+   */
+  update(measuredOffset: number, localTime: number) {
+    this.updates++;
+
+    if (this.state === 'unset') {
+      this.anchorTime = localTime;
+      this.anchorOffset = measuredOffset;
+      this.lastMeasurement = { time: localTime, offset: measuredOffset };
+      this.state = 'synchronized';
+      logger.info('🧭 Modelo de reloj inicializado', { offset: `${measuredOffset.toFixed(3)}ms` });
+      return;
+    }
+
+    const predicted = this.offsetAt(localTime);
+    const residual = measuredOffset - predicted;
+    const interval = localTime - this.lastMeasurement!.time;
+    this.lastResidual = residual;
+
+    if (Math.abs(residual) > STEP_THRESHOLD) {
+      // Salto de fase: el modelo se reinicia en la medición sin tocar la frecuencia
+      logger.warn('🧭 Salto de fase en el modelo de reloj', { residual: `${residual.toFixed(3)}ms` });
+      this.anchorOffset = measuredOffset;
+      this.pollInterval = this.minPoll;
+      this.pollVotes = 0;
+    } else {
+      // PLL: corrección de frecuencia proporcional al residuo y al intervalo
+      const loopTime = PLL_LOOP_CONSTANT * this.pollInterval;
+      let frequencyCorrection = (residual * interval) / (loopTime * loopTime);
+
+      // FLL: con intervalos largos la deriva observada domina sobre el error de fase
+      if (interval >= FLL_MIN_INTERVAL) {
+        frequencyCorrection += FLL_GAIN * (residual / interval);
+      }
+
+      const maxFrequency = MAX_FREQUENCY * 1e-6;
+      this.frequency = Math.max(-maxFrequency, Math.min(maxFrequency, this.frequency + frequencyCorrection));
+      this.anchorOffset = predicted + residual * PHASE_GAIN;
+
+      // Jitter como promedio exponencial del residuo cuadrático
+      this.jitter = Math.sqrt(this.jitter ** 2 + (residual ** 2 - this.jitter ** 2) / AVERAGING);
+      this.adjustPollInterval(residual);
+    }
+
+    this.anchorTime = localTime;
+    this.lastMeasurement = { time: localTime, offset: measuredOffset };
+    this.state = 'synchronized';
+
+    logger.debug('🧭 Modelo de reloj actualizado', {
+      residual: `${residual.toFixed(3)}ms`,
+      frequency: `${(this.frequency * 1e6).toFixed(3)}ppm`,
+      jitter: `${this.jitter.toFixed(3)}ms`,
+      pollInterval: this.pollInterval
+    });
+  }
+
+  /**
+   * Intervalo adaptativo: residuos pequeños respecto al jitter alargan el sondeo,
+   * residuos grandes lo acortan
+   */
+  private adjustPollInterval(residual: number) {
+    if (Math.abs(residual) < POLL_GATE * Math.max(this.jitter, 0.1)) {
+      this.pollVotes++;
+      if (this.pollVotes >= POLL_LIMIT) {
+        this.pollVotes = 0;
+        this.pollInterval = Math.min(this.pollInterval * 2, this.maxPoll);
+      }
+    } else {
+      this.pollVotes -= 2;
+      if (this.pollVotes <= -POLL_LIMIT) {
+        this.pollVotes = 0;
+        this.pollInterval = Math.max(this.pollInterval / 2, this.minPoll);
+      }
+    }
+  }
+
+  private registerFailure(reason: string) {
+    this.failures++;
+    if (this.state === 'synchronized') {
+      this.state = 'holdover';
+      logger.warn('🧭 Modelo de reloj en holdover', { reason });
+    }
+    // Reintentar pronto mientras no haya referencia
+    this.pollInterval = this.minPoll;
+    this.pollVotes = 0;
+  }
+
+  /**
+   * Offset del modelo para una marca de tiempo local
+   */
+  offsetAt(localTime: number = getEpochTimeMs()): number {
+    return this.anchorOffset + this.frequency * (localTime - this.anchorTime);
+  }
+
+  /**
+   * Hora "verdadera" según el modelo, o null si aún no hay referencia
+   */
+  now(): number | null {
+    if (this.state === 'unset') return null;
+    const localTime = getEpochTimeMs();
+    return localTime + this.offsetAt(localTime);
+  }
+
+  isSynchronized(): boolean {
+    return this.state !== 'unset';
+  }
+
+  getReference(localTime: number = getEpochTimeMs()): DisciplineReference | null {
+    if (this.state === 'unset') return null;
+
+    return {
+      offset: this.offsetAt(localTime),
+      systemPeer: this.systemPeer,
+      lastUpdate: this.lastMeasurement?.time ?? this.anchorTime,
+      jitter: this.jitter,
+      frequency: this.frequency * 1e6
+    };
+  }
+
+  getStatus() {
+    return {
+      state: this.state,
+      running: this.running,
+      offset: this.state === 'unset' ? null : this.offsetAt(),
+      frequency: this.frequency * 1e6, // ppm
+      jitter: this.jitter,
+      lastResidual: this.lastResidual,
+      pollInterval: this.pollInterval,
+      minPoll: this.minPoll,
+      maxPoll: this.maxPoll,
+      systemPeer: this.systemPeer?.server ?? null,
+      lastUpdate: this.lastMeasurement ? this.lastMeasurement.time : null,
+      updates: this.updates,
+      failures: this.failures
+    };
+  }
+}
+
+// Instancia singleton del lazo de disciplina
+export const clockDiscipline = new ClockDiscipline();
+
+export { ClockDiscipline };
@@ -0,0 +1,331 @@
+import { randomUUID } from 'crypto';
+import { decodeNTPTimestamp, encodeNTPTimestamp, PacketFaults } from '../utils/sntpClient';
+import { metricsRegistry, Counter } from '../utils/openMetrics';
+import { logger } from '../utils/logger';
+
+// Fallos que se pueden inyectar en las consultas a un servidor upstream
+export type FaultType = 'latency' | 'loss' | 'timeout' | 'offset' | 'drift' | 'kiss-of-death';
+
+export const FAULT_TYPES: FaultType[] = ['latency', 'loss', 'timeout', 'offset', 'drift', 'kiss-of-death'];
+
+// Códigos Kiss-o'-Death de RFC 5905 §7.4 que tienen sentido para un cliente
+export type KissCode = 'RATE' | 'DENY' | 'RSTR';
+
+export const KISS_CODES: KissCode[] = ['RATE', 'DENY', 'RSTR'];
+
+export interface FaultSpec {
+  type: FaultType;
+  server: string;
+  duration: number; // ms activo
+  startDelay?: number; // ms hasta que empieza (escenarios programados)
+  latency?: number; // ms extra por respuesta (latency)
+  jitter?: number; // ± ms aleatorios sobre la latencia (latency)
+  lossPercent?: number; // Porcentaje de respuestas descartadas (loss)
+  offset?: number; // ms sumados a T2 y T3 del servidor (offset)
+  driftPpm?: number; // Deriva del reloj del servidor desde el inicio del fallo (drift)
+  kissCode?: KissCode; // Código devuelto en el reference id (kiss-of-death)
+}
+
+export interface ActiveFault extends FaultSpec {
+  id: string;
+  scenario: string | null;
+  createdAt: number;
+  startsAt: number;
+  endsAt: number;
+  injections: number; // Consultas a las que se aplicó
+}
+
+// Resumen de un fallo que se guarda junto a los resultados de sincronización
+export interface InjectedFault {
+  id: string;
+  type: FaultType;
+  server: string;
+  scenario: string | null;
+  detail: string;
+}
+
+export interface FaultScenario {
+  name: string;
+  description: string;
+  duration: number; // Duración total de referencia (ms)
+  // Pasos según el servidor objetivo y la lista de servidores ordenada por prioridad
+  steps: (target: string, servers: string[]) => FaultSpec[];
+}
+
+// Escenarios predefinidos; `duration` al ejecutarlos escala todos los pasos
+const SCENARIOS: FaultScenario[] = [
+  {
+    name: 'timeout',
+    description: 'El servidor deja de responder: todas las consultas terminan por timeout',
+    duration: 30000,
+    steps: (target) => [{ type: 'timeout', server: target, duration: 30000 }]
+  },
+  {
+    name: 'packet-loss',
+    description: 'Se pierde el 30% de las respuestas del servidor',
+    duration: 60000,
+    steps: (target) => [{ type: 'loss', server: target, lossPercent: 30, duration: 60000 }]
+  },
+  {
+    name: 'high-latency',
+    description: 'Latencia extra de 250 ± 100 ms en cada respuesta',
+    duration: 60000,
+    steps: (target) => [{ type: 'latency', server: target, latency: 250, jitter: 100, duration: 60000 }]
+  },
+  {
+    name: 'falseticker',
+    description: 'El servidor entrega una hora adelantada 3 s',
+    duration: 60000,
+    steps: (target) => [{ type: 'offset', server: target, offset: 3000, duration: 60000 }]
+  },
+  {
+    name: 'drifting-clock',
+    description: 'El reloj del servidor deriva 2000 ppm (2 ms por segundo)',
+    duration: 120000,
+    steps: (target) => [{ type: 'drift', server: target, driftPpm: 2000, duration: 120000 }]
+  },
+  {
+    name: 'kiss-of-death',
+    description: "El servidor responde Kiss-o'-Death RATE (estrato 0)",
+    duration: 30000,
+    steps: (target) => [{ type: 'kiss-of-death', server: target, kissCode: 'RATE', duration: 30000 }]
+  },
+  {
+    name: 'cascading-failure',
+    description: 'Cae el servidor objetivo y, 20 s después, el siguiente en prioridad',
+    duration: 60000,
+    steps: (target, servers) => {
+      const next = servers.find(server => server !== target);
+      return [
+        { type: 'timeout', server: target, duration: 60000 },
+        ...(next ? [{ type: 'timeout' as const, server: next, startDelay: 20000, duration: 40000 }] : [])
+      ];
+    }
+  },
+  {
+    name: 'degraded-network',
+    description: 'Todos los servidores: 20% de pérdida y 150 ± 80 ms de latencia',
+    duration: 60000,
+    steps: (_target, servers) => servers.flatMap(server => [
+      { type: 'loss' as const, server, lossPercent: 20, duration: 60000 },
+      { type: 'latency' as const, server, latency: 150, jitter: 80, duration: 60000 }
+    ])
+  }
+];
+
+const faultInjections = metricsRegistry.register(new Counter({
+  name: 'cristian_fault_injections',
+  help: 'Consultas upstream alteradas por el inyector de fallos por servidor y tipo',
+  labelNames: ['server', 'type']
+}));
+
+function describeFault(fault: FaultSpec): string {
+  switch (fault.type) {
+    case 'latency': return `+${fault.latency ?? 0} ± ${fault.jitter ?? 0} ms de latencia`;
+    case 'loss': return `${fault.lossPercent ?? 0}% de pérdida`;
+    case 'timeout': return 'sin respuesta (timeout)';
+    case 'offset': return `hora desplazada ${fault.offset ?? 0} ms`;
+    case 'drift': return `deriva de ${fault.driftPpm ?? 0} ppm`;
+    case 'kiss-of-death': return `Kiss-o'-Death ${fault.kissCode ?? 'RATE'}`;
+  }
+}
+
+// Desplaza las marcas T2 (receive) y T3 (transmit) de una respuesta NTP
+function shiftServerTimestamps(response: Buffer, shift: number) {
+  for (const position of [32, 40]) {
+    encodeNTPTimestamp(decodeNTPTimestamp(response, position) + shift, response, position);
+  }
+}
+
+/**
+ * Inyector de fallos para los servidores upstream. Los fallos alteran el intercambio
+ * SNTP real (respuesta descartada, retenida o reescrita), así recorren los mismos
+ * caminos de timeout, validación y selección que un fallo de red verdadero.
+ */
+class FaultInjector {
+  private faults: Map<string, ActiveFault> = new Map();
+  private totalInjections = 0;
+
+  inject(spec: FaultSpec, scenario: string | null = null, now: number = Date.now()): ActiveFault {
+    const startsAt = now + (spec.startDelay ?? 0);
+    const fault: ActiveFault = {
+      ...spec,
+      id: randomUUID(),
+      scenario,
+      createdAt: now,
+      startsAt,
+      endsAt: startsAt + spec.duration,
+      injections: 0
+    };
+
+    this.faults.set(fault.id, fault);
+    logger.warn(`🧪 Fallo inyectado en ${fault.server}: ${describeFault(fault)}`, {
+      faultId: fault.id,
+      scenario,
+      startsAt: fault.startsAt,
+      duration: fault.duration
+    }, undefined, fault.server);
+    return fault;
+  }
+
+  /**
+   * Programa los pasos de un escenario; `duration` escala los retardos y duraciones
+   */
+  runScenario(name: string, target: string, servers: string[], duration?: number): ActiveFault[] {
+    const scenario = this.getScenario(name);
+    if (!scenario) {
+      throw new Error(`Escenario desconocido: ${name}`);
+    }
+
+    const scale = duration ? duration / scenario.duration : 1;
+    const now = Date.now();
+    return scenario.steps(target, servers).map(step => this.inject({
+      ...step,
+      startDelay: Math.round((step.startDelay ?? 0) * scale),
+      duration: Math.round(step.duration * scale)
+    }, scenario.name, now));
+  }
+
+  getScenario(name: string): FaultScenario | undefined {
+    return SCENARIOS.find(scenario => scenario.name === name);
+  }
+
+  listScenarios() {
+    return SCENARIOS.map(({ name, description, duration }) => ({ name, description, duration }));
+  }
+
+  remove(id: string): boolean {
+    const fault = this.faults.get(id);
+    if (!fault) return false;
+
+    this.faults.delete(id);
+    logger.info(`🧪 Fallo retirado de ${fault.server}: ${describeFault(fault)}`, { faultId: id }, undefined, fault.server);
+    return true;
+  }
+
+  /**
+   * Retira todos los fallos, o solo los de un servidor
+   */
+  clear(server?: string): number {
+    const ids = Array.from(this.faults.values())
+      .filter(fault => !server || fault.server === server)
+      .map(fault => fault.id);
+    ids.forEach(id => this.faults.delete(id));
+
+    if (ids.length > 0) {
+      logger.info(`🧪 ${ids.length} fallo(s) retirados${server ? ` de ${server}` : ''}`);
+    }
+    return ids.length;
+  }
+
+  /**
+   * Fallos vigentes o programados; los vencidos se descartan
+   */
+  list(now: number = Date.now()): ActiveFault[] {
+    for (const fault of this.faults.values()) {
+      if (fault.endsAt <= now) this.faults.delete(fault.id);
+    }
+    return Array.from(this.faults.values()).sort((a, b) => a.startsAt - b.startsAt);
+  }
+
+  getActive(server?: string, now: number = Date.now()): ActiveFault[] {
+    return this.list(now).filter(fault => fault.startsAt <= now && (!server || fault.server === server));
+  }
+
+  /**
+   * Alteraciones para la próxima consulta a un servidor. Cada fallo vigente se
+   * contabiliza solo si efectivamente modifica el intercambio.
+   */
+  planQuery(server: string, now: number = Date.now()): PacketFaults {
+    const active = this.getActive(server, now);
+    if (active.length === 0) return {};
+
+    const faults: PacketFaults = {};
+    const rewrites: ((response: Buffer) => void)[] = [];
+    const applied: ActiveFault[] = [];
+
+    for (const fault of active) {
+      switch (fault.type) {
+        case 'timeout':
+          faults.dropResponse = true;
+          applied.push(fault);
+          break;
+        case 'loss':
+          if (Math.random() * 100 < (fault.lossPercent ?? 0)) {
+            faults.dropResponse = true;
+            applied.push(fault);
+          }
+          break;
+        case 'latency': {
+          const jitter = (Math.random() * 2 - 1) * (fault.jitter ?? 0);
+          faults.responseDelay = (faults.responseDelay ?? 0) + Math.max((fault.latency ?? 0) + jitter, 0);
+          applied.push(fault);
+          break;
+        }
+        case 'offset': {
+          const shift = fault.offset ?? 0;
+          rewrites.push(response => shiftServerTimestamps(response, shift));
+          applied.push(fault);
+          break;
+        }
+        case 'drift': {
+          // ppm = µs por segundo: tras `elapsed` ms el reloj se adelantó elapsed * ppm / 1e6 ms
+          const shift = (now - fault.startsAt) * (fault.driftPpm ?? 0) / 1e6;
+          rewrites.push(response => shiftServerTimestamps(response, shift));
+          applied.push(fault);
+          break;
+        }
+        case 'kiss-of-death': {
+          const code = fault.kissCode ?? 'RATE';
+          rewrites.push(response => {
+            response.writeUInt8(0, 1); // Estrato 0
+            response.write(code.padEnd(4, '\0'), 12, 4, 'ascii');
+          });
+          applied.push(fault);
+          break;
+        }
+      }
+    }
+
+    if (rewrites.length > 0) {
+      faults.rewriteResponse = response => rewrites.forEach(rewrite => rewrite(response));
+    }
+
+    for (const fault of applied) {
+      fault.injections++;
+      this.totalInjections++;
+      faultInjections.inc({ server, type: fault.type });
+    }
+    return faults;
+  }
+
+  /**
+   * Resumen de los fallos vigentes, para registrarlo junto a un resultado de sincronización
+   */
+  summarize(now: number = Date.now()): InjectedFault[] {
+    return this.getActive(undefined, now).map(fault => ({
+      id: fault.id,
+      type: fault.type,
+      server: fault.server,
+      scenario: fault.scenario,
+      detail: describeFault(fault)
+    }));
+  }
+
+  getStatus() {
+    const now = Date.now();
+    const faults = this.list(now);
+
+    return {
+      active: faults.filter(fault => fault.startsAt <= now).length,
+      scheduled: faults.filter(fault => fault.startsAt > now).length,
+      totalInjections: this.totalInjections,
+      faults: faults.map(fault => ({ ...fault, detail: describeFault(fault), running: fault.startsAt <= now }))
+    };
+  }
+}
+
+// Instancia singleton del inyector de fallos
+export const faultInjector = new FaultInjector();
+
+export { FaultInjector };
@@ -0,0 +1,311 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { LeapIndicator } from '../utils/sntpClient';
+import type { EnsembleSelection } from '../utils/timeUtils';
+import { logger } from '../utils/logger';
+import { configManager, getConfig } from '../config/appConfig';
+
+// Segundos entre la época NTP (1900-01-01) y la época Unix (1970-01-01)
+const NTP_EPOCH_OFFSET = 2208988800;
+
+// Tabla incluida con el servidor, en formato leap-seconds.list del IERS
+const BUNDLED_FILE = path.resolve(__dirname, '../../assets/leap-seconds.list');
+
+// Ventana del smear lineal, centrada en el segundo intercalar (mediodía a mediodía UTC)
+const SMEAR_WINDOW = 24 * 60 * 60 * 1000;
+
+// Antelación con la que el responder SNTP anuncia el segundo en el leap indicator
+const ANNOUNCE_WINDOW = 24 * 60 * 60 * 1000;
+
+export type LeapPolicy = 'step' | 'smear';
+
+// Línea de datos: desde `effective` (ms epoch) rige la diferencia TAI - UTC `taiOffset` (s)
+export interface LeapSecondEntry {
+  effective: number;
+  taiOffset: number;
+}
+
+export interface LeapSecondTable {
+  source: string;
+  entries: LeapSecondEntry[];
+  updatedAt: number | null; // ms epoch (#$)
+  expiresAt: number | null; // ms epoch (#@)
+  verified: boolean | null; // Coincidencia del hash #h; null si el archivo no lo trae
+}
+
+// Próximo segundo intercalar, según la tabla o anunciado por los servidores upstream
+export interface LeapEvent {
+  at: number; // ms epoch del inicio del día siguiente al segundo intercalar
+  type: 'insert' | 'delete';
+  source: 'table' | 'upstream';
+  taiOffset: number | null; // TAI - UTC a partir del evento, si se conoce
+}
+
+const ntpSecondsToMs = (seconds: number) => (seconds - NTP_EPOCH_OFFSET) * 1000;
+
+/**
+ * Interpreta un archivo leap-seconds.list: `#$` última actualización, `#@` vencimiento,
+ * `#h` SHA-1 de los datos y líneas "segundos_NTP  TAI-UTC  # comentario"
+ */
+export function parseLeapSecondsList(text: string, source: string = 'memoria'): LeapSecondTable {
+  const entries: LeapSecondEntry[] = [];
+  let updated: string | null = null;
+  let expires: string | null = null;
+  let hash: string | null = null;
+  const hashed: string[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith('#$')) {
+      updated = line.slice(2).trim();
+    } else if (line.startsWith('#@')) {
+      expires = line.slice(2).trim();
+    } else if (line.startsWith('#h')) {
+      hash = line.slice(2).trim();
+    } else if (line && !line.startsWith('#')) {
+      const [seconds, offset] = line.split('#')[0].trim().split(/\s+/);
+      if (!/^\d+$/.test(seconds) || !/^\d+$/.test(offset)) {
+        throw new Error(`Línea inválida en ${source}: "${line}"`);
+      }
+      entries.push({ effective: ntpSecondsToMs(Number(seconds)), taiOffset: Number(offset) });
+      hashed.push(seconds, offset);
+    }
+  }
+
+  if (entries.length === 0) {
+    throw new Error(`${source} no contiene segundos intercalares`);
+  }
+
+  // El hash cubre, sin espacios, la actualización, el vencimiento y las líneas de datos.
+  // Las palabras de #h se comparan como números porque el IERS omite los ceros a la izquierda.
+  let verified: boolean | null = null;
+  if (hash) {
+    const digest = createHash('sha1').update([updated ?? '', expires ?? '', ...hashed].join('')).digest('hex');
+    const expected = hash.split(/\s+/).map(word => parseInt(word, 16));
+    verified = expected.length === 5 && expected.every((word, i) => word === parseInt(digest.slice(i * 8, i * 8 + 8), 16));
+  }
+
+  return {
+    source,
+    entries: entries.sort((a, b) => a.effective - b.effective),
+    updatedAt: updated ? ntpSecondsToMs(Number(updated)) : null,
+    expiresAt: expires ? ntpSecondsToMs(Number(expires)) : null,
+    verified
+  };
+}
+
+/**
+ * Conocimiento de segundos intercalares del servidor: tabla del IERS, leap indicator de los
+ * upstream y política con la que se entrega la hora (salto o smear lineal de 24 h).
+ * La hora de referencia es POSIX, que no cuenta los segundos intercalares: con `step` el
+ * segundo insertado se repite y con `smear` se reparte en la ventana alrededor del evento.
+ */
+class LeapSecondService {
+  private table: LeapSecondTable | null = null;
+  private loadError: string | null = null;
+  // Anuncio vigente de los upstream; `observedAt` es la primera selección que lo trajo
+  private upstreamIndicator: { value: LeapIndicator; servers: string[]; observedAt: number } | null = null;
+
+  load(file: string = getConfig().leap.file ?? BUNDLED_FILE): LeapSecondTable | null {
+    try {
+      this.table = parseLeapSecondsList(fs.readFileSync(file, 'utf8'), file);
+      this.loadError = null;
+
+      const { entries, expiresAt, verified } = this.table;
+      logger.info('📅 Tabla de segundos intercalares cargada', {
+        source: file,
+        entries: entries.length,
+        taiOffset: entries[entries.length - 1].taiOffset,
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null
+      });
+      if (verified === false) {
+        logger.warn('📅 El hash de la tabla de segundos intercalares no coincide', { source: file });
+      }
+      if (expiresAt !== null && expiresAt < Date.now()) {
+        logger.warn('📅 La tabla de segundos intercalares está vencida: puede faltar un evento anunciado', {
+          source: file,
+          expiresAt: new Date(expiresAt).toISOString()
+        });
+      }
+    } catch (error) {
+      // Se conserva la tabla anterior; sin tabla solo cuenta el leap indicator upstream
+      this.loadError = error instanceof Error ? error.message : String(error);
+      logger.error('❌ No se pudo cargar la tabla de segundos intercalares', { source: file, error: this.loadError });
+    }
+    return this.table;
+  }
+
+  getPolicy(): LeapPolicy {
+    return getConfig().leap.policy;
+  }
+
+  /**
+   * Registra el leap indicator de los sobrevivientes de una selección; cuenta el anuncio
+   * de la mayoría, para que un solo servidor no pueda provocar un salto
+   */
+  observeUpstream(selection: EnsembleSelection) {
+    const survivors = selection.readings.filter(r => r.status === 'survivor' && r.upstream);
+    if (survivors.length === 0) return;
+
+    // Un anuncio cuyo smear ya terminó no se arrastra: un nuevo LI es un evento nuevo
+    const announced = this.getAnnounced();
+    if (announced && announced.at + SMEAR_WINDOW / 2 <= selection.timestamp) {
+      this.upstreamIndicator = null;
+    }
+
+    for (const value of [1, 2] as LeapIndicator[]) {
+      const servers = survivors.filter(r => r.upstream!.leapIndicator === value).map(r => r.server);
+      if (servers.length * 2 > survivors.length) {
+        if (this.upstreamIndicator?.value !== value) {
+          logger.warn(`📅 Los servidores upstream anuncian un segundo intercalar (${value === 1 ? 'inserción' : 'eliminación'})`, {
+            servers,
+            at: new Date(this.endOfMonth(selection.timestamp)).toISOString()
+          });
+          this.upstreamIndicator = { value, servers, observedAt: selection.timestamp };
+        } else {
+          this.upstreamIndicator.servers = servers;
+        }
+        return;
+      }
+    }
+
+    // Pasado el evento los upstream dejan de anunciarlo, pero el smear sigue hasta cerrar
+    // su ventana; solo un anuncio retirado antes del evento se descarta
+    const pending = this.getAnnounced();
+    if (pending && pending.at <= selection.timestamp) return;
+    this.upstreamIndicator = null;
+  }
+
+  /**
+   * Próximo segundo intercalar: el de la tabla o, si ésta no lo trae, el que anuncian
+   * los upstream para el final del mes en curso
+   */
+  getUpcoming(now: number = Date.now()): LeapEvent | null {
+    const entries = this.table?.entries ?? [];
+    const index = entries.findIndex(entry => entry.effective > now);
+
+    if (index > 0) {
+      const step = entries[index].taiOffset - entries[index - 1].taiOffset;
+      return {
+        at: entries[index].effective,
+        type: step > 0 ? 'insert' : 'delete',
+        source: 'table',
+        taiOffset: entries[index].taiOffset
+      };
+    }
+
+    const announced = this.getAnnounced();
+    return announced && announced.at > now ? announced : null;
+  }
+
+  /**
+   * Último evento ya ocurrido, para terminar un smear recién pasado el segundo
+   */
+  private getPrevious(now: number): LeapEvent | null {
+    const announced = this.getAnnounced();
+    if (announced && announced.at <= now) return announced;
+
+    const entries = this.table?.entries ?? [];
+    const index = entries.findLastIndex(entry => entry.effective <= now);
+    if (index < 1) return null;
+
+    return {
+      at: entries[index].effective,
+      type: entries[index].taiOffset > entries[index - 1].taiOffset ? 'insert' : 'delete',
+      source: 'table',
+      taiOffset: entries[index].taiOffset
+    };
+  }
+
+  /**
+   * Evento que anuncian los upstream: al final del mes en que se observó el leap indicator
+   */
+  private getAnnounced(): LeapEvent | null {
+    if (!this.upstreamIndicator) return null;
+
+    const at = this.endOfMonth(this.upstreamIndicator.observedAt);
+    const insert = this.upstreamIndicator.value === 1;
+    const current = this.getTaiOffset(at - 1);
+    return {
+      at,
+      type: insert ? 'insert' : 'delete',
+      source: 'upstream',
+      taiOffset: current === null ? null : current + (insert ? 1 : -1)
+    };
+  }
+
+  getTaiOffset(now: number = Date.now()): number | null {
+    const entries = this.table?.entries ?? [];
+    const current = entries.filter(entry => entry.effective <= now).pop();
+    return current?.taiOffset ?? null;
+  }
+
+  /**
+   * Corrección de smear (ms) para una hora POSIX: antes del evento el reloj atrasa (inserción)
+   * o adelanta (eliminación) linealmente hasta medio segundo, y después devuelve lo que resta
+   */
+  smearCorrection(time: number): number {
+    if (this.getPolicy() !== 'smear') return 0;
+
+    const event = [this.getUpcoming(time), this.getPrevious(time)]
+      .find(candidate => candidate && Math.abs(time - candidate.at) < SMEAR_WINDOW / 2);
+    if (!event) return 0;
+
+    const sign = event.type === 'insert' ? 1 : -1;
+    const progress = (time - (event.at - SMEAR_WINDOW / 2)) / SMEAR_WINDOW;
+    return time < event.at ? -sign * 1000 * progress : sign * 1000 * (1 - progress);
+  }
+
+  /**
+   * Hora entregada a los clientes según la política vigente
+   */
+  apply(time: number): number {
+    return time + this.smearCorrection(time);
+  }
+
+  /**
+   * Leap indicator a anunciar por SNTP: el evento de las próximas 24 h, o el de los upstream
+   */
+  getLeapIndicator(now: number = Date.now()): LeapIndicator {
+    const event = this.getUpcoming(now);
+    if (!event || event.at - now > ANNOUNCE_WINDOW) return 0;
+    return event.type === 'insert' ? 1 : 2;
+  }
+
+  private endOfMonth(time: number): number {
+    const date = new Date(time);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  }
+
+  getStatus(now: number = Date.now()) {
+    const upcoming = this.getUpcoming(now);
+
+    return {
+      policy: this.getPolicy(),
+      taiOffset: this.getTaiOffset(now),
+      smearCorrection: this.smearCorrection(now),
+      upcoming: upcoming ? { ...upcoming, inMs: upcoming.at - now } : null,
+      upstreamIndicator: this.upstreamIndicator,
+      table: this.table ? {
+        source: this.table.source,
+        entries: this.table.entries.length,
+        updatedAt: this.table.updatedAt,
+        expiresAt: this.table.expiresAt,
+        expired: this.table.expiresAt !== null && this.table.expiresAt < now,
+        verified: this.table.verified
+      } : null,
+      error: this.loadError
+    };
+  }
+}
+
+// Instancia singleton del servicio de segundos intercalares
+export const leapSeconds = new LeapSecondService();
+
+// Un cambio de archivo en la recarga de configuración vuelve a leer la tabla
+configManager.onChange((_config, changed) => {
+  if (changed.includes('leap.file')) leapSeconds.load();
+});
+
+export { LeapSecondService };
@@ -0,0 +1,113 @@
+import { logger } from '../utils/logger';
+import { ntpMetricsManager, ntpBreakers, getBreakerState } from '../config/ntpConfig';
+import { clockDiscipline } from './clockDiscipline';
+
+// Estados de la última selección con los que un servidor no aporta referencia
+const UNUSABLE_STATUSES = ['unreachable', 'falseticker'];
+
+export interface ReadinessStatus {
+  ready: boolean;
+  reasons: string[];
+  checks: {
+    shuttingDown: boolean;
+    clock: { synchronized: boolean; state: string };
+    upstreams: { usable: string[]; total: number };
+    inFlightSyncs: number;
+  };
+}
+
+/**
+ * Ciclo de vida del proceso: sincronizaciones en curso, apagado ordenado y
+ * readiness (el servidor puede entregar la hora a los clientes)
+ */
+class Lifecycle {
+  private shuttingDown = false;
+  private inFlight = 0;
+  private drainWaiters: (() => void)[] = [];
+
+  beginShutdown() {
+    this.shuttingDown = true;
+  }
+
+  isShuttingDown(): boolean {
+    return this.shuttingDown;
+  }
+
+  syncStarted() {
+    this.inFlight++;
+  }
+
+  syncFinished() {
+    this.inFlight = Math.max(this.inFlight - 1, 0);
+    if (this.inFlight === 0) {
+      this.drainWaiters.splice(0).forEach(resolve => resolve());
+    }
+  }
+
+  getInFlight(): number {
+    return this.inFlight;
+  }
+
+  /**
+   * Espera a que terminen las sincronizaciones en curso; false si vence el plazo antes
+   */
+  drain(timeout: number): Promise<boolean> {
+    if (this.inFlight === 0) return Promise.resolve(true);
+
+    logger.info(`⏳ Esperando ${this.inFlight} sincronización(es) en curso`, { timeout });
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.drainWaiters = this.drainWaiters.filter(waiter => waiter !== done);
+        resolve(false);
+      }, timeout);
+      const done = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      this.drainWaiters.push(done);
+    });
+  }
+
+  /**
+   * Servidores upstream que pueden aportar referencia: breaker no abierto y, si ya
+   * hubo una selección, ni inalcanzable ni falseticker en ella
+   */
+  getUsableUpstreams(): string[] {
+    const statuses = new Map(
+      (ntpMetricsManager.getLastSelection()?.readings || []).map(reading => [reading.server, reading.status])
+    );
+
+    return ntpMetricsManager.getServers()
+      .filter(({ host }) => {
+        const breaker = ntpBreakers.get(host);
+        return breaker && getBreakerState(breaker) !== 'open' && !UNUSABLE_STATUSES.includes(statuses.get(host) ?? '');
+      })
+      .map(({ host }) => host);
+  }
+
+  getReadiness(): ReadinessStatus {
+    const usable = this.getUsableUpstreams();
+    const synchronized = clockDiscipline.isSynchronized();
+    const reasons: string[] = [];
+
+    if (this.shuttingDown) reasons.push('El servidor se está apagando');
+    if (usable.length === 0) reasons.push('Ningún servidor NTP upstream utilizable');
+    if (!synchronized) reasons.push('El modelo de reloj aún no está sincronizado');
+
+    return {
+      ready: reasons.length === 0,
+      reasons,
+      checks: {
+        shuttingDown: this.shuttingDown,
+        clock: { synchronized, state: clockDiscipline.getStatus().state },
+        upstreams: { usable, total: ntpMetricsManager.getServers().length },
+        inFlightSyncs: this.inFlight
+      }
+    };
+  }
+}
+
+// Instancia singleton del ciclo de vida del proceso
+export const lifecycle = new Lifecycle();
+
+export { Lifecycle };
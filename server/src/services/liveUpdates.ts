@@ -0,0 +1,163 @@
+import type { Server, Socket } from 'socket.io';
+import { ntpMetricsManager, BreakerTransition } from '../config/ntpConfig';
+import { logger, LogEntry, LogLevel } from '../utils/logger';
+import type { SyncResult } from '../utils/timeUtils';
+import { hasRole, Role, AuthContext } from '../config/auth';
+import { getConfig } from '../config/appConfig';
+
+export type LiveTopic = 'health' | 'time' | 'logs' | 'metrics' | 'syncs';
+
+export const LIVE_TOPICS: LiveTopic[] = ['health', 'time', 'logs', 'metrics', 'syncs'];
+
+// Rol mínimo para suscribirse a cada tema, igual que los endpoints HTTP equivalentes
+const TOPIC_ROLES: Record<LiveTopic, Role> = {
+  health: 'viewer',
+  time: 'viewer',
+  syncs: 'viewer',
+  logs: 'operator',
+  metrics: 'operator'
+};
+
+// Niveles de log de mayor a menor severidad
+const LOG_LEVEL_ORDER: LogLevel[] = [LogLevel.ERROR, LogLevel.WARN, LogLevel.INFO, LogLevel.DEBUG, LogLevel.TRACE];
+
+// Fuentes de los estados completos que se publican periódicamente
+export interface LiveProviders {
+  health: () => unknown;
+  time: () => unknown;
+  metrics: () => unknown;
+}
+
+const room = (topic: LiveTopic) => `live:${topic}`;
+
+/**
+ * Canal de actualizaciones en vivo sobre socket.io
+ * Cada socket se suscribe a los temas que le interesan (rooms `live:<tema>`); los estados
+ * periódicos solo se calculan si hay suscriptores y los eventos (logs, transiciones de
+ * circuit breaker, sincronizaciones) se publican en cuanto ocurren.
+ */
+class LiveUpdates {
+  private io: Server | null = null;
+  private providers: LiveProviders | null = null;
+  private timers: NodeJS.Timeout[] = [];
+  private unsubscribers: (() => void)[] = [];
+  private published = 0;
+
+  constructor(
+    private healthInterval: number = getConfig().live.healthInterval,
+    private timeInterval: number = getConfig().live.timeInterval,
+    private logLevel: LogLevel = getConfig().live.logLevel as LogLevel
+  ) {}
+
+  start(io: Server, providers: LiveProviders) {
+    this.stop();
+    this.io = io;
+    this.providers = providers;
+
+    io.on('connection', (socket) => this.handleConnection(socket));
+
+    this.timers.push(
+      setInterval(() => this.publishState('health'), this.healthInterval),
+      setInterval(() => this.publishState('metrics'), this.healthInterval),
+      setInterval(() => this.publishState('time'), this.timeInterval)
+    );
+
+    const maxLevel = LOG_LEVEL_ORDER.indexOf(this.logLevel);
+    this.unsubscribers.push(
+      logger.onEntry((entry: LogEntry) => {
+        if (LOG_LEVEL_ORDER.indexOf(entry.level) <= maxLevel) {
+          this.publish('logs', 'live:log', entry);
+        }
+      }),
+      // Una transición cambia el estado de salud: se publica también el estado completo
+      ntpMetricsManager.onBreakerTransition((transition: BreakerTransition) => {
+        this.publish('health', 'live:breaker', transition);
+        this.publishState('health');
+      })
+    );
+
+    logger.info('📢 Canal en vivo iniciado', {
+      healthInterval: this.healthInterval,
+      timeInterval: this.timeInterval,
+      logLevel: this.logLevel
+    });
+  }
+
+  stop() {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  private handleConnection(socket: Socket) {
+    socket.on('live:subscribe', (topics: unknown, ack?: (response: { topics: LiveTopic[] }) => void) => {
+      const auth: AuthContext | undefined = socket.data.auth;
+      // Los temas sin permiso se omiten; el ack informa cuáles se aceptaron
+      const requested = (Array.isArray(topics) ? topics : [])
+        .filter((topic): topic is LiveTopic => LIVE_TOPICS.includes(topic))
+        .filter(topic => hasRole(auth?.role ?? null, TOPIC_ROLES[topic]));
+
+      socket.join(requested.map(room));
+
+      // Estado inicial para no esperar al próximo intervalo
+      requested
+        .filter((topic): topic is keyof LiveProviders => topic in (this.providers || {}))
+        .forEach(topic => socket.emit(`live:${topic}`, this.providers![topic]()));
+
+      if (typeof ack === 'function') ack({ topics: requested });
+    });
+
+    socket.on('live:unsubscribe', (topics: unknown) => {
+      (Array.isArray(topics) ? topics : [])
+        .filter((topic): topic is LiveTopic => LIVE_TOPICS.includes(topic))
+        .forEach(topic => socket.leave(room(topic)));
+    });
+  }
+
+  /**
+   * Publica un resultado de sincronización para los demás clientes
+   */
+  publishSync(clientId: string, result: SyncResult) {
+    this.publish('syncs', 'live:sync', { clientId, result });
+  }
+
+  private publishState(topic: keyof LiveProviders) {
+    if (!this.providers || !this.hasSubscribers(topic)) return;
+
+    try {
+      this.publish(topic, `live:${topic}`, this.providers[topic]());
+    } catch (error) {
+      // Sin logger: un error aquí no debe generar más tráfico en el canal de logs
+      console.error(`❌ Error publicando ${topic} en vivo:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private publish(topic: LiveTopic, event: string, payload: unknown) {
+    if (!this.io || !this.hasSubscribers(topic)) return;
+    this.io.to(room(topic)).emit(event, payload);
+    this.published++;
+  }
+
+  private hasSubscribers(topic: LiveTopic): boolean {
+    return (this.io?.sockets.adapter.rooms.get(room(topic))?.size ?? 0) > 0;
+  }
+
+  getStatus() {
+    return {
+      running: this.io !== null && this.timers.length > 0,
+      subscribers: Object.fromEntries(
+        LIVE_TOPICS.map(topic => [topic, this.io?.sockets.adapter.rooms.get(room(topic))?.size ?? 0])
+      ),
+      published: this.published,
+      healthInterval: this.healthInterval,
+      timeInterval: this.timeInterval,
+      logLevel: this.logLevel
+    };
+  }
+}
+
+// Instancia singleton del canal en vivo
+export const liveUpdates = new LiveUpdates();
+
+export { LiveUpdates };
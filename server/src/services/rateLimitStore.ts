@@ -0,0 +1,166 @@
+import { metricsRegistry, Counter } from '../utils/openMetrics';
+import { getConfig } from '../config/appConfig';
+
+// Clases de ruta con presupuesto propio: cada sync dispara una consulta NTP real
+export type RateLimitClass = 'sync' | 'read' | 'admin';
+
+export const RATE_LIMIT_CLASSES: RateLimitClass[] = ['sync', 'read', 'admin'];
+
+// Token bucket: `burst` requests seguidas, recargando `perMinute` por minuto
+export interface RateLimitPolicy {
+  burst: number;
+  perMinute: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number; // Hasta recuperar el burst completo
+  retryAfterSeconds: number; // Hasta el próximo token (0 si se permitió)
+  policy: RateLimitPolicy;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Clientes que más rechazos acumularon, para /api/time/metrics
+interface LimitedClient {
+  key: string;
+  routeClass: RateLimitClass;
+  rejected: number;
+  lastRejectedAt: number;
+}
+
+// Por encima de esta cantidad de buckets se descartan los que ya se recargaron por completo
+const MAX_TRACKED_BUCKETS = 10000;
+
+// Si aún no hay lugar se desalojan los menos recientes hasta liberar esta fracción
+const EVICTION_FRACTION = 0.1;
+
+// Cantidad de clientes limitados que se informan en las métricas
+const MAX_REPORTED_CLIENTS = 20;
+
+const rateLimitRequests = metricsRegistry.register(new Counter({
+  name: 'cristian_rate_limit_requests',
+  help: 'Requests evaluadas por el rate limiter por clase de ruta y resultado',
+  labelNames: ['class', 'result']
+}));
+
+/**
+ * Almacén de token buckets por clase de ruta y cliente (x-client-id o IP)
+ */
+class RateLimitStore {
+  private buckets: Map<string, Bucket> = new Map();
+  private allowed: Record<RateLimitClass, number> = { sync: 0, read: 0, admin: 0 };
+  private rejected: Record<RateLimitClass, number> = { sync: 0, read: 0, admin: 0 };
+  private limitedClients: Map<string, LimitedClient> = new Map();
+
+  // Políticas leídas en cada request; al reducir un burst los buckets se recortan al consumir
+  get enabled(): boolean {
+    return getConfig().rateLimit.enabled;
+  }
+
+  get policies(): Record<RateLimitClass, RateLimitPolicy> {
+    const { sync, read, admin } = getConfig().rateLimit;
+    return { sync, read, admin };
+  }
+
+  /**
+   * Consume un token de los buckets de la clase de ruta (uno por clave) solo si todos
+   * tienen uno disponible; la decisión informa el bucket más restrictivo
+   */
+  take(routeClass: RateLimitClass, keys: string | string[], now: number = Date.now()): RateLimitDecision {
+    const policy = this.policies[routeClass];
+    const refillPerMs = policy.perMinute / 60000;
+
+    const entries = Array.from(new Set([keys].flat())).map(key => {
+      const bucketKey = `${routeClass}:${key}`;
+      const bucket = this.buckets.get(bucketKey) ?? { tokens: policy.burst, updatedAt: now };
+      bucket.tokens = Math.min(policy.burst, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+      bucket.updatedAt = now;
+
+      if (!this.buckets.has(bucketKey)) {
+        if (this.buckets.size >= MAX_TRACKED_BUCKETS) this.prune(now);
+        this.buckets.set(bucketKey, bucket);
+      }
+      return { key, bucketKey, bucket };
+    });
+
+    const tightest = entries.reduce((a, b) => (b.bucket.tokens < a.bucket.tokens ? b : a));
+    const allowed = tightest.bucket.tokens >= 1;
+
+    if (allowed) {
+      entries.forEach(({ bucket }) => { bucket.tokens -= 1; });
+      this.allowed[routeClass]++;
+    } else {
+      this.rejected[routeClass]++;
+      this.recordRejection(tightest.bucketKey, routeClass, tightest.key, now);
+    }
+    rateLimitRequests.inc({ class: routeClass, result: allowed ? 'allowed' : 'rejected' });
+
+    const { bucket } = tightest;
+    return {
+      allowed,
+      limit: policy.burst,
+      remaining: Math.floor(bucket.tokens),
+      resetSeconds: Math.ceil((policy.burst - bucket.tokens) / refillPerMs / 1000),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((1 - bucket.tokens) / refillPerMs / 1000),
+      policy
+    };
+  }
+
+  private recordRejection(bucketKey: string, routeClass: RateLimitClass, key: string, now: number) {
+    const client = this.limitedClients.get(bucketKey) ?? { key, routeClass, rejected: 0, lastRejectedAt: now };
+    client.rejected++;
+    client.lastRejectedAt = now;
+    this.limitedClients.set(bucketKey, client);
+
+    // Se conservan solo los más limitados
+    if (this.limitedClients.size > MAX_REPORTED_CLIENTS * 2) {
+      const keep = Array.from(this.limitedClients.entries())
+        .sort(([, a], [, b]) => b.rejected - a.rejected)
+        .slice(0, MAX_REPORTED_CLIENTS);
+      this.limitedClients = new Map(keep);
+    }
+  }
+
+  // Un bucket recargado por completo equivale a uno nuevo: se puede olvidar. Si con
+  // muchas claves activas no alcanza, se olvidan los usados hace más tiempo
+  private prune(now: number) {
+    for (const [bucketKey, bucket] of this.buckets) {
+      const policy = this.policies[bucketKey.split(':')[0] as RateLimitClass];
+      if (bucket.tokens + (now - bucket.updatedAt) * policy.perMinute / 60000 >= policy.burst) {
+        this.buckets.delete(bucketKey);
+      }
+    }
+
+    if (this.buckets.size < MAX_TRACKED_BUCKETS) return;
+
+    const target = Math.floor(MAX_TRACKED_BUCKETS * (1 - EVICTION_FRACTION));
+    Array.from(this.buckets.entries())
+      .sort(([, a], [, b]) => a.updatedAt - b.updatedAt)
+      .slice(0, this.buckets.size - target)
+      .forEach(([bucketKey]) => this.buckets.delete(bucketKey));
+  }
+
+  getStatus() {
+    return {
+      enabled: this.enabled,
+      policies: this.policies,
+      trackedBuckets: this.buckets.size,
+      allowed: { ...this.allowed },
+      rejected: { ...this.rejected },
+      limitedClients: Array.from(this.limitedClients.values())
+        .sort((a, b) => b.rejected - a.rejected)
+        .slice(0, MAX_REPORTED_CLIENTS)
+    };
+  }
+}
+
+// Instancia singleton del almacén de rate limiting
+export const rateLimitStore = new RateLimitStore();
+
+export { RateLimitStore };
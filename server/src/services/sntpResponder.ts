@@ -0,0 +1,205 @@
+import dgram from 'dgram';
+import { createHash } from 'crypto';
+import { isIPv4 } from 'net';
+import { clockDiscipline } from './clockDiscipline';
+import { leapSeconds } from './leapSeconds';
+import { getEpochTimeMs } from '../utils/timeUtils';
+import {
+  NTP_PACKET_SIZE,
+  NTP_MODE_CLIENT,
+  NTP_MODE_SERVER,
+  encodeNTPTimestamp,
+  encodeNTPShort
+} from '../utils/sntpClient';
+import { logger } from '../utils/logger';
+import { getConfig } from '../config/appConfig';
+
+// Estrato que indica reloj no sincronizado (RFC 5905)
+const UNSYNCHRONIZED_STRATUM = 16;
+
+// Crecimiento de la dispersión desde la última actualización (15 ppm, RFC 5905 PHI)
+const DISPERSION_RATE = 15e-6;
+
+// Precisión anunciada del reloj local: 2^-20 s (~1 µs, performance.now())
+const LOCAL_PRECISION_LOG2 = -20;
+
+// Cantidad máxima de clientes distintos que se recuerdan en las métricas
+const MAX_TRACKED_CLIENTS = 256;
+
+// Estadísticas de un cliente SNTP
+interface SNTPClientStats {
+  address: string;
+  requests: number;
+  lastRequest: number;
+  version: number;
+}
+
+/**
+ * Responder SNTP local
+ * Atiende solicitudes SNTP por UDP usando como referencia el modelo del lazo de
+ * disciplina, con estrato = estrato del system peer + 1.
+ */
+class SNTPResponder {
+  private socket: dgram.Socket | null = null;
+  private requests = 0;
+  private responses = 0;
+  private dropped = 0;
+  private startedAt: number | null = null;
+  private clients: Map<string, SNTPClientStats> = new Map();
+
+  constructor(
+    private port: number = getConfig().sntp.port,
+    private host: string = getConfig().sntp.host,
+    private enabled: boolean = getConfig().sntp.enabled
+  ) {}
+
+  start() {
+    if (!this.enabled || this.socket) return;
+
+    this.socket = dgram.createSocket('udp4');
+    this.socket.on('message', (message, remote) => this.handleRequest(message, remote));
+    this.socket.on('error', (error) => {
+      logger.error('❌ Error en el responder SNTP', { error: error.message, port: this.port });
+      this.stop();
+    });
+
+    this.socket.bind(this.port, this.host, () => {
+      this.startedAt = Date.now();
+      logger.info('📡 Responder SNTP escuchando', { host: this.host, port: this.port });
+    });
+  }
+
+  stop() {
+    if (this.socket) {
+      this.socket.close();
+      this.socket = null;
+      this.startedAt = null;
+    }
+  }
+
+  private handleRequest(message: Buffer, remote: dgram.RemoteInfo) {
+    const receiveTime = getEpochTimeMs();
+    this.requests++;
+
+    if (message.length < NTP_PACKET_SIZE) {
+      this.dropped++;
+      return;
+    }
+
+    const flags = message.readUInt8(0);
+    const version = (flags >> 3) & 0x07;
+    const mode = flags & 0x07;
+
+    // Solo se atienden solicitudes en modo cliente de versiones 1 a 4
+    if (mode !== NTP_MODE_CLIENT || version < 1 || version > 4) {
+      this.dropped++;
+      return;
+    }
+
+    this.trackClient(remote.address, version);
+
+    const response = this.buildResponse(message, version, receiveTime);
+    this.socket?.send(response, remote.port, remote.address, (error) => {
+      if (error) {
+        this.dropped++;
+        logger.debug('⚠️ No se pudo enviar respuesta SNTP', { client: remote.address, error: error.message });
+        return;
+      }
+      this.responses++;
+    });
+  }
+
+  /**
+   * Construye la respuesta disciplinada por el modelo de reloj.
+   * Sin referencia válida se responde LI = 3 y estrato 16 (no sincronizado).
+   * El leap indicator anuncia el segundo intercalar de la tabla o, si no, repite el del system peer.
+   */
+  private buildResponse(request: Buffer, version: number, receiveTime: number): Buffer {
+    const reference = clockDiscipline.getReference(receiveTime);
+    const systemPeer = reference?.systemPeer;
+    const synchronized = reference !== null && systemPeer?.upstream !== undefined;
+
+    const response = Buffer.alloc(NTP_PACKET_SIZE);
+    const offset = synchronized ? reference.offset : 0;
+    const leapIndicator = synchronized
+      ? leapSeconds.getLeapIndicator(receiveTime + offset) || systemPeer.upstream.leapIndicator
+      : 3;
+    const stratum = synchronized
+      ? Math.min(systemPeer.upstream.stratum + 1, UNSYNCHRONIZED_STRATUM)
+      : UNSYNCHRONIZED_STRATUM;
+
+    response.writeUInt8((leapIndicator << 6) | (version << 3) | NTP_MODE_SERVER, 0);
+    response.writeUInt8(stratum, 1);
+    response.writeInt8(request.readInt8(2), 2); // poll: se devuelve el del cliente
+    response.writeInt8(LOCAL_PRECISION_LOG2, 3);
+
+    if (synchronized) {
+      const { upstream } = systemPeer;
+      const age = (receiveTime - reference.lastUpdate) / 1000;
+
+      encodeNTPShort(upstream.rootDelay + systemPeer.delay, response, 4);
+      encodeNTPShort(upstream.rootDispersion + reference.jitter + age * DISPERSION_RATE * 1000, response, 8);
+      this.referenceIdFor(systemPeer.server).copy(response, 12);
+      encodeNTPTimestamp(reference.lastUpdate + offset, response, 16);
+    }
+
+    // Originate = transmit de la solicitud (sin reinterpretar los bytes)
+    request.copy(response, 24, 40, 48);
+    encodeNTPTimestamp(receiveTime + offset, response, 32);
+    encodeNTPTimestamp(getEpochTimeMs() + offset, response, 40);
+
+    return response;
+  }
+
+  /**
+   * Reference ID del system peer: su IPv4, o los primeros 4 bytes del MD5 del nombre
+   */
+  private referenceIdFor(server: string): Buffer {
+    if (isIPv4(server)) {
+      return Buffer.from(server.split('.').map(Number));
+    }
+    return createHash('md5').update(server).digest().subarray(0, 4);
+  }
+
+  private trackClient(address: string, version: number) {
+    const client = this.clients.get(address);
+    if (client) {
+      client.requests++;
+      client.lastRequest = Date.now();
+      client.version = version;
+      return;
+    }
+
+    // Descartar el cliente más antiguo si se alcanza el límite
+    if (this.clients.size >= MAX_TRACKED_CLIENTS) {
+      const oldest = Array.from(this.clients.values()).sort((a, b) => a.lastRequest - b.lastRequest)[0];
+      this.clients.delete(oldest.address);
+    }
+    this.clients.set(address, { address, requests: 1, lastRequest: Date.now(), version });
+  }
+
+  getStatus() {
+    const reference = clockDiscipline.getReference();
+    const upstream = reference?.systemPeer?.upstream;
+
+    return {
+      enabled: this.enabled,
+      listening: this.socket !== null && this.startedAt !== null,
+      host: this.host,
+      port: this.port,
+      stratum: upstream
+        ? Math.min(upstream.stratum + 1, UNSYNCHRONIZED_STRATUM)
+        : UNSYNCHRONIZED_STRATUM,
+      referenceOffset: reference?.offset ?? null,
+      requests: this.requests,
+      responses: this.responses,
+      dropped: this.dropped,
+      clients: Array.from(this.clients.values()).sort((a, b) => b.lastRequest - a.lastRequest)
+    };
+  }
+}
+
+// Instancia singleton del responder
+export const sntpResponder = new SNTPResponder();
+
+export { SNTPResponder };
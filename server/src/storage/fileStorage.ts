@@ -0,0 +1,239 @@
+import fs from 'fs';
+import path from 'path';
+import type { SyncResult } from '../utils/timeUtils';
+import type { LogEntry } from '../utils/logger';
+import type { StorageDriver, RetentionPolicy, MetricSnapshot, ClientRecord } from './types';
+import { MemoryStorage } from './memoryStorage';
+
+type Collection = 'syncResults' | 'logs' | 'metricSnapshots' | 'clients';
+
+// Línea del archivo de clientes: el registro completo o la baja de un cliente
+type ClientLine = ClientRecord | { id: string; removed: true };
+
+// Un archivo JSON Lines por colección dentro del directorio de datos
+const FILES: Record<Collection, string> = {
+  syncResults: 'sync-results.jsonl',
+  logs: 'logs.jsonl',
+  metricSnapshots: 'metric-snapshots.jsonl',
+  clients: 'clients.jsonl'
+};
+
+/**
+ * Almacenamiento embebido en archivos JSON Lines.
+ * Los registros se mantienen en memoria para las lecturas, se agregan al archivo en
+ * lotes cada flushInterval y en cada pasada de mantenimiento se reescriben los archivos
+ * aplicando la política de retención.
+ */
+class FileStorage extends MemoryStorage {
+  readonly driver: StorageDriver = 'file';
+
+  private pending: Record<Collection, string[]> = { syncResults: [], logs: [], metricSnapshots: [], clients: [] };
+  private flushTimer: NodeJS.Timeout | null = null;
+  private initialized = false;
+  private lastFlush: number | null = null;
+  private lastCompaction: number | null = null;
+  private corruptLines = 0;
+  private writeErrors = 0;
+
+  constructor(
+    private directory: string,
+    retention: RetentionPolicy,
+    private flushInterval: number = 1000,
+    maintenanceInterval?: number
+  ) {
+    super(retention, maintenanceInterval);
+  }
+
+  /**
+   * Carga los archivos existentes. Lo registrado antes de init (p. ej. logs de arranque)
+   * se conserva y se agrega a continuación de lo cargado.
+   */
+  init() {
+    if (this.initialized) return;
+
+    fs.mkdirSync(this.directory, { recursive: true });
+
+    const earlySyncResults = this.syncResults;
+    const earlyLogs = this.logs;
+    const earlySnapshots = this.metricSnapshots;
+    const earlyClients = this.clients;
+    this.syncResults = new Map();
+    this.logs = [];
+    this.metricSnapshots = [];
+    this.clients = new Map();
+
+    for (const record of this.readRecords<{ clientId: string; result: SyncResult }>('syncResults')) {
+      super.appendSyncResult(record.clientId, record.result);
+    }
+    this.readRecords<LogEntry>('logs').forEach(entry => super.appendLog(entry));
+    this.readRecords<MetricSnapshot>('metricSnapshots').forEach(snapshot => super.appendMetricSnapshot(snapshot));
+    // Cada línea reemplaza al registro anterior del mismo cliente
+    for (const line of this.readRecords<ClientLine>('clients')) {
+      if ('removed' in line) super.removeClient(line.id);
+      else super.saveClient(line);
+    }
+
+    for (const [clientId, results] of earlySyncResults.entries()) {
+      results.forEach(result => super.appendSyncResult(clientId, result));
+    }
+    // Los logs de arranque se renumeran a continuación de los cargados
+    earlyLogs.forEach(entry => super.appendLog({ ...entry, id: undefined }));
+    earlySnapshots.forEach(snapshot => super.appendMetricSnapshot(snapshot));
+    earlyClients.forEach(client => super.saveClient(client));
+
+    this.initialized = true;
+    this.compact();
+
+    this.flushTimer = setInterval(() => this.flush(), this.flushInterval);
+    this.flushTimer.unref();
+    super.init();
+
+    console.info(`💾 Almacenamiento en ${this.directory}: ${this.countSyncResults()} sincronizaciones, ${this.logs.length} logs, ${this.metricSnapshots.length} instantáneas, ${this.clients.size} clientes`);
+  }
+
+  close() {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.flush();
+    super.close();
+  }
+
+  protected maintenance() {
+    this.compact();
+  }
+
+  appendSyncResult(clientId: string, result: SyncResult) {
+    super.appendSyncResult(clientId, result);
+    this.enqueue('syncResults', { clientId, result });
+  }
+
+  appendLog(entry: LogEntry): LogEntry {
+    const stored = super.appendLog(entry);
+    this.enqueue('logs', stored);
+    return stored;
+  }
+
+  saveClient(client: ClientRecord) {
+    super.saveClient(client);
+    this.enqueue('clients', client);
+  }
+
+  removeClient(id: string): boolean {
+    const removed = super.removeClient(id);
+    if (removed) this.enqueue('clients', { id, removed: true });
+    return removed;
+  }
+
+  clearLogs() {
+    super.clearLogs();
+    this.pending.logs = [];
+    if (this.initialized) {
+      this.writeCollection('logs', []);
+    }
+  }
+
+  appendMetricSnapshot(snapshot: MetricSnapshot) {
+    super.appendMetricSnapshot(snapshot);
+    this.enqueue('metricSnapshots', snapshot);
+  }
+
+  private enqueue(collection: Collection, record: unknown) {
+    if (this.initialized) {
+      this.pending[collection].push(JSON.stringify(record));
+    }
+  }
+
+  /**
+   * Agrega al final de cada archivo los registros pendientes
+   */
+  flush() {
+    if (!this.initialized) return;
+
+    for (const collection of Object.keys(FILES) as Collection[]) {
+      const lines = this.pending[collection];
+      if (lines.length === 0) continue;
+      this.pending[collection] = [];
+
+      try {
+        fs.appendFileSync(this.filePath(collection), lines.join('\n') + '\n');
+      } catch (error) {
+        this.writeErrors++;
+        console.error(`❌ Error escribiendo ${FILES[collection]}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    this.lastFlush = Date.now();
+  }
+
+  /**
+   * Aplica la retención y reescribe los archivos con lo que queda en memoria
+   */
+  compact() {
+    const removed = this.applyRetention();
+
+    const syncRecords = this.getClientIds().flatMap(clientId =>
+      this.getSyncHistory(clientId).map(result => ({ clientId, result }))
+    );
+    this.writeCollection('syncResults', syncRecords);
+    this.writeCollection('logs', this.logs);
+    this.writeCollection('metricSnapshots', this.metricSnapshots);
+    this.writeCollection('clients', this.getClients());
+    this.lastCompaction = Date.now();
+
+    if (removed.syncResults + removed.logs + removed.metricSnapshots > 0) {
+      console.info('💾 Retención aplicada', removed);
+    }
+  }
+
+  /**
+   * Reescribe un archivo completo de forma atómica (archivo temporal + rename)
+   */
+  private writeCollection(collection: Collection, records: unknown[]) {
+    const file = this.filePath(collection);
+    const content = records.map(record => JSON.stringify(record)).join('\n');
+
+    try {
+      fs.writeFileSync(`${file}.tmp`, content.length > 0 ? content + '\n' : '');
+      fs.renameSync(`${file}.tmp`, file);
+      this.pending[collection] = [];
+    } catch (error) {
+      this.writeErrors++;
+      console.error(`❌ Error compactando ${FILES[collection]}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private readRecords<T>(collection: Collection): T[] {
+    const file = this.filePath(collection);
+    if (!fs.existsSync(file)) return [];
+
+    const records: T[] = [];
+    for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Una línea truncada (p. ej. por un corte durante la escritura) no invalida el resto
+        this.corruptLines++;
+      }
+    }
+    return records;
+  }
+
+  private filePath(collection: Collection): string {
+    return path.join(this.directory, FILES[collection]);
+  }
+
+  getStatus(): Record<string, unknown> {
+    return {
+      ...super.getStatus(),
+      directory: this.directory,
+      lastFlush: this.lastFlush,
+      lastCompaction: this.lastCompaction,
+      corruptLines: this.corruptLines,
+      writeErrors: this.writeErrors
+    };
+  }
+}
+
+export { FileStorage };
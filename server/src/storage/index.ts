@@ -0,0 +1,55 @@
+import path from 'path';
+import { MemoryStorage, logEntryTime, syncResultTime } from './memoryStorage';
+import { FileStorage } from './fileStorage';
+import type { StorageAdapter, RetentionPolicy } from './types';
+import { getConfig } from '../config/appConfig';
+
+export type {
+  StorageAdapter,
+  StorageDriver,
+  RetentionPolicy,
+  RetentionResult,
+  MetricSnapshot,
+  ClientRecord,
+  QueryOptions
+} from './types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Lee la política de retención desde la configuración (storage.retention)
+ */
+export function parseRetentionPolicy(): RetentionPolicy {
+  const retention = getConfig().storage.retention;
+  return {
+    syncMaxAge: retention.syncDays * DAY,
+    syncMaxPerClient: retention.syncPerClient,
+    logMaxAge: retention.logDays * DAY,
+    logMaxEntries: retention.logMaxEntries,
+    metricsMaxAge: retention.metricsDays * DAY
+  };
+}
+
+/**
+ * Crea el almacenamiento según storage.driver (file por defecto, o memory)
+ */
+export function createStorage(driver: string = getConfig().storage.driver): StorageAdapter {
+  const { directory, flushInterval, maintenanceInterval } = getConfig().storage;
+  const retention = parseRetentionPolicy();
+
+  if (driver === 'memory') {
+    return new MemoryStorage(retention, maintenanceInterval);
+  }
+
+  return new FileStorage(
+    path.resolve(directory),
+    retention,
+    flushInterval,
+    maintenanceInterval
+  );
+}
+
+// Instancia singleton del almacenamiento; los archivos se cargan al llamar init()
+export const storage = createStorage();
+
+export { MemoryStorage, FileStorage, logEntryTime, syncResultTime };
@@ -0,0 +1,204 @@
+import type { SyncResult } from '../utils/timeUtils';
+import type { LogEntry } from '../utils/logger';
+import type {
+  StorageAdapter,
+  StorageDriver,
+  RetentionPolicy,
+  RetentionResult,
+  MetricSnapshot,
+  ClientRecord,
+  QueryOptions
+} from './types';
+
+// Intervalo por defecto entre pasadas de retención (1 hora)
+const DEFAULT_MAINTENANCE_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Marca epoch de una entrada de log. El logger agrega los milisegundos después del
+ * ISO (`...Z.123`), por lo que solo se interpretan los primeros 24 caracteres.
+ */
+export function logEntryTime(entry: LogEntry): number {
+  return Date.parse(entry.timestamp.substring(0, 24));
+}
+
+/**
+ * Marca epoch de un resultado de sincronización según el reloj del servidor. Los
+ * resultados guardados antes de existir `recordedAt` usan la hora del cliente.
+ */
+export function syncResultTime(result: SyncResult): number {
+  return result.recordedAt ?? result.clientTime;
+}
+
+function applyQuery<T>(records: T[], timeOf: (record: T) => number, options: QueryOptions = {}): T[] {
+  let result = options.since !== undefined
+    ? records.filter(record => timeOf(record) >= options.since!)
+    : [...records];
+
+  if (options.limit) {
+    result = result.slice(-options.limit);
+  }
+  return result;
+}
+
+/**
+ * Almacenamiento en memoria: conserva los datos solo mientras el proceso vive
+ */
+class MemoryStorage implements StorageAdapter {
+  readonly driver: StorageDriver = 'memory';
+
+  protected syncResults: Map<string, SyncResult[]> = new Map();
+  protected logs: LogEntry[] = [];
+  protected metricSnapshots: MetricSnapshot[] = [];
+  protected clients: Map<string, ClientRecord> = new Map();
+  protected nextLogId = 1;
+  private maintenanceTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    protected retention: RetentionPolicy,
+    private maintenanceInterval: number = DEFAULT_MAINTENANCE_INTERVAL
+  ) {}
+
+  init() {
+    if (this.maintenanceTimer) return;
+    this.maintenanceTimer = setInterval(() => this.maintenance(), this.maintenanceInterval);
+    this.maintenanceTimer.unref();
+  }
+
+  close() {
+    if (this.maintenanceTimer) {
+      clearInterval(this.maintenanceTimer);
+      this.maintenanceTimer = null;
+    }
+  }
+
+  /**
+   * Tarea periódica; las implementaciones persistentes compactan además sus archivos
+   */
+  protected maintenance() {
+    this.applyRetention();
+  }
+
+  appendSyncResult(clientId: string, result: SyncResult) {
+    if (!this.syncResults.has(clientId)) {
+      this.syncResults.set(clientId, []);
+    }
+
+    const history = this.syncResults.get(clientId)!;
+    history.push(result);
+
+    if (history.length > this.retention.syncMaxPerClient) {
+      history.splice(0, history.length - this.retention.syncMaxPerClient);
+    }
+  }
+
+  getSyncHistory(clientId: string, options?: QueryOptions): SyncResult[] {
+    return applyQuery(this.syncResults.get(clientId) || [], syncResultTime, options);
+  }
+
+  getClientIds(): string[] {
+    return Array.from(this.syncResults.keys());
+  }
+
+  countSyncResults(): number {
+    let total = 0;
+    for (const history of this.syncResults.values()) {
+      total += history.length;
+    }
+    return total;
+  }
+
+  saveClient(client: ClientRecord) {
+    this.clients.set(client.id, { ...client });
+  }
+
+  getClients(): ClientRecord[] {
+    return Array.from(this.clients.values());
+  }
+
+  getClient(id: string): ClientRecord | undefined {
+    return this.clients.get(id);
+  }
+
+  removeClient(id: string): boolean {
+    return this.clients.delete(id);
+  }
+
+  /**
+   * Agrega una entrada con id creciente; los ids no se reutilizan al limpiar los logs,
+   * así un cliente puede reanudar un stream a partir del último id recibido
+   */
+  appendLog(entry: LogEntry): LogEntry {
+    const stored = entry.id !== undefined ? entry : { ...entry, id: this.nextLogId };
+    this.nextLogId = Math.max(this.nextLogId, stored.id! + 1);
+    this.logs.push(stored);
+
+    if (this.logs.length > this.retention.logMaxEntries) {
+      this.logs.splice(0, this.logs.length - this.retention.logMaxEntries);
+    }
+    return stored;
+  }
+
+  getLogs(): LogEntry[] {
+    return [...this.logs];
+  }
+
+  clearLogs() {
+    this.logs = [];
+  }
+
+  appendMetricSnapshot(snapshot: MetricSnapshot) {
+    this.metricSnapshots.push(snapshot);
+  }
+
+  getMetricSnapshots(options: QueryOptions & { server?: string } = {}): MetricSnapshot[] {
+    const snapshots = options.server
+      ? this.metricSnapshots.filter(snapshot => snapshot.server === options.server)
+      : this.metricSnapshots;
+    return applyQuery(snapshots, snapshot => snapshot.timestamp, options);
+  }
+
+  /**
+   * Elimina los registros más antiguos que la política de retención
+   */
+  applyRetention(now: number = Date.now()): RetentionResult {
+    const removed: RetentionResult = { syncResults: 0, logs: 0, metricSnapshots: 0 };
+
+    const syncCutoff = now - this.retention.syncMaxAge;
+    for (const [clientId, history] of this.syncResults.entries()) {
+      const kept = history.filter(result => syncResultTime(result) >= syncCutoff);
+      removed.syncResults += history.length - kept.length;
+
+      if (kept.length === 0) {
+        this.syncResults.delete(clientId);
+      } else {
+        this.syncResults.set(clientId, kept);
+      }
+    }
+
+    const logCutoff = now - this.retention.logMaxAge;
+    const logs = this.logs.filter(entry => logEntryTime(entry) >= logCutoff).slice(-this.retention.logMaxEntries);
+    removed.logs = this.logs.length - logs.length;
+    this.logs = logs;
+
+    const metricsCutoff = now - this.retention.metricsMaxAge;
+    const snapshots = this.metricSnapshots.filter(snapshot => snapshot.timestamp >= metricsCutoff);
+    removed.metricSnapshots = this.metricSnapshots.length - snapshots.length;
+    this.metricSnapshots = snapshots;
+
+    return removed;
+  }
+
+  getStatus(): Record<string, unknown> {
+    return {
+      driver: this.driver,
+      clients: this.syncResults.size,
+      registeredClients: this.clients.size,
+      syncResults: this.countSyncResults(),
+      logs: this.logs.length,
+      metricSnapshots: this.metricSnapshots.length,
+      retention: this.retention
+    };
+  }
+}
+
+export { MemoryStorage };
@@ -0,0 +1,87 @@
+import type { SyncResult, EnsembleReadingStatus } from '../utils/timeUtils';
+import type { LogEntry } from '../utils/logger';
+
+export type StorageDriver = 'memory' | 'file';
+
+// Políticas de retención; las edades se expresan en milisegundos
+export interface RetentionPolicy {
+  syncMaxAge: number;
+  syncMaxPerClient: number;
+  logMaxAge: number;
+  logMaxEntries: number;
+  metricsMaxAge: number;
+}
+
+// Instantánea de las métricas de un servidor upstream
+export interface MetricSnapshot {
+  timestamp: number;
+  server: string;
+  averageLatency: number;
+  successRate: number;
+  responseTime: number;
+  failoverCount: number;
+  activeClients: number;
+  circuitBreakerState: 'closed' | 'open' | 'half-open';
+  selection: {
+    status: EnsembleReadingStatus;
+    offset: number;
+    delay: number;
+    jitter: number;
+  } | null;
+}
+
+// Cliente del servicio registrado en el registro de clientes
+export interface ClientRecord {
+  id: string;
+  name: string;
+  registration: 'explicit' | 'implicit'; // implicit: creado al sincronizar sin POST /api/clients
+  userAgent: string | null;
+  platform: string | null;
+  ip: string | null;
+  registeredAt: number;
+  lastSeen: number;
+}
+
+export interface QueryOptions {
+  since?: number; // Marca epoch en ms
+  limit?: number; // Cantidad máxima de registros, los más recientes
+}
+
+// Registros eliminados en una pasada de retención
+export interface RetentionResult {
+  syncResults: number;
+  logs: number;
+  metricSnapshots: number;
+}
+
+/**
+ * Capa de almacenamiento para historial de sincronización, logs y métricas upstream.
+ * Las lecturas son síncronas: cada implementación mantiene en memoria la ventana
+ * definida por la política de retención.
+ */
+export interface StorageAdapter {
+  readonly driver: StorageDriver;
+
+  init(): void;
+  close(): void;
+
+  appendSyncResult(clientId: string, result: SyncResult): void;
+  getSyncHistory(clientId: string, options?: QueryOptions): SyncResult[];
+  getClientIds(): string[];
+  countSyncResults(): number;
+
+  saveClient(client: ClientRecord): void; // Alta o actualización completa del registro
+  getClients(): ClientRecord[];
+  getClient(id: string): ClientRecord | undefined;
+  removeClient(id: string): boolean;
+
+  appendLog(entry: LogEntry): LogEntry; // Devuelve la entrada con su id asignado
+  getLogs(): LogEntry[];
+  clearLogs(): void;
+
+  appendMetricSnapshot(snapshot: MetricSnapshot): void;
+  getMetricSnapshots(options?: QueryOptions & { server?: string }): MetricSnapshot[];
+
+  applyRetention(now?: number): RetentionResult;
+  getStatus(): Record<string, unknown>;
+}
@@ -1,5 +1,6 @@
 import colors from 'colors';
 import { SyncResult } from './timeUtils';
+import { storage, logEntryTime } from '../storage';
 
 // Niveles de log
 export enum LogLevel {
@@ -12,6 +13,7 @@ export enum LogLevel {
 
 // Interfaz para entradas de log
 export interface LogEntry {
+  id?: number; // Asignado por el almacenamiento, creciente
   timestamp: string;
   level: LogLevel;
   message: string;
@@ -20,10 +22,9 @@ export interface LogEntry {
   server?: string;
 }
 
+// Las entradas se guardan en la capa de almacenamiento, con su política de retención
 class Logger {
-  private logs: LogEntry[] = [];
-  private maxLogs = 1000; // Máximo número de logs en memoria
-
+  private listeners: Set<(entry: LogEntry) => void> = new Set();
   private formatTimestamp(): string {
     const now = new Date();
     return now.toISOString() + '.' + now.getMilliseconds().toString().padStart(3, '0');
@@ -39,16 +40,11 @@ class Logger {
       server
     };
 
-    // Agregar al array de logs
-    this.logs.push(logEntry);
-
-    // Mantener solo los últimos maxLogs
-    if (this.logs.length > this.maxLogs) {
-      this.logs = this.logs.slice(-this.maxLogs);
-    }
+    const stored = storage.appendLog(logEntry);
+    this.listeners.forEach(listener => listener(stored));
 
     // Imprimir en consola con colores
-    this.printToConsole(logEntry);
+    this.printToConsole(stored);
   }
 
   private printToConsole(entry: LogEntry) {
@@ -103,6 +99,14 @@ class Logger {
     this.addLog(LogLevel.TRACE, message, context, clientId, server);
   }
 
+  /**
+   * Registra un observador de nuevas entradas; devuelve la función para darlo de baja
+   */
+  onEntry(listener: (entry: LogEntry) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
   // Métodos específicos para sincronización
   logSyncAttempt(clientId: string, server: string) {
     this.info(`🔄 Iniciando sincronización con ${server}`, undefined, clientId, server);
@@ -112,6 +116,7 @@ class Logger {
     this.info(
       `✅ Sincronización exitosa con ${result.server}`, 
       {
+        algorithm: result.algorithm,
         offset: `${result.offset.toFixed(2)}ms`,
         rtt: `${result.roundTripTime.toFixed(2)}ms`,
         precision: `${result.precision.toFixed(2)}ms`,
@@ -147,7 +152,7 @@ class Logger {
     since?: Date;
     limit?: number;
   }): LogEntry[] {
-    let filteredLogs = [...this.logs];
+    let filteredLogs = storage.getLogs();
 
     if (filter) {
       if (filter.level) {
@@ -164,7 +169,7 @@ class Logger {
       
       if (filter.since) {
         filteredLogs = filteredLogs.filter(log => 
-          new Date(log.timestamp) >= filter.since!
+          logEntryTime(log) >= filter.since!.getTime()
         );
       }
       
@@ -185,13 +190,14 @@ class Logger {
   } {
     const byLevel = {} as Record<LogLevel, number>;
     const byServer = {} as Record<string, number>;
+    const logs = storage.getLogs();
 
     // Inicializar contadores
     Object.values(LogLevel).forEach(level => {
       byLevel[level] = 0;
     });
 
-    this.logs.forEach(log => {
+    logs.forEach(log => {
       byLevel[log.level]++;
       
       if (log.server) {
@@ -200,12 +206,12 @@ class Logger {
     });
 
     // Obtener errores recientes (últimos 10)
-    const recentErrors = this.logs
+    const recentErrors = logs
       .filter(log => log.level === LogLevel.ERROR)
       .slice(-10);
 
     return {
-      total: this.logs.length,
+      total: logs.length,
       byLevel,
       byServer,
       recentErrors
@@ -214,13 +220,13 @@ class Logger {
 
   // Limpiar logs
   clearLogs() {
-    this.logs = [];
+    storage.clearLogs();
     this.info('🧹 Logs limpiados');
   }
 
   // Exportar logs (para debugging)
   exportLogs(): LogEntry[] {
-    return [...this.logs];
+    return storage.getLogs();
   }
 }
 
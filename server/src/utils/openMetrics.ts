@@ -0,0 +1,234 @@
+// Content-Type de la exposición en formato OpenMetrics 1.0
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+type Labels = Record<string, string | number>;
+
+interface MetricOptions {
+  name: string;
+  help: string;
+  labelNames?: string[];
+  unit?: string; // Debe coincidir con el sufijo del nombre (p. ej. `seconds`)
+}
+
+// Escapa un valor de etiqueta según la gramática de OpenMetrics
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+// Los límites `le` se exponen siempre como flotantes (`1.0`, no `1`)
+function formatBucketBound(bound: number): string {
+  if (bound === Infinity) return '+Inf';
+  return Number.isInteger(bound) ? bound.toFixed(1) : String(bound);
+}
+
+function formatLabels(names: string[], values: string[]): string {
+  if (names.length === 0) return '';
+  return `{${names.map((name, i) => `${name}="${escapeLabelValue(values[i])}"`).join(',')}}`;
+}
+
+/**
+ * Base de las familias de métricas: guarda una serie por combinación de etiquetas
+ */
+abstract class Metric<Series> {
+  abstract readonly type: MetricType;
+  readonly name: string;
+  readonly help: string;
+  readonly unit?: string;
+  protected readonly labelNames: string[];
+  protected series: Map<string, { labelValues: string[]; data: Series }> = new Map();
+
+  constructor(options: MetricOptions) {
+    this.name = options.name;
+    this.help = options.help;
+    this.unit = options.unit;
+    this.labelNames = options.labelNames || [];
+  }
+
+  protected abstract createSeries(): Series;
+
+  protected getSeries(labels: Labels = {}): Series {
+    const labelValues = this.labelNames.map(name => {
+      if (labels[name] === undefined) {
+        throw new Error(`Falta la etiqueta "${name}" en la métrica ${this.name}`);
+      }
+      return String(labels[name]);
+    });
+    const key = JSON.stringify(labelValues);
+
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labelValues, data: this.createSeries() };
+      this.series.set(key, entry);
+    }
+    return entry.data;
+  }
+
+  /**
+   * Elimina la serie de una combinación de etiquetas (p. ej. un servidor dado de baja)
+   */
+  remove(labels: Labels) {
+    this.series.delete(JSON.stringify(this.labelNames.map(name => String(labels[name]))));
+  }
+
+  protected abstract renderSeries(labelValues: string[], data: Series): string[];
+
+  render(): string {
+    const lines = [`# TYPE ${this.name} ${this.type}`];
+    if (this.unit) lines.push(`# UNIT ${this.name} ${this.unit}`);
+    lines.push(`# HELP ${this.name} ${this.help}`);
+
+    for (const { labelValues, data } of this.series.values()) {
+      lines.push(...this.renderSeries(labelValues, data));
+    }
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Contador monótono: solo crece mientras viva el proceso
+ */
+export class Counter extends Metric<{ value: number }> {
+  readonly type = 'counter';
+
+  protected createSeries() {
+    return { value: 0 };
+  }
+
+  inc(labels?: Labels, value: number = 1) {
+    if (value < 0) {
+      throw new Error(`Un contador no puede decrementarse (${this.name})`);
+    }
+    this.getSeries(labels).value += value;
+  }
+
+  protected renderSeries(labelValues: string[], data: { value: number }) {
+    return [`${this.name}_total${formatLabels(this.labelNames, labelValues)} ${formatValue(data.value)}`];
+  }
+}
+
+/**
+ * Gauge; con `collect` se recalcula justo antes de cada exposición
+ */
+export class Gauge extends Metric<{ value: number }> {
+  readonly type = 'gauge';
+  private readonly collect?: (gauge: Gauge) => void;
+
+  constructor(options: MetricOptions & { collect?: (gauge: Gauge) => void }) {
+    super(options);
+    this.collect = options.collect;
+  }
+
+  protected createSeries() {
+    return { value: 0 };
+  }
+
+  set(labels: Labels, value: number) {
+    this.getSeries(labels).value = value;
+  }
+
+  reset() {
+    this.series.clear();
+  }
+
+  render(): string {
+    this.collect?.(this);
+    return super.render();
+  }
+
+  protected renderSeries(labelValues: string[], data: { value: number }) {
+    return [`${this.name}${formatLabels(this.labelNames, labelValues)} ${formatValue(data.value)}`];
+  }
+}
+
+interface HistogramSeries {
+  counts: number[]; // Observaciones por bucket (no acumuladas)
+  count: number;
+  sum: number;
+}
+
+/**
+ * Histograma con buckets fijos. Con observaciones negativas OpenMetrics prohíbe
+ * exponer `_sum`, por eso se puede desactivar con `sum: false`.
+ */
+export class Histogram extends Metric<HistogramSeries> {
+  readonly type = 'histogram';
+  private readonly buckets: number[];
+  private readonly exposeSum: boolean;
+
+  constructor(options: MetricOptions & { buckets: number[]; sum?: boolean }) {
+    super(options);
+    if (options.labelNames?.includes('le')) {
+      throw new Error(`La etiqueta "le" está reservada (${options.name})`);
+    }
+    this.buckets = [...options.buckets].sort((a, b) => a - b);
+    this.exposeSum = options.sum !== false;
+  }
+
+  protected createSeries(): HistogramSeries {
+    return { counts: new Array(this.buckets.length).fill(0), count: 0, sum: 0 };
+  }
+
+  observe(labels: Labels | undefined, value: number) {
+    if (!Number.isFinite(value)) return;
+
+    const series = this.getSeries(labels);
+    const index = this.buckets.findIndex(bound => value <= bound);
+    if (index >= 0) series.counts[index]++;
+    series.count++;
+    series.sum += value;
+  }
+
+  protected renderSeries(labelValues: string[], data: HistogramSeries) {
+    const bucketLabelNames = [...this.labelNames, 'le'];
+    const lines: string[] = [];
+    let cumulative = 0;
+
+    this.buckets.forEach((bound, i) => {
+      cumulative += data.counts[i];
+      lines.push(`${this.name}_bucket${formatLabels(bucketLabelNames, [...labelValues, formatBucketBound(bound)])} ${cumulative}`);
+    });
+    lines.push(`${this.name}_bucket${formatLabels(bucketLabelNames, [...labelValues, '+Inf'])} ${data.count}`);
+
+    const labels = formatLabels(this.labelNames, labelValues);
+    lines.push(`${this.name}_count${labels} ${data.count}`);
+    if (this.exposeSum) {
+      lines.push(`${this.name}_sum${labels} ${formatValue(data.sum)}`);
+    }
+    return lines;
+  }
+}
+
+type AnyMetric = Counter | Gauge | Histogram;
+
+/**
+ * Registro de familias de métricas expuestas en GET /metrics
+ */
+class MetricsRegistry {
+  private metrics: Map<string, AnyMetric> = new Map();
+
+  register<T extends AnyMetric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Métrica duplicada: ${metric.name}`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  render(): string {
+    const families = Array.from(this.metrics.values()).map(metric => metric.render());
+    return `${families.join('\n')}\n# EOF\n`;
+  }
+}
+
+// Registro global de métricas
+export const metricsRegistry = new MetricsRegistry();
+
+export { MetricsRegistry };
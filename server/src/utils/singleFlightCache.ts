@@ -0,0 +1,57 @@
+// Origen de un valor entregado por la caché
+export type CacheSource = 'hit' | 'miss' | 'coalesced';
+
+export interface CachedValue<T> {
+  value: T;
+  ageMs: number; // Antigüedad medida con el reloj monotónico
+  source: CacheSource;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: bigint; // process.hrtime.bigint() al obtenerse el valor
+}
+
+function elapsedMs(since: bigint): number {
+  return Number(process.hrtime.bigint() - since) / 1e6;
+}
+
+/**
+ * Caché por clave con single-flight: las llamadas concurrentes para una misma
+ * clave comparten la consulta en curso, y mientras el último valor no supere
+ * `maxAgeMs` se entrega sin consultar. Los errores no se guardan.
+ */
+export class SingleFlightCache<T> {
+  private entries: Map<string, CacheEntry<T>> = new Map();
+  private inFlight: Map<string, Promise<CacheEntry<T>>> = new Map();
+
+  async get(key: string, maxAgeMs: number, fetch: () => Promise<T>): Promise<CachedValue<T>> {
+    const entry = this.entries.get(key);
+    if (entry && elapsedMs(entry.storedAt) <= maxAgeMs) {
+      return { value: entry.value, ageMs: elapsedMs(entry.storedAt), source: 'hit' };
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      const shared = await pending;
+      return { value: shared.value, ageMs: elapsedMs(shared.storedAt), source: 'coalesced' };
+    }
+
+    const request = fetch()
+      .then(value => {
+        const stored = { value, storedAt: process.hrtime.bigint() };
+        this.entries.set(key, stored);
+        return stored;
+      })
+      .finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, request);
+
+    const fresh = await request;
+    return { value: fresh.value, ageMs: 0, source: 'miss' };
+  }
+
+  // Descarta el valor guardado; una consulta en curso termina normalmente
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+}
@@ -0,0 +1,235 @@
+import dgram from 'dgram';
+
+// Segundos entre la época NTP (1900-01-01) y la época Unix (1970-01-01)
+const NTP_EPOCH_OFFSET = 2208988800;
+
+// Tamaño de un paquete NTP sin extensiones ni autenticación
+export const NTP_PACKET_SIZE = 48;
+
+// Modos NTP relevantes para SNTP (RFC 4330)
+export const NTP_MODE_CLIENT = 3;
+export const NTP_MODE_SERVER = 4;
+
+const NTP_VERSION = 4;
+
+// Reloj local epoch con resolución sub-milisegundo
+const localTime = () => performance.timeOrigin + performance.now();
+
+// Indicador de segundo intercalar: 0 sin aviso, 1 último minuto de 61 s, 2 último minuto de 59 s, 3 reloj no sincronizado
+export type LeapIndicator = 0 | 1 | 2 | 3;
+
+// Paquete NTP decodificado; marcas de tiempo en milisegundos epoch con fracción
+export interface NTPPacket {
+  leapIndicator: LeapIndicator;
+  version: number;
+  mode: number;
+  stratum: number;
+  poll: number; // log2 segundos
+  precision: number; // Precisión del reloj del servidor (ms)
+  rootDelay: number; // Delay total hasta la referencia primaria (ms)
+  rootDispersion: number; // Dispersión total respecto a la referencia primaria (ms)
+  referenceId: string;
+  referenceTimestamp: number;
+  originateTimestamp: number;
+  receiveTimestamp: number;
+  transmitTimestamp: number;
+}
+
+// Respuesta de una consulta SNTP con el offset y delay del intercambio
+export interface SNTPResponse {
+  server: string;
+  packet: NTPPacket;
+  time: number; // Hora del servidor estimada al recibir la respuesta (ms epoch)
+  roundTripTime: number;
+  offset: number; // ((T2 - T1) + (T3 - T4)) / 2
+  delay: number; // (T4 - T1) - (T3 - T2)
+}
+
+// Alteraciones que el inyector de fallos aplica a un intercambio real
+export interface PacketFaults {
+  dropResponse?: boolean; // Se ignora la respuesta: el intercambio termina por timeout
+  responseDelay?: number; // ms que se retiene la respuesta antes de tomar T4
+  rewriteResponse?: (response: Buffer) => void; // Modifica el paquete recibido antes de validarlo
+}
+
+/**
+ * Decodifica una marca de tiempo NTP de 64 bits (32 bits de segundos y 32 de fracción).
+ * Si el bit más significativo de los segundos es 0 se asume la era 1 (después de 2036).
+ */
+export function decodeNTPTimestamp(buffer: Buffer, offset: number): number {
+  const seconds = buffer.readUInt32BE(offset);
+  const fraction = buffer.readUInt32BE(offset + 4);
+  if (seconds === 0 && fraction === 0) return 0;
+
+  const eraSeconds = (seconds & 0x80000000) === 0 ? seconds + 0x100000000 : seconds;
+  return (eraSeconds - NTP_EPOCH_OFFSET) * 1000 + (fraction / 0x100000000) * 1000;
+}
+
+/**
+ * Codifica milisegundos epoch como marca de tiempo NTP de 64 bits
+ */
+export function encodeNTPTimestamp(ms: number, buffer: Buffer, offset: number) {
+  const totalSeconds = ms / 1000 + NTP_EPOCH_OFFSET;
+  const seconds = Math.floor(totalSeconds);
+  const fraction = Math.floor((totalSeconds - seconds) * 0x100000000);
+
+  buffer.writeUInt32BE(seconds % 0x100000000, offset);
+  buffer.writeUInt32BE(Math.min(fraction, 0xffffffff), offset + 4);
+}
+
+/**
+ * Codifica milisegundos en el formato corto NTP (16 bits de segundos y 16 de fracción)
+ */
+export function encodeNTPShort(ms: number, buffer: Buffer, offset: number) {
+  const value = Math.round((Math.max(ms, 0) / 1000) * 0x10000);
+  buffer.writeUInt32BE(Math.min(value, 0xffffffff), offset);
+}
+
+/**
+ * Decodifica el identificador de referencia: código ASCII para estrato 0-1, IPv4 para el resto
+ */
+function decodeReferenceId(buffer: Buffer, stratum: number): string {
+  const raw = buffer.subarray(12, 16);
+  if (stratum <= 1) {
+    return raw.toString('ascii').replace(/\0+$/, '');
+  }
+  return Array.from(raw).join('.');
+}
+
+/**
+ * Decodifica los 48 bytes de un paquete NTP
+ */
+export function decodeNTPPacket(buffer: Buffer): NTPPacket {
+  if (buffer.length < NTP_PACKET_SIZE) {
+    throw new Error(`Paquete NTP incompleto: ${buffer.length} bytes`);
+  }
+
+  const flags = buffer.readUInt8(0);
+  const stratum = buffer.readUInt8(1);
+
+  return {
+    leapIndicator: (flags >> 6) as LeapIndicator,
+    version: (flags >> 3) & 0x07,
+    mode: flags & 0x07,
+    stratum,
+    poll: buffer.readInt8(2),
+    precision: Math.pow(2, buffer.readInt8(3)) * 1000,
+    // Formato corto NTP: 16 bits de segundos y 16 de fracción
+    rootDelay: (buffer.readUInt32BE(4) / 0x10000) * 1000,
+    rootDispersion: (buffer.readUInt32BE(8) / 0x10000) * 1000,
+    referenceId: decodeReferenceId(buffer, stratum),
+    referenceTimestamp: decodeNTPTimestamp(buffer, 16),
+    originateTimestamp: decodeNTPTimestamp(buffer, 24),
+    receiveTimestamp: decodeNTPTimestamp(buffer, 32),
+    transmitTimestamp: decodeNTPTimestamp(buffer, 40)
+  };
+}
+
+/**
+ * Construye una solicitud SNTPv4 en modo cliente con la marca de transmisión indicada
+ */
+export function buildNTPRequest(transmitTime: number): Buffer {
+  const request = Buffer.alloc(NTP_PACKET_SIZE);
+  request.writeUInt8((0 << 6) | (NTP_VERSION << 3) | NTP_MODE_CLIENT, 0);
+  encodeNTPTimestamp(transmitTime, request, 40);
+  return request;
+}
+
+/**
+ * Valida una respuesta según RFC 4330 §5: modo servidor, originate igual a nuestra
+ * marca de transmisión, reloj sincronizado y sin Kiss-o'-Death (estrato 0)
+ */
+function validateResponse(packet: NTPPacket, response: Buffer, request: Buffer): string | null {
+  if (packet.mode !== NTP_MODE_SERVER) {
+    return `modo inesperado ${packet.mode}`;
+  }
+  if (!response.subarray(24, 32).equals(request.subarray(40, 48))) {
+    return 'originate timestamp no coincide con la solicitud';
+  }
+  if (packet.stratum === 0) {
+    return `Kiss-o'-Death ${packet.referenceId}`;
+  }
+  if (packet.leapIndicator === 3) {
+    return 'servidor no sincronizado (LI = 3)';
+  }
+  if (packet.transmitTimestamp === 0) {
+    return 'transmit timestamp vacío';
+  }
+  return null;
+}
+
+/**
+ * Consulta SNTPv4 sobre UDP.
+ * T1 y T4 se toman del reloj local con resolución sub-milisegundo; T2 y T3 vienen en el paquete.
+ * Los `faults` se aplican sobre la respuesta recibida, así recorre la misma validación y timeout.
+ */
+export function querySNTP(server: string, port: number = 123, timeout: number = 5000, faults: PacketFaults = {}): Promise<SNTPResponse> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket('udp4');
+    let settled = false;
+
+    const finish = (error: Error | null, result?: SNTPResponse) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.close();
+      if (error) reject(error);
+      else resolve(result!);
+    };
+
+    const timer = setTimeout(() => {
+      finish(new Error(`Timeout esperando respuesta SNTP de ${server} (${timeout}ms)`));
+    }, timeout);
+
+    socket.on('error', (err) => {
+      finish(new Error(`Error conectando a ${server}: ${err.message}`));
+    });
+
+    const T1 = localTime();
+    const request = buildNTPRequest(T1);
+
+    const handleResponse = (message: Buffer) => {
+      const T4 = localTime();
+
+      try {
+        const packet = decodeNTPPacket(message);
+        const problem = validateResponse(packet, message, request);
+        if (problem) {
+          finish(new Error(`Respuesta SNTP inválida de ${server}: ${problem}`));
+          return;
+        }
+
+        const T2 = packet.receiveTimestamp;
+        const T3 = packet.transmitTimestamp;
+        const offset = ((T2 - T1) + (T3 - T4)) / 2;
+        const delay = Math.max((T4 - T1) - (T3 - T2), 0);
+
+        finish(null, {
+          server,
+          packet,
+          time: T4 + offset,
+          roundTripTime: T4 - T1,
+          offset,
+          delay
+        });
+      } catch (error) {
+        finish(error instanceof Error ? error : new Error(String(error)));
+      }
+    };
+
+    socket.on('message', (message) => {
+      if (faults.dropResponse) return;
+      faults.rewriteResponse?.(message);
+
+      if (faults.responseDelay && faults.responseDelay > 0) {
+        setTimeout(() => handleResponse(message), faults.responseDelay);
+      } else {
+        handleResponse(message);
+      }
+    });
+
+    socket.send(request, port, server, (err) => {
+      if (err) finish(new Error(`Error conectando a ${server}: ${err.message}`));
+    });
+  });
+}
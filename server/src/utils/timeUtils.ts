@@ -1,14 +1,24 @@
-import ntpClient from 'ntp-client';
-import { getNTPTimeWithCircuitBreaker, ntpMetricsManager } from '../config/ntpConfig';
-
-// Configuración de servidores NTP
-export const NTP_SERVERS = {
-  primary: 'ntp.shoa.cl',
-  secondary: 'pool.ntp.org',
-  timeout: 5000
-};
+import { querySNTP, SNTPResponse, LeapIndicator } from './sntpClient';
+import { getConfig } from '../config/appConfig'; // Antes que ntpConfig: este usa parseNTPServers al cargarse
+import { queryNTPEnsemble, ntpMetricsManager } from '../config/ntpConfig';
+import { clockDiscipline } from '../services/clockDiscipline';
+import { syncResultTime, MetricSnapshot } from '../storage';
+import { withSpan } from '../config/tracing';
+import { faultInjector, InjectedFault } from '../services/faultInjector';
+import { leapSeconds } from '../services/leapSeconds';
+
+// Configuración de un servidor NTP upstream
+export interface NTPServerConfig {
+  host: string;
+  port: number;
+  timeout: number;
+  priority: number; // Menor número = mayor prioridad
+}
 
 // Interfaz para el resultado de sincronización
+// Intercambio de cuatro marcas de tiempo (estilo NTP):
+// t0 = envío del cliente, t1 = recepción en servidor, t2 = envío del servidor, t3 = recepción en cliente.
+// t1 y t2 están expresados en la escala de tiempo de referencia (reloj local + offset contra NTP).
 export interface SyncResult {
   success: boolean;
   serverTime: number;
@@ -17,9 +27,70 @@ export interface SyncResult {
   roundTripTime: number;
   precision: number;
   server: string;
+  algorithm: SyncAlgorithmName;
+  t0: number;
+  t1: number;
+  t2: number;
+  t3: number | null; // null mientras el cliente no informe su tiempo de recepción
+  delay: number;
+  upstreamOffset: number; // Offset de la escala de referencia respecto al reloj local del servidor
+  upstream?: UpstreamInfo;
+  burst?: BurstInfo;
+  faults?: InjectedFault[]; // Fallos inyectados en los upstream mientras se atendía el intercambio
+  leapSmear?: number; // Corrección de smear del segundo intercalar aplicada a t1 y t2 (ms)
+  recordedAt?: number; // Hora del servidor al registrarlo en el historial (ms epoch)
   error?: string;
 }
 
+// Campos del paquete SNTP de la fuente que aportó la referencia
+export interface UpstreamInfo {
+  server: string;
+  stratum: number;
+  leapIndicator: LeapIndicator;
+  referenceId: string;
+  rootDelay: number; // ms
+  rootDispersion: number; // ms
+  precision: number; // ms
+  receiveTimestamp: number; // T2 del servidor NTP (ms epoch)
+  transmitTimestamp: number; // T3 del servidor NTP (ms epoch)
+}
+
+// Información de la ráfaga a la que pertenece una muestra (filtro de mínimo delay)
+export interface BurstInfo {
+  id: string;
+  size: number; // Número de intercambios de la ráfaga
+  index: number; // Posición de esta muestra dentro de la ráfaga
+  selected: boolean; // Muestra con menor delay, la única que se registra
+  dispersion: number; // Desviación RMS de los offsets respecto a la muestra elegida (ms)
+}
+
+// Algoritmos de sincronización disponibles
+export type SyncAlgorithmName = 'cristian' | 'berkeley' | 'marzullo';
+export const SYNC_ALGORITHM_NAMES: SyncAlgorithmName[] = ['cristian', 'berkeley', 'marzullo'];
+export const DEFAULT_SYNC_ALGORITHM: SyncAlgorithmName = 'cristian';
+
+// Datos disponibles para un algoritmo al atender un intercambio
+export interface SyncContext {
+  clientId: string;
+  clientRequestTime: number;
+  serverReceiveTime: number;
+  clientClockDeviations: number[]; // Desviación (cliente - reloj local) de los demás clientes activos
+}
+
+// Estrategia de sincronización
+export interface SyncAlgorithm {
+  name: SyncAlgorithmName;
+  description: string;
+  synchronize(context: SyncContext): Promise<SyncResult>;
+}
+
+// Intervalo de offset aportado por una fuente (para Marzullo)
+export interface OffsetInterval {
+  source: string;
+  low: number;
+  high: number;
+}
+
 // Interfaz para métricas
 export interface NTPMetrics {
   server: string;
@@ -31,6 +102,61 @@ export interface NTPMetrics {
   lastSync: number;
 }
 
+// Estado de una fuente NTP tras la selección del ensamble
+export type EnsembleReadingStatus = 'candidate' | 'survivor' | 'outlier' | 'falseticker' | 'unreachable';
+
+// Lectura de una fuente NTP dentro de una consulta al ensamble
+export interface EnsembleReading {
+  server: string;
+  offset: number; // Offset de la fuente respecto al reloj local (ms)
+  delay: number; // Round-trip hacia la fuente (ms)
+  jitter: number; // Jitter de la fuente: RMS de sus offsets recientes (ms)
+  rootDistance: number; // (rootDelay + delay)/2 + rootDispersion + jitter (ms)
+  status: EnsembleReadingStatus;
+  rejection?: string; // Motivo por el que la comprobación de cordura la marcó como falseticker
+  upstream?: UpstreamInfo;
+  error?: string;
+}
+
+// Resultado de selección, clustering y combinación de las fuentes
+export interface EnsembleSelection {
+  timestamp: number;
+  readings: EnsembleReading[];
+  offset: number | null; // Offset combinado de los sobrevivientes (null si no hay mayoría)
+  jitter: number; // Jitter de selección de los sobrevivientes (ms)
+  systemPeer: string | null; // Sobreviviente con menor distancia
+  intersection: { low: number; high: number } | null;
+  falsetickers: number; // Fuentes descartadas por la comprobación de cordura o la intersección
+}
+
+// Mínimo de sobrevivientes que conserva el clustering (NMIN en RFC 5905)
+const CLUSTER_MIN_SURVIVORS = 3;
+
+// Distancia mínima de una fuente para evitar intervalos degenerados (ms)
+const MIN_ROOT_DISTANCE = 1;
+
+/**
+ * Interpreta la lista de servidores NTP en formato "host[:puerto],host[:puerto]".
+ * El orden define la prioridad; por defecto la de ntp.servers (ntp.shoa.cl y pool.ntp.org).
+ */
+export function parseNTPServers(spec: string = getConfig().ntp.servers): NTPServerConfig[] {
+  const timeout = getConfig().ntp.timeout;
+
+  return spec
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const [host, port] = entry.split(':');
+      return {
+        host,
+        port: Number(port) || 123,
+        timeout,
+        priority: index + 1
+      };
+    });
+}
+
 /**
  * Obtiene el tiempo actual con máxima precisión usando process.hrtime.bigint()
  */
@@ -46,148 +172,536 @@ export function hrtimeToMs(hrtime: bigint): number {
 }
 
 /**
- * Obtiene tiempo de servidor NTP con manejo de errores
+ * Obtiene el tiempo absoluto (epoch) en milisegundos con resolución sub-milisegundo
+ */
+export function getEpochTimeMs(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/**
+ * Normaliza una marca de tiempo del cliente a milisegundos epoch.
+ * Acepta milisegundos (~1e12), microsegundos (~1e15) o nanosegundos (~1e18).
+ */
+export function normalizeClientTimestamp(value: number | string): number {
+  const timestamp = Number(value);
+  if (timestamp > 1e17) return timestamp / 1e6; // nanosegundos
+  if (timestamp > 1e14) return timestamp / 1e3; // microsegundos
+  return timestamp;
+}
+
+/**
+ * Calcula offset y delay a partir de las cuatro marcas de tiempo del intercambio
+ * offset = ((t1 - t0) + (t2 - t3)) / 2
+ * delay  = (t3 - t0) - (t2 - t1)
+ */
+export function computeExchangeOffset(t0: number, t1: number, t2: number, t3: number): { offset: number; delay: number } {
+  return {
+    offset: ((t1 - t0) + (t2 - t3)) / 2,
+    delay: (t3 - t0) - (t2 - t1)
+  };
+}
+
+/**
+ * Completa un intercambio con el tiempo de recepción del cliente (t3)
+ */
+export function completeExchange(result: SyncResult, clientReceiveTime: number): SyncResult {
+  const t3 = normalizeClientTimestamp(clientReceiveTime);
+  const { offset, delay } = computeExchangeOffset(result.t0, result.t1, result.t2, t3);
+
+  return {
+    ...result,
+    t3,
+    clientTime: t3,
+    offset,
+    delay,
+    roundTripTime: delay,
+    precision: delay / 2
+  };
+}
+
+/**
+ * Marca el tiempo de transmisión (t2) justo antes de enviar la respuesta al cliente
+ */
+export function stampTransmitTime(result: SyncResult): SyncResult {
+  if (result.success) {
+    result.t2 = getEpochTimeMs() + result.upstreamOffset;
+    result.serverTime = result.t2;
+  }
+  return result;
+}
+
+/**
+ * Obtiene tiempo de servidor NTP mediante el cliente SNTPv4 propio
+ */
+export async function getNTPTime(server: string, port: number = 123, timeout: number = 5000): Promise<SNTPResponse> {
+  // Solo el intercambio UDP: separa su duración de la del circuit breaker que lo envuelve
+  return withSpan('getNTPTime', { 'net.peer.name': server, 'net.peer.port': port, 'ntp.timeout_ms': timeout }, async (span) => {
+    // Fallos inyectados para este servidor: alteran el intercambio real, no lo reemplazan
+    const faults = faultInjector.planQuery(server);
+    span.setAttribute('ntp.fault_injected', Object.keys(faults).length > 0);
+
+    const response = await querySNTP(server, port, timeout, faults);
+    span.setAttributes({
+      'ntp.stratum': response.packet.stratum,
+      'ntp.offset_ms': response.offset,
+      'ntp.delay_ms': response.delay
+    });
+    return response;
+  });
+}
+
+/**
+ * Extrae de una respuesta SNTP los campos que se exponen en resultados y health
+ */
+export function toUpstreamInfo(response: SNTPResponse): UpstreamInfo {
+  const { packet } = response;
+  return {
+    server: response.server,
+    stratum: packet.stratum,
+    leapIndicator: packet.leapIndicator,
+    referenceId: packet.referenceId,
+    rootDelay: packet.rootDelay,
+    rootDispersion: packet.rootDispersion,
+    precision: packet.precision,
+    receiveTimestamp: packet.receiveTimestamp,
+    transmitTimestamp: packet.transmitTimestamp
+  };
+}
+
+/**
+ * Construye el resultado parcial de un intercambio a partir del offset de la
+ * escala de referencia respecto al reloj local del servidor.
+ * El offset y el delay quedan en 0 hasta que el cliente informe t3.
+ */
+function buildExchangeResult(
+  T0: number,
+  serverReceiveTime: number,
+  referenceOffset: number,
+  server: string,
+  algorithm: SyncAlgorithmName,
+  upstream?: UpstreamInfo
+): SyncResult {
+  // Con la política smear, T1 y T2 se entregan en la escala suavizada alrededor del segundo intercalar
+  const referenceT2 = getEpochTimeMs() + referenceOffset;
+  const T1 = leapSeconds.apply(serverReceiveTime + referenceOffset);
+  const T2 = leapSeconds.apply(referenceT2);
+  const leapSmear = leapSeconds.smearCorrection(referenceT2);
+
+  return {
+    success: true,
+    serverTime: T2,
+    clientTime: Date.now(),
+    offset: 0,
+    roundTripTime: 0,
+    precision: 0,
+    server,
+    algorithm,
+    t0: T0,
+    t1: T1,
+    t2: T2,
+    t3: null,
+    delay: 0,
+    upstreamOffset: referenceOffset,
+    upstream,
+    ...(leapSmear !== 0 && { leapSmear })
+  };
+}
+
+/**
+ * Construye un resultado fallido para cualquier algoritmo
  */
-export async function getNTPTime(server: string = NTP_SERVERS.primary): Promise<{ time: number; roundTripTime: number }> {
-  return new Promise((resolve, reject) => {
-    const startTime = getHighPrecisionTime();
-    
-    ntpClient.getNetworkTime(server, 123, (err, date) => {
-      const endTime = getHighPrecisionTime();
-      const roundTripTime = hrtimeToMs(endTime - startTime);
-      
-      if (err) {
-        reject(new Error(`Error conectando a ${server}: ${err.message}`));
-        return;
+function buildFailedResult(T0: number, serverReceiveTime: number, algorithm: SyncAlgorithmName, error: string): SyncResult {
+  return {
+    success: false,
+    serverTime: 0,
+    clientTime: Date.now(),
+    offset: 0,
+    roundTripTime: 0,
+    precision: 0,
+    server: 'ninguno',
+    algorithm,
+    t0: T0,
+    t1: serverReceiveTime,
+    t2: 0,
+    t3: null,
+    delay: 0,
+    upstreamOffset: 0,
+    error
+  };
+}
+
+/**
+ * Selección de fuentes al estilo RFC 5905 (algoritmo de intersección).
+ * Cada fuente aporta [offset - distancia, offset + distancia]; se busca el menor número de
+ * falsetickers que deja una intersección con mayoría y sobreviven las fuentes cuyo offset cae en ella.
+ */
+export function selectTruechimers(readings: EnsembleReading[]): { low: number; high: number } | null {
+  const n = readings.length;
+  if (n === 0) return null;
+
+  const edges = readings
+    .flatMap(reading => {
+      const distance = Math.max(reading.rootDistance, MIN_ROOT_DISTANCE);
+      return [
+        { value: reading.offset - distance, type: 1 },
+        { value: reading.offset, type: 0 },
+        { value: reading.offset + distance, type: -1 }
+      ];
+    })
+    .sort((a, b) => a.value - b.value || b.type - a.type);
+
+  for (let allow = 0; 2 * allow < n; allow++) {
+    let found = 0;
+    let chime = 0;
+    let low = Infinity;
+    let high = -Infinity;
+
+    for (const edge of edges) {
+      chime += edge.type;
+      if (chime >= n - allow) {
+        low = edge.value;
+        break;
       }
-      
-      if (!date) {
-        reject(new Error(`No se recibió fecha del servidor ${server}`));
-        return;
+      if (edge.type === 0) found++;
+    }
+
+    chime = 0;
+    for (let i = edges.length - 1; i >= 0; i--) {
+      chime -= edges[i].type;
+      if (chime >= n - allow) {
+        high = edges[i].value;
+        break;
       }
-      
-      resolve({
-        time: date.getTime(),
-        roundTripTime
+      if (edges[i].type === 0) found++;
+    }
+
+    if (found > allow) continue;
+    if (high > low) return { low, high };
+  }
+
+  return null;
+}
+
+/**
+ * Clustering al estilo RFC 5905: mientras queden más de NMIN sobrevivientes, descarta el de
+ * mayor jitter de selección si éste supera el menor jitter propio de las fuentes.
+ */
+export function clusterSurvivors(survivors: EnsembleReading[]): { survivors: EnsembleReading[]; outliers: EnsembleReading[]; jitter: number } {
+  const remaining = [...survivors].sort((a, b) => a.rootDistance - b.rootDistance);
+  const outliers: EnsembleReading[] = [];
+
+  const selectionJitter = (reading: EnsembleReading) => {
+    if (remaining.length < 2) return 0;
+    const sumSquares = remaining.reduce((sum, other) => sum + (other.offset - reading.offset) ** 2, 0);
+    return Math.sqrt(sumSquares / (remaining.length - 1));
+  };
+
+  while (remaining.length > CLUSTER_MIN_SURVIVORS) {
+    const jitters = remaining.map(selectionJitter);
+    const maxJitter = Math.max(...jitters);
+    const minPeerJitter = Math.min(...remaining.map(r => r.jitter));
+
+    if (maxJitter <= minPeerJitter) break;
+
+    outliers.push(...remaining.splice(jitters.indexOf(maxJitter), 1));
+  }
+
+  return {
+    survivors: remaining,
+    outliers,
+    jitter: remaining.length > 0 ? selectionJitter(remaining[0]) : 0
+  };
+}
+
+/**
+ * Comprobación de cordura previa a la intersección, que acepta intervalos tan anchos como
+ * la distancia de cada fuente. Se marca como falseticker la fuente cuyo offset se aleja más
+ * de `threshold` ms de la mayoría del ensamble, o del modelo de reloj local (`reference`).
+ * Si todas las fuentes discrepan del modelo se asume que el equivocado es el modelo.
+ */
+export function rejectFalsetickers(readings: EnsembleReading[], reference: number | null, threshold: number): EnsembleReading[] {
+  const candidates = readings.filter(r => r.status !== 'unreachable');
+  const rejected: EnsembleReading[] = [];
+
+  const reject = (reading: EnsembleReading, rejection: string) => {
+    reading.status = 'falseticker';
+    reading.rejection = rejection;
+    rejected.push(reading);
+  };
+
+  // Contra las demás fuentes: con al menos 3, hace falta pertenecer a una mayoría que concuerde
+  if (candidates.length >= 3) {
+    const majority = Math.floor(candidates.length / 2) + 1;
+    const agreeing = candidates.map(reading =>
+      candidates.filter(other => Math.abs(other.offset - reading.offset) <= threshold).length
+    );
+
+    if (agreeing.some(count => count >= majority)) {
+      const offsets = candidates.map(r => r.offset).sort((a, b) => a - b);
+      const median = offsets[Math.floor(offsets.length / 2)];
+      candidates.forEach((reading, i) => {
+        if (agreeing[i] < majority) {
+          reject(reading, `Discrepa ${(reading.offset - median).toFixed(1)}ms de la mayoría del ensamble`);
+        }
       });
-    });
-  });
+    }
+  }
+
+  // Contra el modelo monotónico del lazo de disciplina
+  if (reference !== null) {
+    const remaining = candidates.filter(r => r.status !== 'falseticker');
+    const disagreeing = remaining.filter(r => Math.abs(r.offset - reference) > threshold);
+
+    if (disagreeing.length < remaining.length) {
+      disagreeing.forEach(reading => {
+        reject(reading, `Discrepa ${(reading.offset - reference).toFixed(1)}ms del modelo de reloj local`);
+      });
+    }
+  }
+
+  return rejected;
+}
+
+/**
+ * Aplica comprobación de cordura, selección, clustering y combinación (promedio ponderado
+ * por 1/distancia) sobre las lecturas de una consulta al ensamble.
+ * `reference` es el offset que predice el modelo de reloj local, si existe.
+ */
+export function selectAndCluster(readings: EnsembleReading[], reference: number | null = null): EnsembleSelection {
+  const reachable = readings.filter(r => r.status !== 'unreachable');
+  rejectFalsetickers(readings, reference, getConfig().ntp.falsetickerThreshold);
+
+  const candidates = reachable.filter(r => r.status !== 'falseticker');
+  const intersection = selectTruechimers(candidates);
+
+  const truechimers = intersection
+    ? candidates.filter(r => r.offset >= intersection.low && r.offset <= intersection.high)
+    : [];
+  const { survivors, outliers, jitter } = clusterSurvivors(truechimers);
+
+  for (const reading of candidates) {
+    reading.status = survivors.includes(reading)
+      ? 'survivor'
+      : outliers.includes(reading) ? 'outlier' : 'falseticker';
+  }
+
+  let offset: number | null = null;
+  if (survivors.length > 0) {
+    const weights = survivors.map(r => 1 / Math.max(r.rootDistance, MIN_ROOT_DISTANCE));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    offset = survivors.reduce((sum, r, i) => sum + r.offset * weights[i], 0) / totalWeight;
+  }
+
+  return {
+    timestamp: Date.now(),
+    readings,
+    offset,
+    jitter,
+    systemPeer: survivors[0]?.server ?? null,
+    intersection,
+    falsetickers: reachable.length - truechimers.length
+  };
 }
 
 /**
- * Implementación del algoritmo de Cristian
+ * Describe las fuentes que no aportaron al resultado de una selección
+ */
+function describeEnsembleFailure(selection: EnsembleSelection): string {
+  const reachable = selection.readings.filter(r => r.status !== 'unreachable');
+  if (reachable.length > 0) {
+    return `Sin mayoría entre ${reachable.length} fuentes NTP (${selection.falsetickers} falsetickers)`;
+  }
+
+  const errors = selection.readings.map(r => `${r.server}: ${r.error}`).join('. ');
+  return `Ninguna fuente NTP respondió. ${errors}`;
+}
+
+/**
+ * Implementación del algoritmo de Cristian sobre el ensamble de servidores NTP
  * T0: Tiempo cuando el cliente envía la solicitud
  * T1: Tiempo cuando el servidor recibe la solicitud
  * T2: Tiempo cuando el servidor envía la respuesta
- * T3: Tiempo cuando el cliente recibe la respuesta
- */
-export async function cristianSyncAlgorithm(clientRequestTime: number): Promise<SyncResult> {
-  // Normalización: si el valor es muy grande, probablemente viene en nanosegundos
-  let T0 = clientRequestTime;
-  if (T0 > 1e12) {
-    // Si el valor es mayor a 1e12, probablemente está en nanosegundos
-    T0 = Math.floor(T0 / 1e6); // Convertir a milisegundos
-  }
-  
-  const T0_ms = Number(T0); // clientRequestTime debe ser timestamp absoluto en ms
-  let serverUsed = NTP_SERVERS.primary;
-  
-  try {
-    // Intentar con servidor primario usando circuit breaker
-    console.log(`🔄 Intentando sincronización con servidor primario: ${NTP_SERVERS.primary}`);
-    const { time: serverTime, roundTripTime } = await getNTPTimeWithCircuitBreaker(NTP_SERVERS.primary);
-    
-    // Actualizar servidor activo en métricas manager
-    ntpMetricsManager.setActiveServer(NTP_SERVERS.primary);
-    
-    console.log(`✅ Sincronización exitosa con servidor primario: ${NTP_SERVERS.primary}`);
-    // Eliminada declaración previa de T3, ahora se usa Date.now() como T3
-    const T1_T2 = serverTime; // Tiempo del servidor en milisegundos
-    
-    // --- CORRECCIÓN DE CÁLCULO DE SINCRONIZACIÓN ---
-    // Usar tiempos absolutos para todos los cálculos
-    const T3 = Date.now(); // Tiempo absoluto cuando el cliente recibe la respuesta
-    const actualRTT = T3 - T0_ms;
-    // Offset según Cristian: offset = T1_T2 - (T0 + RTT/2)
-    const offset = T1_T2 - (T0_ms + actualRTT / 2);
-    // Precisión: la mitad del RTT
-    const precision = actualRTT / 2;
-    return {
-      success: true,
-      serverTime: T1_T2,
-      clientTime: T3,
-      offset,
-      roundTripTime: actualRTT,
-      precision,
-      server: serverUsed
-    };
-    // --- FIN CORRECCIÓN ---
-    
-  } catch (primaryError) {
-    // Failover al servidor secundario
-    console.warn(`⚠️ Servidor primario ${NTP_SERVERS.primary} falló: ${primaryError}. Intentando servidor de respaldo...`);
-    serverUsed = NTP_SERVERS.secondary;
-    
-    try {
-      console.log(`🔄 Failover: Intentando sincronización con servidor secundario: ${NTP_SERVERS.secondary}`);
-      const { time: serverTime, roundTripTime } = await getNTPTimeWithCircuitBreaker(NTP_SERVERS.secondary);
-      
-      // Actualizar servidor activo en métricas manager
-      ntpMetricsManager.setActiveServer(NTP_SERVERS.secondary);
-      
-      console.log(`✅ Failover exitoso: Sincronización completada con servidor secundario: ${NTP_SERVERS.secondary}`);
-      // Eliminada declaración previa de T3, ahora se usa Date.now() como T3
-      const T1_T2 = serverTime;
-      
-      // --- CORRECCIÓN DE CÁLCULO DE SINCRONIZACIÓN EN FAILOVER ---
-      // Usar tiempos absolutos para todos los cálculos
-      const T0_ms = Number(T0); // clientRequestTime debe ser timestamp absoluto en ms
-      const T3 = Date.now(); // Tiempo absoluto cuando el cliente recibe la respuesta
-      const actualRTT = T3 - T0_ms;
-      // Offset según Cristian: offset = T1_T2 - (T0 + RTT/2)
-      const offset = T1_T2 - (T0_ms + actualRTT / 2);
-      // Precisión: la mitad del RTT
-      const precision = actualRTT / 2;
-      return {
-        success: true,
-        serverTime: T1_T2,
-        clientTime: T3,
-        offset,
-        roundTripTime: actualRTT,
-        precision,
-        server: serverUsed
-      };
-      // --- FIN CORRECCIÓN ---
-      
-    } catch (secondaryError) {
-      console.error(`❌ Failover falló: Ambos servidores no disponibles. Primario: ${primaryError}. Secundario: ${secondaryError}`);
-      return {
-        success: false,
-        serverTime: 0,
-        clientTime: Date.now(),
-        offset: 0,
-        roundTripTime: 0,
-        precision: 0,
-        server: 'ninguno',
-        error: `Ambos servidores fallaron. Primario: ${primaryError}. Secundario: ${secondaryError}`
-      };
+ * T3: Tiempo cuando el cliente recibe la respuesta (lo aporta el cliente)
+ * La referencia es el modelo del lazo de disciplina; mientras éste no tenga referencia
+ * se usa el offset combinado de una consulta directa al ensamble.
+ */
+export async function cristianSyncAlgorithm(clientRequestTime: number, serverReceiveTime: number = getEpochTimeMs()): Promise<SyncResult> {
+  return withSpan('cristianSyncAlgorithm', {}, async (span) => {
+    const T0 = normalizeClientTimestamp(clientRequestTime);
+
+    const reference = clockDiscipline.getReference(serverReceiveTime);
+    span.setAttribute('sync.reference', reference ? 'discipline' : 'ensemble');
+    if (reference) {
+      return buildExchangeResult(
+        T0,
+        serverReceiveTime,
+        reference.offset,
+        reference.systemPeer?.server ?? 'modelo local',
+        'cristian',
+        reference.systemPeer?.upstream
+      );
+    }
+
+    const selection = await queryNTPEnsemble();
+
+    if (selection.offset === null || !selection.systemPeer) {
+      const error = describeEnsembleFailure(selection);
+      console.error(`❌ Ensamble NTP sin referencia válida. ${error}`);
+      return buildFailedResult(T0, serverReceiveTime, 'cristian', error);
+    }
+
+    const survivors = selection.readings.filter(r => r.status === 'survivor').length;
+    console.log(`✅ Ensamble NTP: ${survivors}/${selection.readings.length} sobrevivientes, system peer ${selection.systemPeer}`);
+    span.setAttributes({ 'ntp.system_peer': selection.systemPeer, 'ntp.survivors': survivors });
+    const systemPeer = selection.readings.find(r => r.server === selection.systemPeer);
+    return buildExchangeResult(T0, serverReceiveTime, selection.offset, selection.systemPeer, 'cristian', systemPeer?.upstream);
+  });
+}
+
+/**
+ * Algoritmo de intersección de Marzullo
+ * Encuentra el menor intervalo consistente con la mayor cantidad de fuentes.
+ * Los extremos que se tocan se consideran intersección (los inicios se ordenan antes que los finales).
+ */
+export function marzulloIntersection(intervals: OffsetInterval[]): {
+  low: number;
+  high: number;
+  count: number;
+  sources: string[];
+} | null {
+  if (intervals.length === 0) return null;
+
+  const edges = intervals
+    .flatMap(interval => [
+      { offset: interval.low, type: 1 },
+      { offset: interval.high, type: -1 }
+    ])
+    .sort((a, b) => a.offset - b.offset || b.type - a.type);
+
+  let best = 0;
+  let count = 0;
+  let low = 0;
+  let high = 0;
+
+  for (let i = 0; i < edges.length; i++) {
+    count += edges[i].type;
+    if (count > best) {
+      best = count;
+      low = edges[i].offset;
+      high = edges[i + 1].offset; // Siempre existe: todo inicio tiene un final posterior
     }
   }
+
+  const sources = intervals
+    .filter(interval => interval.low <= low && interval.high >= high)
+    .map(interval => interval.source);
+
+  return { low, high, count: best, sources };
 }
 
+/**
+ * Sincronización por intersección de Marzullo sobre todas las fuentes NTP.
+ * Cada fuente aporta el intervalo [offset - delay/2, offset + delay/2] y la referencia
+ * es el punto medio de la intersección con más fuentes.
+ */
+export async function marzulloSyncAlgorithm(clientRequestTime: number, serverReceiveTime: number = getEpochTimeMs()): Promise<SyncResult> {
+  const T0 = normalizeClientTimestamp(clientRequestTime);
+
+  // Con el lazo de disciplina activo se reutiliza su última consulta, extrapolando la deriva
+  const reference = clockDiscipline.getReference();
+  const lastSelection = ntpMetricsManager.getLastSelection();
+  const selection = reference && lastSelection ? lastSelection : await queryNTPEnsemble();
+  const drift = reference && lastSelection
+    ? reference.frequency * 1e-6 * (Date.now() - lastSelection.timestamp)
+    : 0;
+
+  // Las fuentes que no pasaron la comprobación de cordura tampoco votan en la intersección
+  const intervals = selection.readings
+    .filter(r => r.status !== 'unreachable' && !r.rejection)
+    .map(r => ({
+      source: r.server,
+      low: r.offset + drift - r.delay / 2,
+      high: r.offset + drift + r.delay / 2
+    }));
+  const intersection = marzulloIntersection(intervals);
+
+  if (!intersection) {
+    const error = describeEnsembleFailure(selection);
+    console.error(`❌ Marzullo sin fuentes disponibles. ${error}`);
+    return buildFailedResult(T0, serverReceiveTime, 'marzullo', error);
+  }
+
+  console.log(`✅ Intersección de Marzullo: ${intersection.count}/${selection.readings.length} fuentes [${intersection.low.toFixed(2)}, ${intersection.high.toFixed(2)}]ms`);
+
+  const referenceOffset = (intersection.low + intersection.high) / 2;
+  const bestSource = selection.readings.find(r => r.server === intersection.sources[0]);
+  return buildExchangeResult(T0, serverReceiveTime, referenceOffset, intersection.sources.join(' ∩ '), 'marzullo', bestSource?.upstream);
+}
+
+/**
+ * Algoritmo de Berkeley: el servidor actúa como coordinador y la referencia es el
+ * promedio de los relojes conocidos (el propio, con desviación 0, y el de cada cliente activo).
+ * La desviación de cada cliente se obtiene de su última sincronización registrada.
+ */
+export async function berkeleySyncAlgorithm(
+  clientRequestTime: number,
+  serverReceiveTime: number = getEpochTimeMs(),
+  clientClockDeviations: number[] = []
+): Promise<SyncResult> {
+  const T0 = normalizeClientTimestamp(clientRequestTime);
+  const deviations = [0, ...clientClockDeviations];
+  const referenceOffset = deviations.reduce((sum, d) => sum + d, 0) / deviations.length;
+
+  console.log(`✅ Berkeley: promedio de ${deviations.length} relojes, corrección de referencia ${referenceOffset.toFixed(2)}ms`);
+  return buildExchangeResult(T0, serverReceiveTime, referenceOffset, `berkeley (${deviations.length} relojes)`, 'berkeley');
+}
+
+// Registro de algoritmos de sincronización disponibles
+const syncAlgorithms: Map<SyncAlgorithmName, SyncAlgorithm> = new Map();
+
+export function registerSyncAlgorithm(algorithm: SyncAlgorithm) {
+  syncAlgorithms.set(algorithm.name, algorithm);
+}
+
+export function getSyncAlgorithm(name: SyncAlgorithmName = DEFAULT_SYNC_ALGORITHM): SyncAlgorithm | undefined {
+  return syncAlgorithms.get(name);
+}
+
+export function listSyncAlgorithms(): SyncAlgorithm[] {
+  return Array.from(syncAlgorithms.values());
+}
+
+registerSyncAlgorithm({
+  name: 'cristian',
+  description: 'Offset combinado de las fuentes NTP tras selección y clustering (RFC 5905)',
+  synchronize: (context) => cristianSyncAlgorithm(context.clientRequestTime, context.serverReceiveTime)
+});
+
+registerSyncAlgorithm({
+  name: 'berkeley',
+  description: 'Promedio de los relojes del servidor y de los clientes activos',
+  synchronize: (context) => berkeleySyncAlgorithm(context.clientRequestTime, context.serverReceiveTime, context.clientClockDeviations)
+});
+
+registerSyncAlgorithm({
+  name: 'marzullo',
+  description: 'Intersección de intervalos sobre todas las fuentes NTP',
+  synchronize: (context) => marzulloSyncAlgorithm(context.clientRequestTime, context.serverReceiveTime)
+});
+
 /**
  * Valida si un resultado de sincronización es confiable
  */
 export function isReliableSync(result: SyncResult): boolean {
-  if (!result.success) return false;
+  // Un intercambio sin t3 aún no tiene offset ni delay reales
+  if (!result.success || result.t3 === null) return false;
   
   // Consideramos confiable si:
-  // 1. RTT < 1000ms (latencia razonable)
-  // 2. Precisión < 100ms
-  const MAX_RTT = 1000;
-  const MAX_PRECISION = 100;
+  // 1. RTT < sync.maxRtt (1000ms por defecto, latencia razonable)
+  // 2. Precisión < sync.maxPrecision (100ms por defecto)
+  const { maxRtt, maxPrecision } = getConfig().sync;
   
-  return result.roundTripTime < MAX_RTT && result.precision < MAX_PRECISION;
+  return result.roundTripTime < maxRtt && result.precision < maxPrecision;
 }
 
 /**
@@ -230,4 +744,140 @@ export function calculateSyncStats(results: SyncResult[]): {
     successRate,
     reliability
   };
-}
\ No newline at end of file
+}
+
+// Unidades aceptadas en las duraciones de las series temporales
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Convierte una duración como `15m`, `1h`, `7d` o milisegundos a secas a milisegundos
+ */
+export function parseDuration(value: string): number | null {
+  const match = /^(\d+)(ms|s|m|h|d)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const duration = Number(match[1]) * DURATION_UNITS[match[2] || 'ms'];
+  return duration > 0 ? duration : null;
+}
+
+export interface Percentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * Percentiles con interpolación lineal; null si no hay valores
+ */
+export function calculatePercentiles(values: number[]): Percentiles | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (p: number) => {
+    const rank = (sorted.length - 1) * p;
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+  };
+
+  return {
+    p50: at(0.5),
+    p90: at(0.9),
+    p99: at(0.99),
+    min: sorted[0],
+    max: sorted[sorted.length - 1]
+  };
+}
+
+// Punto de una serie temporal de métricas
+export interface MetricsSeriesBucket {
+  start: number;
+  end: number;
+  syncs: {
+    count: number;
+    successRate: number | null;
+    offset: Percentiles | null;
+    rtt: Percentiles | null;
+  };
+  upstream: Record<string, {
+    samples: number;
+    averageLatency: number;
+    successRate: number;
+    delay: Percentiles | null; // Delay medido en la selección del ensamble
+  }>;
+}
+
+/**
+ * Agrupa resultados de sincronización e instantáneas upstream en buckets de tamaño fijo
+ * entre from (inclusive) y to (exclusive), ambos según el reloj del servidor. Los
+ * percentiles de offset y RTT solo usan intercambios completos.
+ */
+export function buildMetricsSeries(
+  results: SyncResult[],
+  snapshots: MetricSnapshot[],
+  from: number,
+  to: number,
+  bucketSize: number
+): MetricsSeriesBucket[] {
+  const bucketCount = Math.ceil((to - from) / bucketSize);
+  const indexOf = (time: number) => Math.floor((time - from) / bucketSize);
+
+  const resultsByBucket: SyncResult[][] = Array.from({ length: bucketCount }, () => []);
+  results.forEach(result => {
+    const index = indexOf(syncResultTime(result));
+    if (index >= 0 && index < bucketCount) resultsByBucket[index].push(result);
+  });
+
+  const snapshotsByBucket: MetricSnapshot[][] = Array.from({ length: bucketCount }, () => []);
+  snapshots.forEach(snapshot => {
+    const index = indexOf(snapshot.timestamp);
+    if (index >= 0 && index < bucketCount) snapshotsByBucket[index].push(snapshot);
+  });
+
+  return resultsByBucket.map((bucketResults, index) => {
+    const completed = bucketResults.filter(result => result.success && result.t3 !== null);
+
+    const upstream: MetricsSeriesBucket['upstream'] = {};
+    const byServer = new Map<string, MetricSnapshot[]>();
+    snapshotsByBucket[index].forEach(snapshot => {
+      if (!byServer.has(snapshot.server)) byServer.set(snapshot.server, []);
+      byServer.get(snapshot.server)!.push(snapshot);
+    });
+
+    for (const [server, serverSnapshots] of byServer.entries()) {
+      const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+      upstream[server] = {
+        samples: serverSnapshots.length,
+        averageLatency: mean(serverSnapshots.map(snapshot => snapshot.averageLatency)),
+        successRate: mean(serverSnapshots.map(snapshot => snapshot.successRate)),
+        delay: calculatePercentiles(
+          serverSnapshots.filter(snapshot => snapshot.selection).map(snapshot => snapshot.selection!.delay)
+        )
+      };
+    }
+
+    const start = from + index * bucketSize;
+    return {
+      start,
+      end: Math.min(start + bucketSize, to),
+      syncs: {
+        count: bucketResults.length,
+        successRate: bucketResults.length > 0
+          ? (bucketResults.filter(result => result.success).length / bucketResults.length) * 100
+          : null,
+        offset: calculatePercentiles(completed.map(result => result.offset)),
+        rtt: calculatePercentiles(completed.map(result => result.roundTripTime))
+      },
+      upstream
+    };
+  });
+}
@@ -16,13 +16,23 @@ import {
   useServerConnection,
   useLocalStorage,
   useRealTimeDisplay,
+  useBerkeleyCorrection,
+  useClockModel,
+  useLiveChannel,
+  useAuth,
+  useClientRegistration,
 } from './hooks';
-import { validateClientName, validateSettings } from './types';
+import { validateClientName, validateSettings, DEFAULT_BURST_SAMPLES, SYNC_ALGORITHMS } from './types';
 import type { AppSettings, ClientState } from './types';
 import SyncButton from './components/SyncButton';
 import MetricsCard from './components/MetricsCard';
 import SyncHistory from './components/SyncHistory';
 import ServerStatus from './components/ServerStatus';
+import NTPServerAdmin from './components/NTPServerAdmin';
+import LiveFeed from './components/LiveFeed';
+import LogViewer from './components/LogViewer';
+import AuthPanel from './components/AuthPanel';
+import LeapSecondBanner from './components/LeapSecondBanner';
 
 // Crear el cliente de React Query
 const queryClient = new QueryClient({
@@ -43,9 +53,18 @@ function App() {
 }
 
 function CristianSyncApp() {
-  // Estados locales
+  const [clientState, setClientState] = useLocalStorage<ClientState>('cristian-client', {
+    id: generateClientId(),
+    name: `Cliente-${Math.random().toString(36).substring(2, 8)}`,
+    isConnected: false,
+    syncHistory: [], // Asegurar que siempre inicie vacío
+    autoSync: false,
+    syncInterval: 30,
+  });
+
+  // Estados locales; el id persistido identifica al cliente en el registro del servidor
   const [apiService] = useState(() => 
-    createApiService('http://localhost:4000', generateClientId())
+    createApiService('http://localhost:4000', clientState.id)
   );
   
   // Flag para evitar múltiples inicializaciones
@@ -56,27 +75,25 @@ function CristianSyncApp() {
     serverUrl: 'http://localhost:4000',
     autoSyncEnabled: false,
     syncInterval: 30,
+    syncAlgorithm: 'cristian',
     maxHistoryItems: 50,
     showAdvancedMetrics: false,
     theme: 'system',
     notifications: true,
   });
 
-  const [clientState, setClientState] = useLocalStorage<ClientState>('cristian-client', {
-    id: generateClientId(),
-    name: `Cliente-${Math.random().toString(36).substring(2, 8)}`,
-    isConnected: false,
-    syncHistory: [], // Asegurar que siempre inicie vacío
-    autoSync: false,
-    syncInterval: 30,
-  });
-
   // Hooks
-  const { sync, isLoading: isSyncing, lastResult } = useSync(apiService);
+  const live = useLiveChannel(apiService); // Canal en vivo; sin él los hooks hacen polling
+  const { sync, syncBurst, isLoading: isSyncing, lastResult } = useSync(apiService);
   const { data: serverTime } = useServerTime(apiService, true);
   const { isConnected } = useServerConnection(apiService);
   const autoSync = useAutoSync(apiService, settings.syncInterval);
   const currentTime = useRealTimeDisplay(); // Tiempo local en tiempo real
+  const berkeley = useBerkeleyCorrection(apiService);
+  const clock = useClockModel(clientState.syncHistory);
+  const clockReading = clock.read(); // Se recalcula en cada tick de currentTime
+  const auth = useAuth(apiService);
+  useClientRegistration(apiService, clientState.name);
 
   // Formularios
   const clientNameForm = useForm({ 
@@ -93,6 +110,11 @@ function CristianSyncApp() {
   }, [clientState.name, clientNameForm]);
 
   // Efectos
+  useEffect(() => {
+    // Configuraciones guardadas antes de existir el selector no traen algoritmo
+    apiService.setSyncAlgorithm(settings.syncAlgorithm ?? 'cristian');
+  }, [apiService, settings.syncAlgorithm]);
+
   useEffect(() => {
     setClientState(prev => ({ ...prev, isConnected }));
   }, [isConnected]); // Remover setClientState de las dependencias
@@ -112,16 +134,22 @@ function CristianSyncApp() {
 
   useEffect(() => {
     if (lastResult) {
+      // En una ráfaga se guardan todas las muestras, marcando la elegida
+      const newEntries = lastResult.burst ? lastResult.burst.samples : [lastResult.syncResult];
+
       setClientState(prev => ({
         ...prev,
         lastSync: lastResult.syncResult,
-        syncHistory: [...prev.syncHistory, lastResult.syncResult].slice(-settings.maxHistoryItems),
+        syncHistory: [...prev.syncHistory, ...newEntries].slice(-settings.maxHistoryItems),
       }));
 
       // Mostrar notificación con react-toastify
       if (settings.notifications) {
         if (lastResult.success) {
-          toast.success(`Sincronización exitosa - Offset: ${lastResult.syncResult.offset.toFixed(2)}ms con ${lastResult.syncResult.server}`, {
+          const burstInfo = lastResult.burst
+            ? ` (mejor de ${lastResult.burst.samples.length}, dispersión ${lastResult.burst.dispersion.toFixed(2)}ms)`
+            : '';
+          toast.success(`Sincronización exitosa - Offset: ${lastResult.syncResult.offset.toFixed(2)}ms con ${lastResult.syncResult.server}${burstInfo}`, {
             position: 'top-right',
             autoClose: 3000,
           });
@@ -140,6 +168,10 @@ function CristianSyncApp() {
     await sync();
   };
 
+  const handleBurstSync = async () => {
+    await syncBurst(DEFAULT_BURST_SAMPLES);
+  };
+
   const handleClientNameSubmit = (data: { name: string }) => {
     const validation = validateClientName(data);
     if (validation.success) {
@@ -227,6 +259,9 @@ function CristianSyncApp() {
         </div>
       </header>
 
+      {/* Aviso de segundo intercalar */}
+      <LeapSecondBanner apiService={apiService} />
+
       {/* Contenedor de ToastContainer para notificaciones */}
       <ToastContainer
         position="top-right"
@@ -260,9 +295,40 @@ function CristianSyncApp() {
                     <div className="text-sm text-gray-600">
                       Servidor: {serverTime.timezone}
                     </div>
-                    <div className="text-xs text-gray-500">
-                      Local: {formatTime(currentTime)}
+                    <div className="grid grid-cols-3 gap-2 pt-2 text-xs">
+                      <div>
+                        <div className="text-gray-500">Local</div>
+                        <div className="font-mono text-gray-700">
+                          {formatTime(clockReading?.localTime ?? currentTime)}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500">Corregido</div>
+                        <div className="font-mono text-green-700">
+                          {clockReading ? formatTime(clockReading.time) : '--:--:--.---'}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500">Error predicho</div>
+                        <div className="font-mono text-gray-700">
+                          {clockReading ? `±${clockReading.errorBound.toFixed(2)}ms` : 'Sin modelo'}
+                        </div>
+                      </div>
                     </div>
+                    {clock.model && clockReading && (
+                      <div className="text-xs text-gray-500">
+                        Modelo: offset {clockReading.offset >= 0 ? '+' : ''}{clockReading.offset.toFixed(2)}ms,
+                        deriva {(clock.model.drift * 1e6).toFixed(2)} ppm ({clock.model.samples} muestras)
+                      </div>
+                    )}
+                    {berkeley.lastCorrection && (
+                      <div className="text-xs text-purple-700">
+                        Berkeley: {formatTime(currentTime + berkeley.totalCorrection)}
+                        {' '}(última corrección {berkeley.lastCorrection.correction >= 0 ? '+' : ''}
+                        {berkeley.lastCorrection.correction.toFixed(2)}ms, ronda {berkeley.lastCorrection.round}
+                        {berkeley.lastCorrection.discarded ? ', reloj descartado como outlier' : ''})
+                      </div>
+                    )}
                   </div>
                 ) : (
                   <div className="text-3xl font-mono font-bold text-gray-400">
@@ -274,6 +340,8 @@ function CristianSyncApp() {
               <div className="flex flex-col sm:flex-row gap-4 items-center justify-center">
                 <SyncButton
                   onSync={handleSync}
+                  onBurstSync={handleBurstSync}
+                  burstSamples={DEFAULT_BURST_SAMPLES}
                   isLoading={isSyncing}
                   disabled={!isConnected}
                   size="lg"
@@ -328,6 +396,7 @@ function CristianSyncApp() {
                 
                 <MetricsCard
                   title="Servidor"
+                  subtitle={clientState.lastSync.algorithm ? `Algoritmo: ${clientState.lastSync.algorithm}` : undefined}
                   value={clientState.lastSync.server}
                   icon="🏢"
                   color="blue"
@@ -338,16 +407,25 @@ function CristianSyncApp() {
             {/* Estado del servidor */}
             <ServerStatus apiService={apiService} />
 
+            {/* Administración de servidores NTP (lectura para operator, edición para admin) */}
+            {auth.hasRole('operator') && <NTPServerAdmin apiService={apiService} />}
+
             {/* Historial de sincronización */}
             <SyncHistory 
               history={clientState.syncHistory}
               maxItems={10}
               showDetails={settings.showAdvancedMetrics}
             />
+
+            {/* Logs del servidor en vivo */}
+            {auth.hasRole('operator') && <LogViewer apiService={apiService} />}
           </div>
 
           {/* Panel lateral */}
           <div className="space-y-6">
+            {/* Sesión y rol */}
+            <AuthPanel apiService={apiService} />
+
             {/* Configuración del cliente */}
             <div className="bg-white rounded-lg border-2 border-gray-200 p-4">
               <h3 className="text-lg font-semibold text-gray-800 mb-4">
@@ -420,6 +498,22 @@ function CristianSyncApp() {
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Algoritmo de Sincronización
+                  </label>
+                  <select
+                    {...settingsForm.register('syncAlgorithm')}
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                  >
+                    {SYNC_ALGORITHMS.map((algorithm) => (
+                      <option key={algorithm.value} value={algorithm.value}>
+                        {algorithm.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
                 <div className="space-y-2">
                   <label className="flex items-center gap-2 text-sm">
                     <input
@@ -449,6 +543,9 @@ function CristianSyncApp() {
               </form>
             </div>
 
+            {/* Canal en vivo */}
+            <LiveFeed live={live} clientId={apiService.getClientId()} />
+
             {/* Estadísticas rápidas */}
             <div className="bg-white rounded-lg border-2 border-gray-200 p-4">
               <h3 className="text-lg font-semibold text-gray-800 mb-4">
@@ -0,0 +1,89 @@
+import { useForm } from 'react-hook-form';
+import type { CristianApiService } from '../services/api';
+import { useAuth } from '../hooks';
+import type { AuthRole } from '../types';
+
+interface AuthPanelProps {
+  apiService: CristianApiService;
+}
+
+const roleColors: Record<AuthRole, string> = {
+  viewer: 'bg-gray-100 text-gray-700',
+  operator: 'bg-blue-100 text-blue-800',
+  admin: 'bg-purple-100 text-purple-800',
+};
+
+function AuthPanel({ apiService }: AuthPanelProps) {
+  const { session, role, authEnabled, login, logout, isLoggingIn } = useAuth(apiService);
+  const loginForm = useForm({ defaultValues: { apiKey: '' } });
+
+  const handleLogin = async ({ apiKey }: { apiKey: string }) => {
+    try {
+      await login(apiKey.trim());
+      loginForm.reset();
+    } catch {
+      // El hook ya notifica el error
+    }
+  };
+
+  const isAnonymous = !session || session.method === 'anonymous';
+
+  return (
+    <div className="bg-white rounded-lg border-2 border-gray-200 p-4">
+      <h3 className="text-lg font-semibold text-gray-800 mb-4">
+        🔐 Sesión
+      </h3>
+
+      {session && !authEnabled ? (
+        <p className="text-sm text-gray-600">
+          Autenticación deshabilitada en el servidor: todas las operaciones están permitidas
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-700">
+              {isAnonymous ? 'Anónimo' : session?.subject}
+            </span>
+            <span className={`px-2 py-0.5 rounded text-xs font-medium ${role ? roleColors[role] : 'bg-red-100 text-red-800'}`}>
+              {role ?? 'sin acceso'}
+            </span>
+          </div>
+
+          {session?.expiresAt && (
+            <div className="text-xs text-gray-500">
+              Expira: {new Date(session.expiresAt).toLocaleString('es-ES')}
+            </div>
+          )}
+
+          {isAnonymous ? (
+            <form onSubmit={loginForm.handleSubmit(handleLogin)} className="flex gap-2">
+              <input
+                {...loginForm.register('apiKey', { required: true })}
+                type="password"
+                placeholder="Clave de API"
+                autoComplete="off"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <button
+                type="submit"
+                disabled={isLoggingIn}
+                className="px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:bg-gray-300"
+              >
+                {isLoggingIn ? '⏳' : 'Entrar'}
+              </button>
+            </form>
+          ) : (
+            <button
+              onClick={logout}
+              className="w-full px-3 py-2 bg-gray-200 text-gray-700 rounded-lg text-sm hover:bg-gray-300"
+            >
+              Cerrar sesión
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AuthPanel;
@@ -0,0 +1,73 @@
+import type { CristianApiService } from '../services/api';
+import { useServerHealth } from '../hooks';
+
+interface LeapSecondBannerProps {
+  apiService: CristianApiService;
+}
+
+const POLICY_LABELS = {
+  step: 'salto (el segundo se repite)',
+  smear: 'smear lineal de 24 h',
+};
+
+// Cuenta regresiva legible hasta el segundo intercalar
+const formatCountdown = (ms: number) => {
+  const days = Math.floor(ms / 86400000);
+  const hours = Math.floor((ms % 86400000) / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${Math.floor((ms % 60000) / 1000)}s`;
+};
+
+/**
+ * Aviso de segundo intercalar próximo, smear en curso o tabla del IERS vencida
+ */
+function LeapSecondBanner({ apiService }: LeapSecondBannerProps) {
+  const { health } = useServerHealth(apiService);
+  const leap = health?.leap;
+  if (!leap) return null;
+
+  const { upcoming, table, smearCorrection } = leap;
+  const tableProblem = leap.error
+    ? `No se pudo cargar la tabla de segundos intercalares: ${leap.error}`
+    : table?.expired
+      ? `La tabla de segundos intercalares venció el ${new Date(table.expiresAt!).toLocaleDateString('es-ES')}`
+      : null;
+
+  if (!upcoming && smearCorrection === 0 && !tableProblem) return null;
+
+  // El segundo se inserta (23:59:60) o elimina (23:59:58 es el último) al final del día anterior
+  const lastDay = upcoming ? new Date(upcoming.at - 1000) : null;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-4 space-y-2">
+      {upcoming && lastDay && (
+        <div className="p-3 rounded-lg border-2 border-indigo-200 bg-indigo-50 text-sm text-indigo-900">
+          📅 Segundo intercalar {upcoming.type === 'insert' ? 'positivo' : 'negativo'} el{' '}
+          <span className="font-medium">
+            {lastDay.toLocaleDateString('es-ES', { timeZone: 'UTC' })} a las {upcoming.type === 'insert' ? '23:59:60' : '23:59:59'} UTC
+          </span>
+          {' '}(en {formatCountdown(upcoming.inMs)})
+          {' '}· política: {POLICY_LABELS[leap.policy]}
+          {upcoming.taiOffset !== null && ` · TAI − UTC pasa a ${upcoming.taiOffset} s`}
+          {upcoming.source === 'upstream' && ' · anunciado por los servidores NTP'}
+        </div>
+      )}
+
+      {smearCorrection !== 0 && (
+        <div className="p-3 rounded-lg border-2 border-blue-200 bg-blue-50 text-sm text-blue-900">
+          ⏳ Smear del segundo intercalar en curso: la hora entregada se corrige {smearCorrection.toFixed(1)}ms
+        </div>
+      )}
+
+      {tableProblem && (
+        <div className="p-3 rounded-lg border-2 border-yellow-200 bg-yellow-50 text-sm text-yellow-800">
+          ⚠️ {tableProblem}. Solo se detectarán los eventos que anuncien los servidores NTP.
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default LeapSecondBanner;
@@ -0,0 +1,102 @@
+import type { UseLiveChannelReturn, LiveLogEntry } from '../types';
+
+interface LiveFeedProps {
+  live: UseLiveChannelReturn;
+  clientId: string;
+}
+
+const levelColors: Record<LiveLogEntry['level'], string> = {
+  ERROR: 'text-red-700',
+  WARN: 'text-yellow-700',
+  INFO: 'text-blue-700',
+  DEBUG: 'text-gray-500',
+  TRACE: 'text-gray-400',
+};
+
+function LiveFeed({ live, clientId }: LiveFeedProps) {
+  const otherSyncs = live.syncs.filter(event => event.clientId !== clientId).slice(-5).reverse();
+  const recentLogs = live.logs.slice(-8).reverse();
+
+  const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString('es-ES', { hour12: false });
+
+  return (
+    <div className="bg-white rounded-lg border-2 border-gray-200 p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">
+          📡 En Vivo
+        </h3>
+        <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+          live.isLive ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+        }`}>
+          {live.isLive ? 'WebSocket' : 'Polling'}
+        </span>
+      </div>
+
+      {!live.isLive && (
+        <p className="text-xs text-gray-500 mb-3">
+          Canal en vivo no disponible; los datos se actualizan por polling.
+        </p>
+      )}
+
+      {live.metrics && (
+        <div className="grid grid-cols-2 gap-2 text-sm mb-4">
+          <div>
+            <span className="text-gray-600">Sincronizaciones:</span>
+            <div className="font-medium">{live.metrics.system.totalSyncs}</div>
+          </div>
+          <div>
+            <span className="text-gray-600">Sesiones activas:</span>
+            <div className="font-medium">{live.metrics.system.activeSessions}</div>
+          </div>
+        </div>
+      )}
+
+      {live.lastBreakerTransition && (
+        <div className={`mb-4 p-2 rounded text-xs ${
+          live.lastBreakerTransition.state === 'closed' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+        }`}>
+          Circuit breaker de {live.lastBreakerTransition.server}: {live.lastBreakerTransition.state}
+          {' '}({formatTime(live.lastBreakerTransition.timestamp)})
+        </div>
+      )}
+
+      <div className="mb-4">
+        <h4 className="text-sm font-medium text-gray-700 mb-2">Otros clientes</h4>
+        {otherSyncs.length === 0 ? (
+          <p className="text-xs text-gray-500">Sin sincronizaciones recientes</p>
+        ) : (
+          <ul className="space-y-1 text-xs">
+            {otherSyncs.map(({ clientId: otherClientId, result }) => (
+              <li key={`${otherClientId}-${result.t0}`} className="flex justify-between gap-2">
+                <span className="truncate text-gray-700">{otherClientId}</span>
+                <span className={result.success ? 'text-green-700' : 'text-red-700'}>
+                  {result.success
+                    ? `${result.offset >= 0 ? '+' : ''}${result.offset.toFixed(1)}ms / ${result.roundTripTime.toFixed(1)}ms`
+                    : 'fallo'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-2">Logs</h4>
+        {recentLogs.length === 0 ? (
+          <p className="text-xs text-gray-500">Sin entradas</p>
+        ) : (
+          <ul className="space-y-1 text-xs font-mono">
+            {recentLogs.map((entry, index) => (
+              <li key={`${entry.timestamp}-${index}`} className="truncate">
+                <span className={levelColors[entry.level]}>{entry.level}</span>{' '}
+                <span className="text-gray-700">{entry.message}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default LiveFeed;
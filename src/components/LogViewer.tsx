@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import type { CristianApiService } from '../services/api';
+import { useLogStream } from '../hooks';
+import type { LiveLogEntry, LogStreamFilter } from '../types';
+
+interface LogViewerProps {
+  apiService: CristianApiService;
+}
+
+const LOG_LEVELS: LiveLogEntry['level'][] = ['ERROR', 'WARN', 'INFO', 'DEBUG', 'TRACE'];
+
+const levelColors: Record<LiveLogEntry['level'], string> = {
+  ERROR: 'bg-red-100 text-red-800',
+  WARN: 'bg-yellow-100 text-yellow-800',
+  INFO: 'bg-blue-100 text-blue-800',
+  DEBUG: 'bg-gray-100 text-gray-600',
+  TRACE: 'bg-gray-50 text-gray-500',
+};
+
+type FilterFields = {
+  level: LiveLogEntry['level'] | '';
+  clientId: string;
+  server: string;
+};
+
+function LogViewer({ apiService }: LogViewerProps) {
+  // Los filtros se aplican en el servidor; la búsqueda de texto, sobre lo ya recibido
+  const [filter, setFilter] = useState<LogStreamFilter>({});
+  const [search, setSearch] = useState('');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const stream = useLogStream(apiService, filter);
+
+  const filterForm = useForm<FilterFields>({
+    defaultValues: { level: '', clientId: '', server: '' },
+  });
+
+  const applyFilter = (data: FilterFields) => {
+    setFilter({
+      level: data.level || undefined,
+      clientId: data.clientId.trim() || undefined,
+      server: data.server.trim() || undefined,
+    });
+  };
+
+  const term = search.trim().toLowerCase();
+  const visibleEntries = stream.entries
+    .filter(entry => !term || [entry.message, entry.clientId, entry.server, JSON.stringify(entry.context ?? '')]
+      .some(text => text?.toLowerCase().includes(term)))
+    .slice()
+    .reverse();
+
+  const formatTimestamp = (timestamp: string) =>
+    new Date(timestamp.substring(0, 24)).toLocaleTimeString('es-ES', { hour12: false });
+
+  return (
+    <div className="bg-white rounded-lg border-2 border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-800 flex items-center gap-2">
+          📜 Logs del Servidor
+        </h2>
+        <div className="flex items-center gap-2">
+          <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+            stream.isConnected ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+          }`}>
+            {stream.isConnected ? 'Conectado' : 'Reconectando...'}
+          </span>
+          <button
+            type="button"
+            onClick={stream.isPaused ? stream.resume : stream.pause}
+            className="px-3 py-1 text-sm rounded-md border border-gray-300 hover:bg-gray-50"
+          >
+            {stream.isPaused ? `▶️ Reanudar${stream.pending > 0 ? ` (${stream.pending})` : ''}` : '⏸️ Pausar'}
+          </button>
+          <button
+            type="button"
+            onClick={stream.clear}
+            className="px-3 py-1 text-sm rounded-md border border-gray-300 hover:bg-gray-50"
+          >
+            🧹 Limpiar
+          </button>
+        </div>
+      </div>
+
+      <form
+        onSubmit={filterForm.handleSubmit(applyFilter)}
+        className="grid grid-cols-1 sm:grid-cols-4 gap-2 mb-3"
+      >
+        <select
+          {...filterForm.register('level')}
+          className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+        >
+          <option value="">Todos los niveles</option>
+          {LOG_LEVELS.map(level => (
+            <option key={level} value={level}>{level}</option>
+          ))}
+        </select>
+        <input
+          {...filterForm.register('clientId')}
+          placeholder="Cliente"
+          className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+        />
+        <input
+          {...filterForm.register('server')}
+          placeholder="Servidor NTP"
+          className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+        />
+        <button
+          type="submit"
+          className="px-3 py-1 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-700"
+        >
+          Aplicar filtros
+        </button>
+      </form>
+
+      <input
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="🔍 Buscar en mensajes, clientes, servidores y contexto"
+        className="w-full px-2 py-1 mb-3 text-sm border border-gray-300 rounded-md"
+      />
+
+      <div className="h-80 overflow-y-auto border border-gray-100 rounded-md">
+        {visibleEntries.length === 0 ? (
+          <p className="p-4 text-sm text-gray-500 text-center">
+            {stream.entries.length === 0 ? 'Esperando nuevas entradas...' : 'Ninguna entrada coincide con la búsqueda'}
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100 text-xs font-mono">
+            {visibleEntries.map((entry, index) => (
+              <li
+                key={entry.id ?? `${entry.timestamp}-${index}`}
+                onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id ?? null)}
+                className="px-2 py-1 hover:bg-gray-50 cursor-pointer"
+              >
+                <div className="flex items-start gap-2">
+                  <span className="text-gray-400 shrink-0">{formatTimestamp(entry.timestamp)}</span>
+                  <span className={`px-1 rounded shrink-0 ${levelColors[entry.level]}`}>{entry.level}</span>
+                  <span className="text-gray-800 break-all">{entry.message}</span>
+                </div>
+                {(entry.clientId || entry.server) && (
+                  <div className="pl-16 text-gray-500">
+                    {entry.clientId && <span className="mr-3">cliente: {entry.clientId}</span>}
+                    {entry.server && <span>servidor: {entry.server}</span>}
+                  </div>
+                )}
+                {expandedId !== null && expandedId === entry.id && entry.context !== undefined && (
+                  <pre className="mt-1 p-2 bg-gray-50 rounded text-gray-700 whitespace-pre-wrap break-all">
+                    {JSON.stringify(entry.context, null, 2)}
+                  </pre>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="mt-2 text-xs text-gray-500 flex justify-between">
+        <span>{visibleEntries.length} de {stream.entries.length} entradas</span>
+        {stream.isPaused && <span className="text-yellow-700">En pausa: las nuevas entradas se acumulan</span>}
+      </div>
+    </div>
+  );
+}
+
+export default LogViewer;
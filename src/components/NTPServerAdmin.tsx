@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { toast } from 'react-toastify';
+import type { CristianApiService } from '../services/api';
+import { useNTPServers, useAuth } from '../hooks';
+import { validateNTPServer } from '../types';
+import type { NTPServerEntry, NTPServerFormData } from '../types';
+
+interface NTPServerAdminProps {
+  apiService: CristianApiService;
+}
+
+type EditableFields = Omit<NTPServerFormData, 'host'>;
+
+function NTPServerAdmin({ apiService }: NTPServerAdminProps) {
+  const { servers, isLoading, error, addServer, updateServer, removeServer, isMutating } = useNTPServers(apiService);
+  const { hasRole } = useAuth(apiService);
+  const canEdit = hasRole('admin'); // Los operadores solo consultan el ensamble
+  const [editingHost, setEditingHost] = useState<string | null>(null);
+  const [draft, setDraft] = useState<EditableFields>({ port: 123, priority: 1, timeout: 5000 });
+
+  const addForm = useForm<NTPServerFormData>({
+    defaultValues: { host: '', port: 123, priority: servers.length + 1, timeout: 5000 },
+  });
+
+  const handleAdd = async (data: NTPServerFormData) => {
+    const validation = validateNTPServer(data);
+    if (!validation.success) {
+      toast.error(validation.errors?.[0] || 'Servidor inválido', {
+        position: 'top-right',
+        autoClose: 3000,
+      });
+      return;
+    }
+
+    try {
+      await addServer(validation.data!);
+      addForm.reset({ host: '', port: 123, priority: servers.length + 2, timeout: 5000 });
+    } catch {
+      // El hook ya notifica el error
+    }
+  };
+
+  const startEditing = (server: NTPServerEntry) => {
+    setEditingHost(server.host);
+    setDraft({ port: server.port, priority: server.priority, timeout: server.timeout });
+  };
+
+  const handleSave = async (host: string) => {
+    const validation = validateNTPServer({ host, ...draft });
+    if (!validation.success) {
+      toast.error(validation.errors?.[0] || 'Valores inválidos', {
+        position: 'top-right',
+        autoClose: 3000,
+      });
+      return;
+    }
+
+    try {
+      await updateServer(host, draft);
+      setEditingHost(null);
+    } catch {
+      // El hook ya notifica el error
+    }
+  };
+
+  const handleRemove = async (host: string) => {
+    if (!window.confirm(`¿Eliminar el servidor ${host} del ensamble?`)) return;
+
+    try {
+      await removeServer(host);
+    } catch {
+      // El hook ya notifica el error
+    }
+  };
+
+  const breakerLabel = (state: NTPServerEntry['circuitBreakerState']) =>
+    state === 'closed' ? 'Cerrado' : state === 'open' ? 'Abierto' : 'Medio abierto';
+
+  return (
+    <div className="bg-white rounded-lg border-2 border-gray-200 p-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+        🛠️ Administración de Servidores NTP
+      </h2>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Listado de servidores */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-2 pr-2">Host</th>
+              <th className="py-2 pr-2">Puerto</th>
+              <th className="py-2 pr-2">Prioridad</th>
+              <th className="py-2 pr-2">Timeout (ms)</th>
+              <th className="py-2 pr-2">Circuit Breaker</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {isLoading && servers.length === 0 && (
+              <tr>
+                <td colSpan={6} className="py-4 text-center text-gray-500">Cargando servidores...</td>
+              </tr>
+            )}
+
+            {servers.map((server) => {
+              const isEditing = editingHost === server.host;
+
+              return (
+                <tr key={server.host} className="border-b last:border-b-0">
+                  <td className="py-2 pr-2 font-medium text-gray-800">
+                    {server.host}
+                    {server.isActive && <span className="ml-2 text-xs text-green-600">system peer</span>}
+                  </td>
+                  {isEditing ? (
+                    <>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number"
+                          value={draft.port}
+                          onChange={(e) => setDraft(prev => ({ ...prev, port: Number(e.target.value) }))}
+                          className="w-20 border border-gray-300 rounded px-2 py-1"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number"
+                          value={draft.priority}
+                          onChange={(e) => setDraft(prev => ({ ...prev, priority: Number(e.target.value) }))}
+                          className="w-16 border border-gray-300 rounded px-2 py-1"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number"
+                          value={draft.timeout}
+                          onChange={(e) => setDraft(prev => ({ ...prev, timeout: Number(e.target.value) }))}
+                          className="w-24 border border-gray-300 rounded px-2 py-1"
+                        />
+                      </td>
+                    </>
+                  ) : (
+                    <>
+                      <td className="py-2 pr-2">{server.port}</td>
+                      <td className="py-2 pr-2">{server.priority}</td>
+                      <td className="py-2 pr-2">{server.timeout}</td>
+                    </>
+                  )}
+                  <td className={`py-2 pr-2 ${server.circuitBreakerState === 'closed' ? 'text-green-700' : 'text-red-700'}`}>
+                    {breakerLabel(server.circuitBreakerState)}
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    {!canEdit ? null : isEditing ? (
+                      <>
+                        <button
+                          onClick={() => handleSave(server.host)}
+                          disabled={isMutating}
+                          className="px-2 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 disabled:bg-gray-300"
+                        >
+                          Guardar
+                        </button>
+                        <button
+                          onClick={() => setEditingHost(null)}
+                          className="ml-2 px-2 py-1 bg-gray-200 text-gray-700 rounded text-xs hover:bg-gray-300"
+                        >
+                          Cancelar
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => startEditing(server)}
+                          disabled={isMutating}
+                          className="px-2 py-1 bg-gray-200 text-gray-700 rounded text-xs hover:bg-gray-300"
+                        >
+                          ✏️ Editar
+                        </button>
+                        <button
+                          onClick={() => handleRemove(server.host)}
+                          disabled={isMutating || servers.length <= 1}
+                          className="ml-2 px-2 py-1 bg-red-600 text-white rounded text-xs hover:bg-red-700 disabled:bg-gray-300"
+                        >
+                          🗑️ Eliminar
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Registro de un nuevo servidor */}
+      {canEdit && (
+      <form onSubmit={addForm.handleSubmit(handleAdd)} className="mt-6 grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+        <div className="col-span-2 md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Host</label>
+          <input
+            {...addForm.register('host', { required: true })}
+            type="text"
+            placeholder="time.google.com"
+            className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Puerto</label>
+          <input
+            {...addForm.register('port', { valueAsNumber: true })}
+            type="number"
+            className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Prioridad</label>
+          <input
+            {...addForm.register('priority', { valueAsNumber: true })}
+            type="number"
+            className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Timeout (ms)</label>
+          <input
+            {...addForm.register('timeout', { valueAsNumber: true })}
+            type="number"
+            className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isMutating}
+          className="col-span-2 md:col-span-5 px-4 py-2 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:bg-gray-300"
+        >
+          ➕ Registrar Servidor
+        </button>
+      </form>
+      )}
+    </div>
+  );
+}
+
+export default NTPServerAdmin;
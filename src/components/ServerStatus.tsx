@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import type { CristianApiService } from '../services/api';
-import { useServerHealth } from '../hooks';
+import { useServerHealth, useAuth, useFaultInjection } from '../hooks';
+import type { ServerHealth } from '../types';
 
 interface ServerStatusProps {
   apiService: CristianApiService;
@@ -8,7 +9,11 @@ interface ServerStatusProps {
 
 function ServerStatus({ apiService }: ServerStatusProps) {
   const { health, isLoading: healthLoading } = useServerHealth(apiService, 2000); // Cada 2 segundos
-  const [isSimulating, setIsSimulating] = useState(false);
+  const { hasRole } = useAuth(apiService);
+  const isAdmin = hasRole('admin');
+  const { status: faultStatus, runScenario, removeFault, clearFaults, isMutating } = useFaultInjection(apiService, isAdmin);
+  const [scenario, setScenario] = useState('timeout');
+  const [targetServer, setTargetServer] = useState('');
 
   const formatUptime = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
@@ -18,141 +23,83 @@ function ServerStatus({ apiService }: ServerStatusProps) {
   };
 
   // Función auxiliar para determinar si un servidor está activo
-  const isServerActive = (serverType: 'primary' | 'secondary') => {
-    if (!health?.servers || !health?.connectivity) return false;
-    
-    const serverHealth = health.servers[serverType];
-    const serverName = serverHealth?.server;
+  const isServerActive = (serverHealth: ServerHealth) => {
+    if (!health?.connectivity) return false;
     
     // Buscar el test de conectividad correspondiente
     const connectivityTest = health.connectivity.find(conn => 
-      conn.server === serverName
+      conn.server === serverHealth.server
     );
     
     // Un servidor está activo si:
     // 1. Su test de conectividad está OK (esto es lo más importante)
     // 2. Y su circuit breaker no está completamente abierto (open)
     const isConnected = connectivityTest?.status === 'ok';
-    const isCircuitNotOpen = serverHealth?.circuitBreakerState !== 'open';
+    const isCircuitNotOpen = serverHealth.circuitBreakerState !== 'open';
     
-    // Prioritizar la conectividad sobre el estado degraded
-    // Si puede conectarse, está activo (aunque sea degraded)
     return isConnected && isCircuitNotOpen;
   };
 
-  // Función auxiliar para determinar si un servidor está siendo usado activamente
-  const isServerInUse = (serverType: 'primary' | 'secondary') => {
-    if (!health?.servers) return false;
-    return health.servers[serverType]?.isActive === true;
-  };
-
   // Función auxiliar para obtener el estado visual del servidor
-  const getServerDisplayStatus = (serverType: 'primary' | 'secondary') => {
-    const isActive = isServerActive(serverType);
-    const isInUse = isServerInUse(serverType);
-    
-    if (isInUse) {
+  const getServerDisplayStatus = (serverHealth: ServerHealth) => {
+    const selectionStatus = serverHealth.selection?.status;
+
+    if (serverHealth.isActive) {
       return {
-        status: 'En Uso',
-        color: 'green',
+        status: 'System peer',
         bgColor: 'bg-green-50 border-green-200',
         textColor: 'text-green-600',
         dotColor: 'bg-green-500'
       };
-    } else if (isActive) {
-      return {
-        status: serverType === 'primary' ? 'Activo' : 'Disponible',
-        color: serverType === 'primary' ? 'blue' : 'blue',
-        bgColor: serverType === 'primary' ? 'bg-blue-50 border-blue-200' : 'bg-blue-50 border-blue-200',
-        textColor: serverType === 'primary' ? 'text-blue-600' : 'text-blue-600',
-        dotColor: serverType === 'primary' ? 'bg-blue-500' : 'bg-blue-500'
-      };
-    } else {
+    } else if (!isServerActive(serverHealth) || selectionStatus === 'unreachable') {
       return {
         status: 'Inactivo',
-        color: 'red',
         bgColor: 'bg-red-50 border-red-200',
         textColor: 'text-red-600',
         dotColor: 'bg-red-500'
       };
+    } else if (selectionStatus === 'falseticker') {
+      // Responde, pero con una hora que no concuerda con el ensamble o el modelo local
+      return {
+        status: '🚨 Falseticker',
+        bgColor: 'bg-orange-50 border-orange-300',
+        textColor: 'text-orange-700',
+        dotColor: 'bg-orange-500'
+      };
+    } else if (selectionStatus === 'outlier') {
+      return {
+        status: 'Descartado (cluster)',
+        bgColor: 'bg-yellow-50 border-yellow-200',
+        textColor: 'text-yellow-700',
+        dotColor: 'bg-yellow-500'
+      };
+    } else {
+      return {
+        status: selectionStatus === 'survivor' ? 'Sobreviviente' : 'Disponible',
+        bgColor: 'bg-blue-50 border-blue-200',
+        textColor: 'text-blue-600',
+        dotColor: 'bg-blue-500'
+      };
     }
   };
 
-  // Determinar estados de los servidores basado en la información completa
-  const primaryStatus = getServerDisplayStatus('primary');
-  const secondaryStatus = getServerDisplayStatus('secondary');
-
-  // Debug temporal para ver los datos del servidor
-  if (health) {
-    console.log('=== HEALTH DEBUG START ===');
-    console.log('Full health response:', JSON.stringify(health, null, 2));
-    console.log('Primary server data:', {
-      server: health?.servers?.primary?.server,
-      status: health?.servers?.primary?.status,
-      circuitBreakerState: health?.servers?.primary?.circuitBreakerState,
-      stats: health?.servers?.primary?.stats
-    });
-    console.log('Secondary server data:', {
-      server: health?.servers?.secondary?.server,
-      status: health?.servers?.secondary?.status,
-      circuitBreakerState: health?.servers?.secondary?.circuitBreakerState,
-      stats: health?.servers?.secondary?.stats
-    });
-    console.log('Connectivity tests:', health?.connectivity);
-    console.log('Calculated states:', {
-      primaryStatus: primaryStatus.status,
-      secondaryStatus: secondaryStatus.status,
-      primaryInUse: isServerInUse('primary'),
-      secondaryInUse: isServerInUse('secondary')
-    });
-    console.log('=== HEALTH DEBUG END ===');
-  }
+  const servers = health?.servers ?? [];
+  const totalRequests = servers.reduce((sum, server) => sum + (server.stats?.requests || 0), 0);
 
-  const handleSimulateFailure = async () => {
-    setIsSimulating(true);
+  const handleRunScenario = async () => {
+    if (!scenario) return;
     try {
-      const response = await fetch(`${apiService.getServerUrl()}/api/time/admin/simulate-failure`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          action: 'fail-primary',
-          duration: 30000 // 30 segundos
-        })
-      });
-      
-      if (response.ok) {
-        // Mostrar notificación de éxito
-        console.log('Simulación de fallo iniciada');
-      }
+      await runScenario(scenario, targetServer || undefined);
     } catch (error) {
-      console.error('Error simulando fallo:', error);
-    } finally {
-      setIsSimulating(false);
+      console.error('Error ejecutando escenario:', error);
     }
   };
 
   const handleRestoreService = async () => {
-    setIsSimulating(true);
     try {
-      const response = await fetch(`${apiService.getServerUrl()}/api/time/admin/simulate-failure`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          action: 'restore'
-        })
-      });
-      
-      if (response.ok) {
-        console.log('Servicio restaurado');
-      }
+      await clearFaults(targetServer || undefined);
     } catch (error) {
       console.error('Error restaurando servicio:', error);
-    } finally {
-      setIsSimulating(false);
     }
   };
 
@@ -179,46 +126,51 @@ function ServerStatus({ apiService }: ServerStatusProps) {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         {/* Estado General */}
         <div className={`p-4 rounded-lg border ${
-          health?.overall === 'healthy' ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+          health?.overall === 'healthy' ? 'bg-green-50 border-green-200'
+            : health?.overall === 'degraded' ? 'bg-yellow-50 border-yellow-200' : 'bg-red-50 border-red-200'
         }`}>
           <div className="flex items-center justify-between mb-2">
             <span className="text-sm font-medium text-gray-600">Estado General</span>
             <div className={`w-3 h-3 rounded-full ${
-              health?.overall === 'healthy' ? 'bg-green-500' : 'bg-red-500'
+              health?.overall === 'healthy' ? 'bg-green-500'
+                : health?.overall === 'degraded' ? 'bg-yellow-500' : 'bg-red-500'
             }`}></div>
           </div>
           <div className={`text-lg font-semibold ${
-            health?.overall === 'healthy' ? 'text-green-800' : 'text-red-800'
+            health?.overall === 'healthy' ? 'text-green-800'
+              : health?.overall === 'degraded' ? 'text-yellow-800' : 'text-red-800'
           }`}>
-            {health?.overall === 'healthy' ? 'Saludable' : 'Error'}
+            {health?.overall === 'healthy' ? 'Saludable' : health?.overall === 'degraded' ? 'Degradado' : 'Error'}
           </div>
         </div>
 
-        {/* Servidor NTP Primario */}
-        <div className={`p-4 rounded-lg border ${primaryStatus.bgColor}`}>
+        {/* Ensamble NTP */}
+        <div className="p-4 rounded-lg border bg-gray-50 border-gray-200">
           <div className="flex items-center justify-between mb-2">
-            <span className="text-sm font-medium text-gray-600">Servidor Primario</span>
-            <div className={`w-3 h-3 rounded-full ${primaryStatus.dotColor}`}></div>
+            <span className="text-sm font-medium text-gray-600">Ensamble NTP</span>
+            <div className="w-3 h-3 rounded-full bg-gray-500"></div>
           </div>
-          <div className="text-sm font-medium text-gray-800">
-            {health?.servers?.primary?.server || 'ntp.shoa.cl'}
+          <div className="text-lg font-semibold text-gray-800">
+            {servers.filter(server => server.selection?.status === 'survivor').length}/{servers.length}
           </div>
-          <div className={`text-xs ${primaryStatus.textColor}`}>
-            {primaryStatus.status}
+          <div className="text-xs text-gray-600">
+            Sobrevivientes de la selección
           </div>
         </div>
 
-        {/* Servidor NTP Secundario */}
-        <div className={`p-4 rounded-lg border ${secondaryStatus.bgColor}`}>
+        {/* System peer */}
+        <div className="p-4 rounded-lg border bg-green-50 border-green-200">
           <div className="flex items-center justify-between mb-2">
-            <span className="text-sm font-medium text-gray-600">Servidor Secundario</span>
-            <div className={`w-3 h-3 rounded-full ${secondaryStatus.dotColor}`}></div>
+            <span className="text-sm font-medium text-gray-600">System Peer</span>
+            <div className="w-3 h-3 rounded-full bg-green-500"></div>
           </div>
-          <div className="text-sm font-medium text-gray-800">
-            {health?.servers?.secondary?.server || 'pool.ntp.org'}
+          <div className="text-sm font-medium text-gray-800 truncate">
+            {health?.ensemble?.systemPeer || health?.activeServer || 'Sin referencia'}
           </div>
-          <div className={`text-xs ${secondaryStatus.textColor}`}>
-            {secondaryStatus.status}
+          <div className="text-xs text-green-600">
+            {health?.ensemble?.offset != null
+              ? `Offset combinado ${health.ensemble.offset.toFixed(2)}ms`
+              : 'Sin selección aún'}
           </div>
         </div>
 
@@ -237,70 +189,128 @@ function ServerStatus({ apiService }: ServerStatusProps) {
         </div>
       </div>
 
-      {/* Métricas del Servidor Primario */}
-      {health?.servers?.primary && (
-        <div className="mt-6">
-          <h3 className="text-lg font-semibold text-gray-800 mb-3 flex items-center gap-2">
-            ⚡ Métricas Servidor Primario
-          </h3>
-          
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <div className="bg-gray-50 p-4 rounded-lg">
-              <div className="text-sm text-gray-600 mb-1">Latencia promedio</div>
-              <div className="text-lg font-semibold text-gray-800">
-                {health.servers.primary.metrics?.averageLatency?.toFixed(2) || '0.00'}ms
+      {/* Lazo de disciplina del reloj */}
+      {health?.discipline && (
+        <div className="mt-6 p-4 rounded-lg border bg-gray-50 border-gray-200">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+              🧭 Disciplina del Reloj
+            </h3>
+            <span className={`text-xs font-medium ${
+              health.discipline.state === 'synchronized' ? 'text-green-700'
+                : health.discipline.state === 'holdover' ? 'text-yellow-700' : 'text-gray-500'
+            }`}>
+              {health.discipline.state === 'synchronized' ? 'Sincronizado'
+                : health.discipline.state === 'holdover' ? 'Holdover' : 'Sin referencia'}
+            </span>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <span className="text-gray-600">Offset:</span>
+              <div className="font-medium">
+                {health.discipline.offset != null ? `${health.discipline.offset.toFixed(3)}ms` : 'N/A'}
               </div>
             </div>
-
-            <div className="bg-gray-50 p-4 rounded-lg">
-              <div className="text-sm text-gray-600 mb-1">Tasa de éxito</div>
-              <div className="text-lg font-semibold text-gray-800">
-                {health.servers.primary.metrics?.successRate?.toFixed(1) || '0.0'}%
-              </div>
+            <div>
+              <span className="text-gray-600">Deriva:</span>
+              <div className="font-medium">{health.discipline.frequency.toFixed(3)} ppm</div>
             </div>
-
-            <div className="bg-gray-50 p-4 rounded-lg">
-              <div className="text-sm text-gray-600 mb-1">Circuit Breaker</div>
-              <div className={`text-lg font-semibold ${
-                health.servers.primary.circuitBreakerState === 'closed' ? 'text-green-800' : 'text-red-800'
-              }`}>
-                {health.servers.primary.circuitBreakerState === 'closed' ? 'Cerrado' : 'Abierto'}
-              </div>
+            <div>
+              <span className="text-gray-600">Jitter:</span>
+              <div className="font-medium">{health.discipline.jitter.toFixed(3)}ms</div>
+            </div>
+            <div>
+              <span className="text-gray-600">Intervalo de sondeo:</span>
+              <div className="font-medium">{(health.discipline.pollInterval / 1000).toFixed(0)}s</div>
             </div>
           </div>
         </div>
       )}
 
-      {/* Métricas del Servidor Secundario */}
-      {health?.servers?.secondary && (
+      {/* Servidores NTP del ensamble */}
+      {servers.length > 0 && (
         <div className="mt-6">
           <h3 className="text-lg font-semibold text-gray-800 mb-3 flex items-center gap-2">
-            🔄 Métricas Servidor Secundario
+            ⚡ Servidores NTP
           </h3>
           
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <div className="bg-blue-50 p-4 rounded-lg">
-              <div className="text-sm text-gray-600 mb-1">Latencia promedio</div>
-              <div className="text-lg font-semibold text-gray-800">
-                {health.servers.secondary.metrics?.averageLatency?.toFixed(2) || '0.00'}ms
-              </div>
-            </div>
+          <div className="space-y-3">
+            {servers.map(serverHealth => {
+              const displayStatus = getServerDisplayStatus(serverHealth);
 
-            <div className="bg-blue-50 p-4 rounded-lg">
-              <div className="text-sm text-gray-600 mb-1">Tasa de éxito</div>
-              <div className="text-lg font-semibold text-gray-800">
-                {health.servers.secondary.metrics?.successRate?.toFixed(1) || '0.0'}%
-              </div>
-            </div>
+              return (
+                <div key={serverHealth.server} className={`p-4 rounded-lg border ${displayStatus.bgColor}`}>
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center gap-2">
+                      <div className={`w-3 h-3 rounded-full ${displayStatus.dotColor}`}></div>
+                      <span className="text-sm font-medium text-gray-800">
+                        {serverHealth.server}:{serverHealth.port}
+                      </span>
+                      <span className="text-xs text-gray-500">prioridad {serverHealth.priority}</span>
+                    </div>
+                    <span className={`text-xs font-medium ${displayStatus.textColor}`}>
+                      {displayStatus.status}
+                    </span>
+                  </div>
 
-            <div className="bg-blue-50 p-4 rounded-lg">
-              <div className="text-sm text-gray-600 mb-1">Circuit Breaker</div>
-              <div className={`text-lg font-semibold ${
-                health.servers.secondary.circuitBreakerState === 'closed' ? 'text-green-800' : 'text-red-800'
-              }`}>
-                {health.servers.secondary.circuitBreakerState === 'closed' ? 'Cerrado' : 'Abierto'}
-              </div>
-            </div>
+                  {serverHealth.selection?.status === 'falseticker' && (
+                    <div className="mb-3 p-2 bg-orange-100 rounded text-xs text-orange-800">
+                      Excluido de la selección: {serverHealth.selection.rejection ?? 'fuera de la intersección del ensamble'}
+                    </div>
+                  )}
+
+                  {serverHealth.sntp && (
+                    <div className="mb-3 text-xs text-gray-600">
+                      Estrato {serverHealth.sntp.stratum} · ref {serverHealth.sntp.referenceId || '—'}
+                      {' '}· root delay {serverHealth.sntp.rootDelay.toFixed(2)}ms
+                      {' '}· root disp {serverHealth.sntp.rootDispersion.toFixed(2)}ms
+                      {' '}· LI {serverHealth.sntp.leapIndicator}
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+                    <div>
+                      <div className="text-gray-600">Latencia promedio</div>
+                      <div className="font-semibold text-gray-800">
+                        {serverHealth.metrics?.averageLatency?.toFixed(2) || '0.00'}ms
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Tasa de éxito</div>
+                      <div className="font-semibold text-gray-800">
+                        {serverHealth.metrics?.successRate?.toFixed(1) || '0.0'}%
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Circuit Breaker</div>
+                      <div className={`font-semibold ${
+                        serverHealth.circuitBreakerState === 'closed' ? 'text-green-800' : 'text-red-800'
+                      }`}>
+                        {serverHealth.circuitBreakerState === 'closed'
+                          ? 'Cerrado'
+                          : serverHealth.circuitBreakerState === 'open' ? 'Abierto' : 'Medio abierto'}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Offset</div>
+                      <div className="font-semibold text-gray-800">
+                        {serverHealth.selection && serverHealth.selection.status !== 'unreachable'
+                          ? `${serverHealth.selection.offset.toFixed(2)}ms`
+                          : '—'}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Jitter / Distancia</div>
+                      <div className="font-semibold text-gray-800">
+                        {serverHealth.selection && serverHealth.selection.status !== 'unreachable'
+                          ? `${serverHealth.selection.jitter.toFixed(2)} / ${serverHealth.selection.rootDistance.toFixed(2)}ms`
+                          : '—'}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
           </div>
         </div>
       )}
@@ -342,48 +352,110 @@ function ServerStatus({ apiService }: ServerStatusProps) {
           <div className="bg-gray-50 p-3 rounded">
             <div className="text-sm text-gray-600">Solicitudes totales</div>
             <div className="font-medium">
-              {health?.servers?.primary?.stats?.requests || 0}
+              {totalRequests}
             </div>
           </div>
         </div>
       </div>
 
-      {/* Controles de simulación */}
+      {/* Laboratorio de fallos (solo admin) */}
+      {isAdmin && (
       <div className="mt-6 p-4 bg-yellow-50 border-2 border-yellow-200 rounded-lg">
         <h3 className="text-lg font-semibold text-gray-800 mb-3 flex items-center gap-2">
           🧪 Herramientas de Testing
         </h3>
         
         <div className="flex flex-wrap gap-3">
+          <select
+            value={scenario}
+            onChange={(e) => setScenario(e.target.value)}
+            disabled={isMutating}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            {(faultStatus?.scenarios ?? []).map(option => (
+              <option key={option.name} value={option.name}>
+                {option.name} ({Math.round(option.duration / 1000)}s)
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={targetServer}
+            onChange={(e) => setTargetServer(e.target.value)}
+            disabled={isMutating}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="">Mayor prioridad</option>
+            {servers.map(serverHealth => (
+              <option key={serverHealth.server} value={serverHealth.server}>
+                {serverHealth.server}
+              </option>
+            ))}
+          </select>
+
           <button
-            onClick={handleSimulateFailure}
-            disabled={isSimulating}
+            onClick={handleRunScenario}
+            disabled={isMutating || !faultStatus}
             className={`px-4 py-2 rounded-lg text-sm font-medium ${
-              isSimulating 
+              isMutating || !faultStatus
                 ? 'bg-gray-300 text-gray-500 cursor-not-allowed' 
                 : 'bg-red-600 text-white hover:bg-red-700'
             }`}
           >
-            {isSimulating ? '⏳ Procesando...' : '⚠️ Simular Fallo NTP Primario'}
+            {isMutating ? '⏳ Procesando...' : '⚠️ Ejecutar Escenario'}
           </button>
           
           <button
             onClick={handleRestoreService}
-            disabled={isSimulating}
+            disabled={isMutating}
             className={`px-4 py-2 rounded-lg text-sm font-medium ${
-              isSimulating 
+              isMutating 
                 ? 'bg-gray-300 text-gray-500 cursor-not-allowed' 
                 : 'bg-green-600 text-white hover:bg-green-700'
             }`}
           >
-            {isSimulating ? '⏳ Procesando...' : '✅ Restaurar Servicio'}
+            {isMutating ? '⏳ Procesando...' : targetServer ? '✅ Restaurar Servidor' : '✅ Restaurar Todo'}
           </button>
         </div>
-        
+
+        <p className="text-xs text-gray-600 mt-2">
+          {faultStatus?.scenarios.find(option => option.name === scenario)?.description}
+        </p>
+
+        {faultStatus && faultStatus.faults.length > 0 && (
+          <div className="mt-3 space-y-2">
+            {faultStatus.faults.map(fault => (
+              <div key={fault.id} className="flex items-center justify-between gap-3 p-2 bg-white border border-yellow-200 rounded text-sm">
+                <div>
+                  <span className={`font-medium ${fault.running ? 'text-red-600' : 'text-gray-500'}`}>
+                    {fault.running ? '● Activo' : '○ Programado'}
+                  </span>
+                  <span className="ml-2 font-mono text-xs">{fault.server}</span>
+                  <span className="ml-2 text-gray-700">{fault.detail}</span>
+                  {fault.scenario && <span className="ml-2 text-xs text-gray-500">[{fault.scenario}]</span>}
+                  <div className="text-xs text-gray-500">
+                    {fault.running
+                      ? `Termina en ${Math.max(Math.ceil((fault.endsAt - Date.now()) / 1000), 0)}s · ${fault.injections} consulta(s) alteradas`
+                      : `Empieza en ${Math.max(Math.ceil((fault.startsAt - Date.now()) / 1000), 0)}s`}
+                  </div>
+                </div>
+                <button
+                  onClick={() => removeFault(fault.id).catch(error => console.error('Error retirando fallo:', error))}
+                  disabled={isMutating}
+                  className="px-2 py-1 text-xs text-red-600 border border-red-200 rounded hover:bg-red-50"
+                >
+                  Retirar
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         <p className="text-xs text-gray-600 mt-2">
-          * La simulación de fallo dura 30 segundos y forzará el uso del servidor secundario
+          * Los fallos alteran las respuestas SNTP reales: recorren los caminos de timeout, validación y selección del ensamble
         </p>
       </div>
+      )}
 
       {/* Actualización automática */}
       <div className="mt-4 text-xs text-gray-500 text-center">
@@ -2,6 +2,8 @@ import type { SyncButtonProps } from '../types';
 
 const SyncButton = ({ 
   onSync, 
+  onBurstSync,
+  burstSamples,
   isLoading, 
   disabled = false, 
   size = 'md', 
@@ -21,30 +23,45 @@ const SyncButton = ({
 
   const disabledClasses = 'opacity-50 cursor-not-allowed hover:bg-current';
 
-  return (
-    <button
-      onClick={onSync}
-      disabled={disabled || isLoading}
-      className={`
+  const buttonClasses = `
         font-medium rounded-lg border-2 transition-colors duration-200
         ${sizeClasses[size]}
-        ${variantClasses[variant]}
         ${(disabled || isLoading) ? disabledClasses : ''}
         flex items-center justify-center gap-2
-      `}
-    >
-      {isLoading ? (
-        <>
-          <div className="animate-spin rounded-full h-4 w-4 border-2 border-current border-t-transparent"></div>
-          Sincronizando...
-        </>
-      ) : (
-        <>
-          <span>🔄</span>
-          Sincronizar Tiempo
-        </>
+      `;
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        onClick={onSync}
+        disabled={disabled || isLoading}
+        className={`${buttonClasses} ${variantClasses[variant]}`}
+      >
+        {isLoading ? (
+          <>
+            <div className="animate-spin rounded-full h-4 w-4 border-2 border-current border-t-transparent"></div>
+            Sincronizando...
+          </>
+        ) : (
+          <>
+            <span>🔄</span>
+            Sincronizar Tiempo
+          </>
+        )}
+      </button>
+
+      {onBurstSync && (
+        <button
+          onClick={onBurstSync}
+          disabled={disabled || isLoading}
+          title="Realiza varios intercambios y conserva el de menor delay"
+          className={`${buttonClasses} ${variantClasses.outline}`}
+        >
+          <span>📶</span>
+          Ráfaga{burstSamples ? ` ×${burstSamples}` : ''}
+        </button>
       )}
-    </button>
+    </div>
   );
 };
 
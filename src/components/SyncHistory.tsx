@@ -64,7 +64,7 @@ const SyncHistory = ({
             key={`${sync.clientTime}-${index}`}
             className={`p-4 border-b border-gray-100 hover:bg-gray-50 transition-colors ${
               index === 0 ? 'bg-blue-50' : ''
-            }`}
+            } ${sync.burst && !sync.burst.selected ? 'opacity-60' : ''}`}
           >
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-3">
@@ -75,7 +75,19 @@ const SyncHistory = ({
                   </div>
                   <div className="text-sm text-gray-600">
                     Servidor: {sync.server}
+                    {sync.algorithm && (
+                      <span className="ml-2 text-xs px-1.5 py-0.5 rounded bg-gray-100 text-gray-700">
+                        {sync.algorithm}
+                      </span>
+                    )}
                   </div>
+                  {sync.burst && (
+                    <div className={`text-xs mt-1 ${sync.burst.selected ? 'text-blue-700 font-medium' : 'text-gray-400'}`}>
+                      {sync.burst.selected
+                        ? `🎯 Elegida en ráfaga (${sync.burst.index + 1}/${sync.burst.size}, dispersión ${sync.burst.dispersion.toFixed(2)}ms)`
+                        : `Descartada en ráfaga (${sync.burst.index + 1}/${sync.burst.size})`}
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -105,6 +117,42 @@ const SyncHistory = ({
                     {formatTime(sync.serverTime)}
                   </span>
                 </div>
+                {sync.t3 !== null && sync.t3 !== undefined && (
+                  <>
+                    <div>
+                      <span className="text-gray-600">Delay de red:</span>
+                      <span className="ml-2 font-medium">
+                        {sync.delay.toFixed(2)}ms
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">Proceso servidor (T2−T1):</span>
+                      <span className="ml-2 font-medium">
+                        {(sync.t2 - sync.t1).toFixed(2)}ms
+                      </span>
+                    </div>
+                    <div className="col-span-2 font-mono text-xs text-gray-500">
+                      T0 {formatTime(sync.t0)} · T1 {formatTime(sync.t1)} · T2 {formatTime(sync.t2)} · T3 {formatTime(sync.t3)}
+                    </div>
+                  </>
+                )}
+                {sync.faults && sync.faults.length > 0 && (
+                  <div className="col-span-2 text-xs text-yellow-700">
+                    🧪 Fallos inyectados: {sync.faults.map(fault => `${fault.server} (${fault.detail})`).join(' · ')}
+                  </div>
+                )}
+                {sync.leapSmear !== undefined && (
+                  <div className="col-span-2 text-xs text-blue-700">
+                    ⏳ Smear de segundo intercalar aplicado a T1/T2: {sync.leapSmear.toFixed(1)}ms
+                  </div>
+                )}
+                {sync.upstream && (
+                  <div className="col-span-2 text-xs text-gray-600">
+                    Upstream {sync.upstream.server}: estrato {sync.upstream.stratum} · ref {sync.upstream.referenceId || '—'}
+                    {' '}· root delay {sync.upstream.rootDelay.toFixed(2)}ms · root disp {sync.upstream.rootDispersion.toFixed(2)}ms
+                    {sync.upstream.leapIndicator !== 0 && ` · LI ${sync.upstream.leapIndicator}`}
+                  </div>
+                )}
               </div>
             )}
 
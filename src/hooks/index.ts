@@ -1,13 +1,36 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo, useSyncExternalStore } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'react-toastify';
 import type { 
   SyncResponse, 
   UseSyncReturn,
   UseServerHealthReturn,
-  UseAutoSyncReturn
+  UseAutoSyncReturn,
+  UseBerkeleyReturn,
+  UseNTPServersReturn,
+  UseFaultInjectionReturn,
+  UseClockModelReturn,
+  UseLiveChannelReturn,
+  UseLogStreamReturn,
+  UseAuthReturn,
+  AuthRole,
+  RegisteredClient,
+  LogStreamFilter,
+  SyncResult,
+  HealthStatus,
+  ServerTime,
+  LiveLogEntry,
+  LiveSyncEvent,
+  LiveMetrics,
+  BreakerTransition,
+  BerkeleyCorrection,
+  NTPServerConfig,
+  NTPServerFormData
 } from '../types';
+import { DEFAULT_BURST_SAMPLES, LIVE_TOPICS, hasAuthRole } from '../types';
 import { CristianApiService } from '../services/api';
+import { createSocket, liveChannel } from '../services/socket';
+import { fitClockModel, predictClock, getLocalEpochTime } from '../services/clockModel';
 
 /**
  * Hook para sincronización de tiempo
@@ -17,7 +40,8 @@ export const useSync = (apiService: CristianApiService): UseSyncReturn => {
   const [error, setError] = useState<string | null>(null);
 
   const mutation = useMutation({
-    mutationFn: () => apiService.syncTime(),
+    // Con samples se ejecuta una ráfaga con filtro de mínimo delay
+    mutationFn: (samples?: number) => samples ? apiService.syncBurst(samples) : apiService.syncTime(),
     onSuccess: (data) => {
       setLastResult(data);
       setError(null);
@@ -28,10 +52,10 @@ export const useSync = (apiService: CristianApiService): UseSyncReturn => {
     },
   });
 
-  const sync = useCallback(async (): Promise<SyncResponse | null> => {
+  const runSync = useCallback(async (samples?: number): Promise<SyncResponse | null> => {
     try {
       setError(null);
-      const result = await mutation.mutateAsync();
+      const result = await mutation.mutateAsync(samples);
       setLastResult(result);
       return result;
     } catch (error) {
@@ -49,6 +73,13 @@ export const useSync = (apiService: CristianApiService): UseSyncReturn => {
           roundTripTime: 0,
           precision: 0,
           server: 'error',
+          algorithm: apiService.getSyncAlgorithm(),
+          t0: 0,
+          t1: 0,
+          t2: 0,
+          t3: null,
+          delay: 0,
+          upstreamOffset: 0,
           error: error instanceof Error ? error.message : 'Error desconocido'
         },
         isReliable: false,
@@ -68,8 +99,16 @@ export const useSync = (apiService: CristianApiService): UseSyncReturn => {
     }
   }, [mutation, apiService]);
 
+  const sync = useCallback(() => runSync(), [runSync]);
+
+  const syncBurst = useCallback(
+    (samples: number = DEFAULT_BURST_SAMPLES) => runSync(samples),
+    [runSync]
+  );
+
   return {
     sync,
+    syncBurst,
     isLoading: mutation.isPending,
     error,
     lastResult,
@@ -83,10 +122,13 @@ export const useServerHealth = (
   apiService: CristianApiService,
   refetchInterval: number = 5000 // Reducir a 5 segundos para mayor responsividad
 ): UseServerHealthReturn => {
+  // Con el canal en vivo conectado el estado llega por WebSocket
+  const isLive = useLiveStatus();
+
   const { data, isLoading, error, refetch } = useQuery({
     queryKey: ['serverHealth'],
     queryFn: () => apiService.getHealth(),
-    refetchInterval,
+    refetchInterval: isLive ? false : refetchInterval,
     refetchIntervalInBackground: true,
     retry: 3,
     retryDelay: 1000,
@@ -105,11 +147,13 @@ export const useServerHealth = (
  * Hook para tiempo del servidor
  */
 export const useServerTime = (apiService: CristianApiService, enabled: boolean = true) => {
+  const isLive = useLiveStatus();
+
   return useQuery({
     queryKey: ['serverTime'],
     queryFn: () => apiService.getServerTime(),
     enabled,
-    refetchInterval: 1000, // Reducir a 1 segundo en lugar de 100ms
+    refetchInterval: isLive ? false : 1000, // Sin canal en vivo, cada segundo
     refetchIntervalInBackground: true,
     staleTime: 0, // Siempre considerar datos obsoletos
   });
@@ -127,6 +171,112 @@ export const useClientMetrics = (apiService: CristianApiService, enabled: boolea
   });
 };
 
+/**
+ * Hook para administrar los servidores NTP del ensamble
+ */
+export const useNTPServers = (apiService: CristianApiService): UseNTPServersReturn => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['ntpServers'],
+    queryFn: () => apiService.getNTPServers(),
+    refetchInterval: 10000,
+  });
+
+  // Cualquier cambio en el ensamble afecta también al estado de salud
+  const onSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ['ntpServers'] });
+    queryClient.invalidateQueries({ queryKey: ['serverHealth'] });
+    toast.success(message, { position: 'top-right', autoClose: 2000 });
+  };
+
+  const onError = (error: Error) => {
+    toast.error(error.message, { position: 'top-right', autoClose: 4000 });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: (server: NTPServerFormData) => apiService.addNTPServer(server),
+    onSuccess: (server) => onSuccess(`Servidor ${server.host} registrado`),
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ host, changes }: { host: string; changes: Partial<Omit<NTPServerConfig, 'host'>> }) =>
+      apiService.updateNTPServer(host, changes),
+    onSuccess: (server) => onSuccess(`Servidor ${server.host} actualizado`),
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (host: string) => apiService.removeNTPServer(host),
+    onSuccess: (_, host) => onSuccess(`Servidor ${host} eliminado`),
+    onError,
+  });
+
+  return {
+    servers: data || [],
+    isLoading,
+    error: error?.message || null,
+    addServer: async (server) => { await addMutation.mutateAsync(server); },
+    updateServer: async (host, changes) => { await updateMutation.mutateAsync({ host, changes }); },
+    removeServer: async (host) => { await removeMutation.mutateAsync(host); },
+    isMutating: addMutation.isPending || updateMutation.isPending || removeMutation.isPending,
+  };
+};
+
+/**
+ * Hook para el laboratorio de fallos upstream (solo admin)
+ */
+export const useFaultInjection = (apiService: CristianApiService, enabled: boolean = true): UseFaultInjectionReturn => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['faults'],
+    queryFn: () => apiService.getFaults(),
+    refetchInterval: 2000,
+    enabled,
+  });
+
+  // Los fallos alteran la selección del ensamble: refrescar también la salud
+  const onSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ['faults'] });
+    queryClient.invalidateQueries({ queryKey: ['serverHealth'] });
+    toast.success(message, { position: 'top-right', autoClose: 2000 });
+  };
+
+  const onError = (error: Error) => {
+    toast.error(error.message, { position: 'top-right', autoClose: 4000 });
+  };
+
+  const scenarioMutation = useMutation({
+    mutationFn: ({ name, server, duration }: { name: string; server?: string; duration?: number }) =>
+      apiService.runFaultScenario(name, server, duration),
+    onSuccess: (faults, { name }) => onSuccess(`Escenario ${name} iniciado (${faults.length} fallo(s))`),
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: string) => apiService.removeFault(id),
+    onSuccess: () => onSuccess('Fallo retirado'),
+    onError,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: (server?: string) => apiService.clearFaults(server),
+    onSuccess: (removed) => onSuccess(`${removed} fallo(s) retirados`),
+    onError,
+  });
+
+  return {
+    status: data || null,
+    isLoading,
+    runScenario: async (name, server, duration) => { await scenarioMutation.mutateAsync({ name, server, duration }); },
+    removeFault: async (id) => { await removeMutation.mutateAsync(id); },
+    clearFaults: async (server) => { await clearMutation.mutateAsync(server); },
+    isMutating: scenarioMutation.isPending || removeMutation.isPending || clearMutation.isPending,
+  };
+};
+
 /**
  * Hook para sincronización automática
  */
@@ -249,6 +399,7 @@ export const useAutoSync = (
 export const useServerConnection = (apiService: CristianApiService) => {
   const [isConnected, setIsConnected] = useState(false);
   const [isChecking, setIsChecking] = useState(false);
+  const isLive = useLiveStatus();
 
   const checkConnection = useCallback(async () => {
     setIsChecking(true);
@@ -262,21 +413,259 @@ export const useServerConnection = (apiService: CristianApiService) => {
     }
   }, [apiService]);
 
-  // Verificar conexión al montar y periódicamente
+  // Verificar conexión al montar y periódicamente, salvo que el canal en vivo esté conectado
   useEffect(() => {
+    if (isLive) return;
+
     checkConnection();
     const interval = window.setInterval(checkConnection, 10000); // Reducir a cada 10 segundos
     
     return () => window.clearInterval(interval);
-  }, [checkConnection]);
+  }, [checkConnection, isLive]);
 
   return {
-    isConnected,
+    isConnected: isLive || isConnected,
     isChecking,
     checkConnection,
   };
 };
 
+/**
+ * Hook con el estado de conexión del canal en vivo
+ */
+export const useLiveStatus = (): boolean => {
+  return useSyncExternalStore(liveChannel.subscribe, liveChannel.isConnected);
+};
+
+/**
+ * Hook con el token de sesión actual; cambia al iniciar o cerrar sesión
+ */
+export const useAuthToken = (apiService: CristianApiService): string | null => {
+  return useSyncExternalStore(apiService.subscribeAuth, apiService.getAuthToken);
+};
+
+/**
+ * Hook para la sesión y el rol del usuario
+ * Al cambiar de sesión se invalidan todas las consultas, que se repiten con el nuevo rol
+ */
+export const useAuth = (apiService: CristianApiService): UseAuthReturn => {
+  const queryClient = useQueryClient();
+  const token = useAuthToken(apiService);
+
+  const { data: session } = useQuery({
+    queryKey: ['authSession', token],
+    queryFn: () => apiService.getSession(),
+    staleTime: 60000,
+    retry: false,
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: (apiKey: string) => apiService.login(apiKey),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries();
+      toast.success(`Sesión iniciada como ${result.subject} (${result.role})`, { position: 'top-right', autoClose: 2000 });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message, { position: 'top-right', autoClose: 4000 });
+    },
+  });
+
+  const logout = useCallback(() => {
+    apiService.setAuthToken(null);
+    queryClient.invalidateQueries();
+  }, [apiService, queryClient]);
+
+  const role = session?.role ?? null;
+
+  return {
+    session: session ?? null,
+    role,
+    authEnabled: session?.authEnabled ?? false,
+    hasRole: (required: AuthRole) => hasAuthRole(role, required),
+    login: async (apiKey) => { await loginMutation.mutateAsync(apiKey); },
+    logout,
+    isLoggingIn: loginMutation.isPending,
+  };
+};
+
+/**
+ * Hook que registra el cliente en el servidor con su nombre; se repite al cambiar el nombre
+ */
+export const useClientRegistration = (apiService: CristianApiService, name: string) => {
+  return useQuery<RegisteredClient>({
+    queryKey: ['clientRegistration', apiService.getClientId(), name],
+    queryFn: () => apiService.registerClient(name),
+    enabled: name.trim().length > 0,
+    staleTime: Infinity,
+    retry: 2,
+  });
+};
+
+/**
+ * Hook para el canal en vivo por WebSocket
+ * Vuelca la salud y la hora publicadas en la caché de React Query (los hooks de polling
+ * dejan de consultar mientras está conectado) y acumula logs, sincronizaciones y métricas
+ */
+export const useLiveChannel = (apiService: CristianApiService, maxItems: number = 20): UseLiveChannelReturn => {
+  const queryClient = useQueryClient();
+  const isLive = useLiveStatus();
+  const [logs, setLogs] = useState<LiveLogEntry[]>([]);
+  const [syncs, setSyncs] = useState<LiveSyncEvent[]>([]);
+  const [metrics, setMetrics] = useState<LiveMetrics | null>(null);
+  const [lastBreakerTransition, setLastBreakerTransition] = useState<BreakerTransition | null>(null);
+  // Los temas permitidos dependen del rol: con otra sesión se reconecta
+  const token = useAuthToken(apiService);
+
+  useEffect(() => {
+    const socket = liveChannel.connect(apiService.getServerUrl(), apiService.getClientId(), apiService.getAuthToken);
+
+    // Las suscripciones se pierden al reconectar, se renuevan en cada conexión
+    const subscribe = () => socket.emit('live:subscribe', LIVE_TOPICS);
+    socket.on('connect', subscribe);
+    if (socket.connected) subscribe();
+
+    socket.on('live:health', (health: HealthStatus) => queryClient.setQueryData(['serverHealth'], health));
+    socket.on('live:time', (time: ServerTime) => queryClient.setQueryData(['serverTime'], time));
+    socket.on('live:metrics', (data: LiveMetrics) => setMetrics(data));
+    socket.on('live:breaker', (transition: BreakerTransition) => setLastBreakerTransition(transition));
+    socket.on('live:log', (entry: LiveLogEntry) => {
+      setLogs(prev => [...prev, entry].slice(-maxItems));
+    });
+    socket.on('live:sync', (event: LiveSyncEvent) => {
+      setSyncs(prev => [...prev, event].slice(-maxItems));
+    });
+
+    return () => {
+      liveChannel.disconnect();
+    };
+  }, [apiService, queryClient, maxItems, token]);
+
+  return {
+    isLive,
+    logs,
+    syncs,
+    metrics,
+    lastBreakerTransition,
+  };
+};
+
+/**
+ * Hook para seguir el stream SSE de logs del servidor
+ * EventSource reconecta solo y reenvía Last-Event-ID, así que no se pierden entradas;
+ * durante la pausa las entradas se acumulan y se agregan al reanudar
+ */
+export const useLogStream = (
+  apiService: CristianApiService,
+  filter: LogStreamFilter,
+  maxEntries: number = 200
+): UseLogStreamReturn => {
+  const [entries, setEntries] = useState<LiveLogEntry[]>([]);
+  const [isConnected, setIsConnected] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [pending, setPending] = useState(0);
+  const pausedRef = useRef(false);
+  const pendingRef = useRef<LiveLogEntry[]>([]);
+  const { level, clientId, server } = filter;
+  const token = useAuthToken(apiService);
+
+  useEffect(() => {
+    // Un filtro nuevo abre otro stream; lo mostrado con el filtro anterior se descarta
+    setEntries([]);
+    pendingRef.current = [];
+    setPending(0);
+
+    const source = new EventSource(apiService.getLogStreamUrl({ level, clientId, server }));
+
+    source.onopen = () => setIsConnected(true);
+    source.onerror = () => setIsConnected(source.readyState === EventSource.OPEN);
+    source.addEventListener('log', (event) => {
+      const entry: LiveLogEntry = JSON.parse((event as MessageEvent<string>).data);
+
+      if (pausedRef.current) {
+        pendingRef.current = [...pendingRef.current, entry].slice(-maxEntries);
+        setPending(pendingRef.current.length);
+        return;
+      }
+      setEntries(prev => [...prev, entry].slice(-maxEntries));
+    });
+
+    return () => {
+      source.close();
+      setIsConnected(false);
+    };
+  }, [apiService, level, clientId, server, maxEntries, token]);
+
+  const pause = useCallback(() => {
+    pausedRef.current = true;
+    setIsPaused(true);
+  }, []);
+
+  const resume = useCallback(() => {
+    const buffered = pendingRef.current;
+    pausedRef.current = false;
+    pendingRef.current = [];
+    setIsPaused(false);
+    setPending(0);
+    setEntries(prev => [...prev, ...buffered].slice(-maxEntries));
+  }, [maxEntries]);
+
+  const clear = useCallback(() => {
+    pendingRef.current = [];
+    setPending(0);
+    setEntries([]);
+  }, []);
+
+  return {
+    entries,
+    isConnected,
+    isPaused,
+    pending,
+    pause,
+    resume,
+    clear,
+  };
+};
+
+/**
+ * Hook para participar como esclavo en el algoritmo de Berkeley
+ * Responde a los sondeos del coordinador con el reloj local ya corregido
+ * y acumula las correcciones recibidas
+ */
+export const useBerkeleyCorrection = (apiService: CristianApiService): UseBerkeleyReturn => {
+  const [isConnected, setIsConnected] = useState(false);
+  const [totalCorrection, setTotalCorrection] = useState(0);
+  const [lastCorrection, setLastCorrection] = useState<BerkeleyCorrection | null>(null);
+  const correctionRef = useRef(0);
+  const token = useAuthToken(apiService);
+
+  useEffect(() => {
+    const socket = createSocket(apiService.getServerUrl(), apiService.getClientId(), apiService.getAuthToken, true);
+
+    socket.on('connect', () => setIsConnected(true));
+    socket.on('disconnect', () => setIsConnected(false));
+
+    socket.on('berkeley:poll', (_payload: { round: number }, ack: (reading: { clientTime: number }) => void) => {
+      ack({ clientTime: Date.now() + correctionRef.current });
+    });
+
+    socket.on('berkeley:correction', (data: BerkeleyCorrection) => {
+      correctionRef.current += data.correction;
+      setTotalCorrection(correctionRef.current);
+      setLastCorrection(data);
+    });
+
+    return () => {
+      socket.disconnect();
+    };
+  }, [apiService, token]);
+
+  return {
+    isConnected,
+    totalCorrection,
+    lastCorrection,
+  };
+};
+
 /**
  * Hook para gestión de notificaciones usando react-toastify
  */
@@ -334,6 +723,28 @@ export const useRealTimeDisplay = () => {
   return currentTime;
 };
 
+/**
+ * Hook para el reloj corregido del cliente
+ * Ajusta offset y deriva sobre el historial de sincronizaciones y expone now()
+ * para obtener la hora corregida entre sincronizaciones
+ */
+export const useClockModel = (history: SyncResult[]): UseClockModelReturn => {
+  const model = useMemo(() => fitClockModel(history), [history]);
+
+  const read = useCallback(() => model ? predictClock(model, getLocalEpochTime()) : null, [model]);
+
+  const now = useCallback(() => {
+    const localTime = getLocalEpochTime();
+    return model ? predictClock(model, localTime).time : localTime;
+  }, [model]);
+
+  return {
+    model,
+    now,
+    read,
+  };
+};
+
 /**
  * Hook para persistir estado en localStorage
  */
@@ -2,10 +2,21 @@ import axios from 'axios';
 import type { AxiosResponse } from 'axios';
 import type { 
   SyncResponse, 
+  SyncExchangeResponse,
+  SyncResult,
+  SyncAlgorithmName,
   ServerTime, 
   HealthStatus, 
-  ClientMetrics
+  ClientMetrics,
+  NTPServerConfig,
+  NTPServerEntry,
+  LogStreamFilter,
+  AuthSession,
+  RegisteredClient,
+  FaultStatus,
+  ActiveFault
 } from '../types';
+import { DEFAULT_BURST_SAMPLES } from '../types';
 
 // Configuración base de Axios
 const createApiClient = (baseURL: string) => {
@@ -18,19 +29,39 @@ const createApiClient = (baseURL: string) => {
   });
 };
 
+// Clave de localStorage del token de sesión
+const AUTH_TOKEN_KEY = 'cristian-auth-token';
+
+// Identificador aleatorio en hexadecimal para el contexto de traza W3C
+const randomHex = (bytes: number): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Cabecera W3C `traceparent` (versión 00, muestreada): cada request inicia una traza
+ * que el servidor continúa en sus spans de OpenTelemetry
+ */
+const createTraceparent = (): string => `00-${randomHex(16)}-${randomHex(8)}-01`;
+
 export class CristianApiService {
   private api;
   private clientId: string;
   private serverUrl: string;
+  private syncAlgorithm: SyncAlgorithmName = 'cristian';
+  private authToken: string | null = window.localStorage.getItem(AUTH_TOKEN_KEY);
+  private authListeners: Set<() => void> = new Set();
 
   constructor(serverUrl: string, clientId: string) {
     this.serverUrl = serverUrl;
     this.api = createApiClient(serverUrl);
     this.clientId = clientId;
     
-    // Interceptor para agregar el client-id a todas las requests
+    // Interceptor para agregar el client-id, el token y el contexto de traza a todas las requests
     this.api.interceptors.request.use((config) => {
       config.headers['x-client-id'] = this.clientId;
+      config.headers['traceparent'] = createTraceparent();
+      if (this.authToken) {
+        config.headers['Authorization'] = `Bearer ${this.authToken}`;
+      }
       return config;
     });
 
@@ -38,12 +69,148 @@ export class CristianApiService {
     this.api.interceptors.response.use(
       (response) => response,
       (error) => {
+        // Un token expirado o revocado se descarta y se continúa como anónimo
+        if (error.response?.status === 401 && error.config?.headers?.['Authorization']) {
+          this.setAuthToken(null);
+        }
+        // El servidor indica la clase de ruta limitada y cuándo reintentar
+        if (error.response?.status === 429 && error.response.data?.error) {
+          error.message = error.response.data.error;
+        }
         console.error('API Error:', error);
         throw error;
       }
     );
   }
 
+  /**
+   * Token de sesión (JWT) que se envía en Authorization; se guarda en localStorage
+   */
+  setAuthToken(token: string | null) {
+    if (token === this.authToken) return;
+    this.authToken = token;
+
+    if (token) window.localStorage.setItem(AUTH_TOKEN_KEY, token);
+    else window.localStorage.removeItem(AUTH_TOKEN_KEY);
+
+    this.authListeners.forEach(listener => listener());
+  }
+
+  // Funciones flecha para usarlas directamente con useSyncExternalStore
+  getAuthToken = (): string | null => this.authToken;
+
+  subscribeAuth = (listener: () => void): (() => void) => {
+    this.authListeners.add(listener);
+    return () => this.authListeners.delete(listener);
+  };
+
+  /**
+   * Canjear una clave de API por un token de sesión
+   */
+  async login(apiKey: string): Promise<AuthSession> {
+    try {
+      const response: AxiosResponse<AuthSession & { token: string | null }> = await this.api.post('/api/auth/login', { apiKey });
+      this.setAuthToken(response.data.token);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 401) {
+        throw new Error('Clave de API inválida');
+      }
+      throw new Error(`Error iniciando sesión: ${error}`);
+    }
+  }
+
+  /**
+   * Registra este cliente con su nombre; repetirlo actualiza el nombre y los metadatos
+   */
+  async registerClient(name: string): Promise<RegisteredClient> {
+    try {
+      const response: AxiosResponse<{ client: RegisteredClient }> = await this.api.post('/api/clients', {
+        clientId: this.clientId,
+        name,
+        platform: navigator.platform || undefined,
+      });
+      return response.data.client;
+    } catch (error) {
+      throw new Error(`Error registrando el cliente: ${error}`);
+    }
+  }
+
+  /**
+   * Identidad y rol de la sesión actual (anónima si no hay token)
+   */
+  async getSession(): Promise<AuthSession> {
+    try {
+      const response: AxiosResponse<AuthSession> = await this.api.get('/api/auth/me');
+      return response.data;
+    } catch (error) {
+      throw new Error(`Error obteniendo la sesión: ${error}`);
+    }
+  }
+
+  /**
+   * Simular la caída de un servidor NTP o restaurarlo (rol admin)
+   */
+  async simulateFailure(action: 'fail-primary' | 'restore', server?: string, duration?: number): Promise<void> {
+    try {
+      await this.api.post('/api/time/admin/simulate-failure', { action, server, duration });
+    } catch (error) {
+      throw new Error(`Error simulando fallo: ${error}`);
+    }
+  }
+
+  /**
+   * Obtener los fallos inyectados y los escenarios disponibles (rol admin)
+   */
+  async getFaults(): Promise<FaultStatus> {
+    try {
+      const response: AxiosResponse<FaultStatus> = await this.api.get('/api/time/admin/faults');
+      return response.data;
+    } catch (error) {
+      throw new Error(`Error obteniendo fallos inyectados: ${this.describeError(error)}`);
+    }
+  }
+
+  /**
+   * Ejecutar un escenario de fallos; sin servidor apunta al de mayor prioridad (rol admin)
+   */
+  async runFaultScenario(name: string, server?: string, duration?: number): Promise<ActiveFault[]> {
+    try {
+      const response: AxiosResponse<{ faults: ActiveFault[] }> = await this.api.post(
+        `/api/time/admin/faults/scenarios/${encodeURIComponent(name)}`,
+        { server, duration }
+      );
+      return response.data.faults;
+    } catch (error) {
+      throw new Error(`Error ejecutando escenario: ${this.describeError(error)}`);
+    }
+  }
+
+  /**
+   * Retirar un fallo inyectado (rol admin)
+   */
+  async removeFault(id: string): Promise<void> {
+    try {
+      await this.api.delete(`/api/time/admin/faults/${encodeURIComponent(id)}`);
+    } catch (error) {
+      throw new Error(`Error retirando fallo: ${this.describeError(error)}`);
+    }
+  }
+
+  /**
+   * Retirar todos los fallos, o solo los de un servidor (rol admin)
+   */
+  async clearFaults(server?: string): Promise<number> {
+    try {
+      const response: AxiosResponse<{ removed: number }> = await this.api.delete('/api/time/admin/faults', {
+        params: server ? { server } : undefined
+      });
+      return response.data.removed;
+    } catch (error) {
+      throw new Error(`Error retirando fallos: ${this.describeError(error)}`);
+    }
+  }
+
   /**
    * Obtener información general del servidor
    */
@@ -70,22 +237,140 @@ export class CristianApiService {
 
   /**
    * Sincronizar tiempo usando algoritmo de Cristian
+   * Realiza el intercambio T0 → (T1, T2) → T3, calcula offset y delay localmente
+   * e informa T3 al servidor para que registre el intercambio completo
    */
   async syncTime(): Promise<SyncResponse> {
     try {
-      // Obtener tiempo de alta precisión en nanosegundos
-      const clientRequestTime = this.getHighPrecisionTime();
-      
-      const response: AxiosResponse<SyncResponse> = await this.api.post('/api/time/sync', {
-        clientRequestTime: clientRequestTime.toString()
-      });
-
-      return response.data;
+      const { syncId, result } = await this.performExchange();
+      return await this.completeExchange(syncId, result);
     } catch (error) {
       throw new Error(`Error sincronizando tiempo: ${error}`);
     }
   }
 
+  /**
+   * Sincronizar en modo ráfaga: realiza N intercambios consecutivos y se queda
+   * con el de menor delay, como el filtro de reloj de NTP. Solo la muestra
+   * elegida se informa al servidor; las rechazadas se devuelven para mostrarlas
+   */
+  async syncBurst(samples: number = DEFAULT_BURST_SAMPLES): Promise<SyncResponse> {
+    const burstId = generateClientId('burst');
+    const exchanges: { syncId: string; result: SyncResult }[] = [];
+
+    for (let i = 0; i < samples; i++) {
+      try {
+        exchanges.push(await this.performExchange());
+      } catch (error) {
+        console.warn(`Muestra ${i + 1}/${samples} de la ráfaga falló:`, error);
+      }
+    }
+
+    if (exchanges.length === 0) {
+      throw new Error('Error sincronizando tiempo: todas las muestras de la ráfaga fallaron');
+    }
+
+    const selectedIndex = exchanges.reduce(
+      (best, current, index) => current.result.delay < exchanges[best].result.delay ? index : best,
+      0
+    );
+    const selectedOffset = exchanges[selectedIndex].result.offset;
+    const dispersion = Math.sqrt(
+      exchanges.reduce((sum, { result }) => sum + (result.offset - selectedOffset) ** 2, 0) / exchanges.length
+    );
+
+    const burstSamples = exchanges.map(({ result }, index): SyncResult => ({
+      ...result,
+      burst: {
+        id: burstId,
+        size: exchanges.length,
+        index,
+        selected: index === selectedIndex,
+        dispersion,
+      },
+    }));
+
+    const { syncId } = exchanges[selectedIndex];
+    const response = await this.completeExchange(syncId, burstSamples[selectedIndex]);
+
+    return {
+      ...response,
+      burst: {
+        id: burstId,
+        samples: burstSamples,
+        selectedIndex,
+        dispersion,
+      },
+    };
+  }
+
+  /**
+   * Intercambio de marcas de tiempo con el servidor; devuelve el resultado calculado localmente
+   */
+  private async performExchange(): Promise<{ syncId: string; result: SyncResult }> {
+    const t0 = this.getEpochTime();
+
+    const exchange: AxiosResponse<SyncExchangeResponse> = await this.api.post('/api/time/sync', {
+      clientRequestTime: this.toNanoseconds(t0).toString(),
+      algorithm: this.syncAlgorithm
+    });
+
+    const t3 = this.getEpochTime();
+    const { syncId, syncResult } = exchange.data;
+    const { offset, delay } = computeExchangeOffset(t0, syncResult.t1, syncResult.t2, t3);
+
+    return {
+      syncId,
+      result: {
+        ...syncResult,
+        t0,
+        t3,
+        clientTime: t3,
+        offset,
+        delay,
+        roundTripTime: delay,
+        precision: delay / 2,
+      },
+    };
+  }
+
+  /**
+   * Informar T3 al servidor para registrar el intercambio y obtener estadísticas
+   */
+  private async completeExchange(syncId: string, result: SyncResult): Promise<SyncResponse> {
+    try {
+      const response: AxiosResponse<SyncResponse> = await this.api.post('/api/time/sync/complete', {
+        syncId,
+        clientReceiveTime: this.toNanoseconds(result.t3 ?? this.getEpochTime()).toString(),
+        burst: result.burst && {
+          id: result.burst.id,
+          size: result.burst.size,
+          index: result.burst.index,
+          dispersion: result.burst.dispersion,
+        },
+      });
+
+      return { ...response.data, syncResult: result };
+    } catch (completionError) {
+      // El offset local sigue siendo válido aunque el servidor no registre el intercambio
+      console.warn('No se pudo completar el intercambio en el servidor:', completionError);
+      return {
+        success: true,
+        syncResult: result,
+        isReliable: result.delay < 1000 && result.precision < 100,
+        stats: {
+          averageOffset: result.offset,
+          averageRTT: result.delay,
+          successRate: 100,
+          reliability: 0
+        },
+        recommendations: [],
+        clientId: this.clientId,
+        serverProcessingTime: result.t2 - result.t1
+      };
+    }
+  }
+
   /**
    * Obtener estado de salud del sistema
    */
@@ -98,6 +383,56 @@ export class CristianApiService {
     }
   }
 
+  /**
+   * Listar servidores NTP registrados en el ensamble
+   */
+  async getNTPServers(): Promise<NTPServerEntry[]> {
+    try {
+      const response: AxiosResponse<{ servers: NTPServerEntry[] }> = await this.api.get('/api/time/servers');
+      return response.data.servers;
+    } catch (error) {
+      throw new Error(`Error obteniendo servidores NTP: ${error}`);
+    }
+  }
+
+  /**
+   * Registrar un servidor NTP
+   */
+  async addNTPServer(server: NTPServerConfig): Promise<NTPServerEntry> {
+    try {
+      const response: AxiosResponse<{ server: NTPServerEntry }> = await this.api.post('/api/time/servers', server);
+      return response.data.server;
+    } catch (error) {
+      throw new Error(`Error registrando servidor NTP: ${this.describeError(error)}`);
+    }
+  }
+
+  /**
+   * Actualizar puerto, prioridad o timeout de un servidor NTP
+   */
+  async updateNTPServer(host: string, changes: Partial<Omit<NTPServerConfig, 'host'>>): Promise<NTPServerEntry> {
+    try {
+      const response: AxiosResponse<{ server: NTPServerEntry }> = await this.api.patch(
+        `/api/time/servers/${encodeURIComponent(host)}`,
+        changes
+      );
+      return response.data.server;
+    } catch (error) {
+      throw new Error(`Error actualizando servidor NTP: ${this.describeError(error)}`);
+    }
+  }
+
+  /**
+   * Eliminar un servidor NTP
+   */
+  async removeNTPServer(host: string): Promise<void> {
+    try {
+      await this.api.delete(`/api/time/servers/${encodeURIComponent(host)}`);
+    } catch (error) {
+      throw new Error(`Error eliminando servidor NTP: ${this.describeError(error)}`);
+    }
+  }
+
   /**
    * Obtener métricas del cliente
    */
@@ -151,6 +486,21 @@ export class CristianApiService {
     }
   }
 
+  /**
+   * URL del stream SSE de logs (EventSource no pasa por axios)
+   */
+  getLogStreamUrl(filter: LogStreamFilter = {}): string {
+    const params = new URLSearchParams();
+    if (filter.level) params.append('level', filter.level);
+    if (filter.clientId) params.append('clientId', filter.clientId);
+    if (filter.server) params.append('server', filter.server);
+    // EventSource no permite cabeceras: el token viaja en la query
+    if (this.authToken) params.append('access_token', this.authToken);
+
+    const query = params.toString();
+    return `${this.serverUrl}/api/time/logs/stream${query ? `?${query}` : ''}`;
+  }
+
   /**
    * Verificar conectividad con el servidor
    */
@@ -164,23 +514,37 @@ export class CristianApiService {
   }
 
   /**
-   * Obtener tiempo de alta precisión en nanosegundos
-   * Simula process.hrtime.bigint() del lado del cliente
+   * Extraer el mensaje de error enviado por el servidor, si existe
    */
-  private getHighPrecisionTime(): bigint {
-    // En el navegador, usamos performance.now() que tiene precisión de microsegundos
-    // Lo convertimos a nanosegundos para compatibilidad con el servidor
-    const performanceTime = performance.now();
-    const dateTime = Date.now();
-    
-    // Combinamos ambos para mejor precisión
-    return BigInt(Math.floor(dateTime * 1000000)) + BigInt(Math.floor((performanceTime % 1) * 1000000));
+  private describeError(error: unknown): string {
+    if (axios.isAxiosError(error)) {
+      return error.response?.data?.error
+        || error.response?.data?.errors?.[0]?.msg
+        || error.message;
+    }
+    return String(error);
+  }
+
+  /**
+   * Obtener tiempo absoluto (epoch) en milisegundos con resolución sub-milisegundo
+   * performance.timeOrigin + performance.now() combina la base epoch con el reloj monotónico
+   */
+  private getEpochTime(): number {
+    return performance.timeOrigin + performance.now();
+  }
+
+  /**
+   * Convertir milisegundos a nanosegundos para compatibilidad con el servidor
+   */
+  private toNanoseconds(ms: number): bigint {
+    return BigInt(Math.round(ms * 1000000));
   }
 
   /**
    * Cambiar URL del servidor
    */
   updateServerUrl(newUrl: string): void {
+    this.serverUrl = newUrl;
     this.api.defaults.baseURL = newUrl;
   }
 
@@ -191,6 +555,20 @@ export class CristianApiService {
     this.clientId = newClientId;
   }
 
+  /**
+   * Cambiar algoritmo de sincronización
+   */
+  setSyncAlgorithm(algorithm: SyncAlgorithmName): void {
+    this.syncAlgorithm = algorithm;
+  }
+
+  /**
+   * Obtener algoritmo de sincronización actual
+   */
+  getSyncAlgorithm(): SyncAlgorithmName {
+    return this.syncAlgorithm;
+  }
+
   /**
    * Obtener client ID actual
    */
@@ -211,6 +589,14 @@ export const createApiService = (serverUrl: string, clientId: string): CristianA
   return new CristianApiService(serverUrl, clientId);
 };
 
+// Función para calcular offset y delay a partir de las cuatro marcas de tiempo
+export const computeExchangeOffset = (t0: number, t1: number, t2: number, t3: number) => {
+  return {
+    offset: ((t1 - t0) + (t2 - t3)) / 2,
+    delay: (t3 - t0) - (t2 - t1),
+  };
+};
+
 // Función para generar un client ID único
 export const generateClientId = (prefix: string = 'client'): string => {
   const timestamp = Date.now();
@@ -0,0 +1,78 @@
+import type { SyncResult, ClockModel, ClockReading } from '../types';
+
+// Cantidad de sincronizaciones recientes usadas en la regresión
+const MAX_MODEL_SAMPLES = 20;
+
+// Deriva máxima aceptada para el reloj local (500 ppm, como en NTP)
+const MAX_DRIFT = 500e-6;
+
+// Crecimiento supuesto del error cuando aún no hay muestras suficientes para estimar la deriva (15 ppm)
+const DRIFT_TOLERANCE = 15e-6;
+
+/**
+ * Reloj local epoch con resolución sub-milisegundo, la misma escala que usan t0 y t3
+ */
+export const getLocalEpochTime = (): number => performance.timeOrigin + performance.now();
+
+/**
+ * Ajusta offset(t) = offset + drift·(t - anchorTime) por mínimos cuadrados sobre las
+ * sincronizaciones exitosas del historial. De una ráfaga solo se usa la muestra elegida.
+ */
+export const fitClockModel = (history: SyncResult[]): ClockModel | null => {
+  const samples = history
+    .filter(s => s.success && s.t3 != null && (!s.burst || s.burst.selected))
+    .slice(-MAX_MODEL_SAMPLES);
+
+  if (samples.length === 0) return null;
+
+  // Tiempos relativos a la última muestra para conservar precisión numérica
+  const anchorTime = samples[samples.length - 1].t3!;
+  const xs = samples.map(s => s.t3! - anchorTime);
+  const ys = samples.map(s => s.offset);
+  const n = samples.length;
+
+  const meanTime = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanOffset = ys.reduce((sum, y) => sum + y, 0) / n;
+  const sxx = xs.reduce((sum, x) => sum + (x - meanTime) ** 2, 0);
+  const sxy = xs.reduce((sum, x, i) => sum + (x - meanTime) * (ys[i] - meanOffset), 0);
+
+  const drift = sxx > 0 ? Math.max(-MAX_DRIFT, Math.min(MAX_DRIFT, sxy / sxx)) : 0;
+  const offset = meanOffset - drift * meanTime;
+
+  // Error estándar de los residuos (n - 2 grados de libertad)
+  const residualRms = n > 2
+    ? Math.sqrt(xs.reduce((sum, x, i) => sum + (ys[i] - (offset + drift * x)) ** 2, 0) / (n - 2))
+    : 0;
+
+  return {
+    offset,
+    drift,
+    anchorTime,
+    samples: n,
+    residualRms,
+    halfDelay: Math.min(...samples.map(s => s.delay)) / 2,
+    meanTime,
+    sxx,
+  };
+};
+
+/**
+ * Hora corregida y cota de error predicha para una marca de tiempo local.
+ * Con tres o más muestras la cota crece con el error de predicción de la regresión;
+ * con menos, a razón de DRIFT_TOLERANCE desde la última sincronización.
+ */
+export const predictClock = (model: ClockModel, localTime: number = getLocalEpochTime()): ClockReading => {
+  const elapsed = localTime - model.anchorTime;
+  const offset = model.offset + model.drift * elapsed;
+
+  const errorBound = model.samples >= 3 && model.sxx > 0
+    ? model.halfDelay + 2 * model.residualRms * Math.sqrt(1 / model.samples + (elapsed - model.meanTime) ** 2 / model.sxx)
+    : model.halfDelay + DRIFT_TOLERANCE * Math.max(elapsed, 0);
+
+  return {
+    localTime,
+    time: localTime + offset,
+    offset,
+    errorBound,
+  };
+};
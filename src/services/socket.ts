@@ -0,0 +1,66 @@
+import { io } from 'socket.io-client';
+import type { Socket } from 'socket.io-client';
+
+/**
+ * Crear conexión socket.io con el servidor identificando al cliente.
+ * El token se lee en cada (re)conexión; `berkeley` la anota como participante del algoritmo.
+ */
+export const createSocket = (
+  serverUrl: string,
+  clientId: string,
+  getToken: () => string | null = () => null,
+  berkeley: boolean = false
+): Socket => {
+  return io(serverUrl, {
+    auth: (callback) => callback({ clientId, token: getToken(), berkeley }),
+    transports: ['websocket', 'polling'],
+    reconnectionDelay: 2000,
+  });
+};
+
+/**
+ * Conexión compartida del canal en vivo. Los hooks consultan su estado para dejar de
+ * hacer polling mientras está conectada y retomarlo cuando se pierde.
+ */
+class LiveChannel {
+  private socket: Socket | null = null;
+  private serverUrl: string | null = null;
+  private connected = false;
+  private listeners: Set<() => void> = new Set();
+
+  connect(serverUrl: string, clientId: string, getToken?: () => string | null): Socket {
+    if (this.socket && this.serverUrl === serverUrl) return this.socket;
+
+    this.disconnect();
+    this.serverUrl = serverUrl;
+    this.socket = createSocket(serverUrl, clientId, getToken);
+    this.socket.on('connect', () => this.setConnected(true));
+    this.socket.on('disconnect', () => this.setConnected(false));
+    this.socket.on('connect_error', () => this.setConnected(false));
+
+    return this.socket;
+  }
+
+  disconnect() {
+    this.socket?.disconnect();
+    this.socket = null;
+    this.serverUrl = null;
+    this.setConnected(false);
+  }
+
+  // Funciones flecha para usarlas directamente con useSyncExternalStore
+  isConnected = (): boolean => this.connected;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  private setConnected(connected: boolean) {
+    if (this.connected === connected) return;
+    this.connected = connected;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const liveChannel = new LiveChannel();
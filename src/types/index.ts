@@ -5,6 +5,8 @@ import React from 'react';
 // TIPOS DE DATOS DEL API
 // ========================
 
+export type SyncAlgorithmName = 'cristian' | 'berkeley' | 'marzullo';
+
 export interface SyncResult {
   success: boolean;
   serverTime: number;
@@ -13,9 +15,69 @@ export interface SyncResult {
   roundTripTime: number;
   precision: number;
   server: string;
+  algorithm: SyncAlgorithmName; // Algoritmo que produjo el resultado
+  t0: number; // Envío del cliente
+  t1: number; // Recepción en el servidor
+  t2: number; // Envío del servidor
+  t3: number | null; // Recepción en el cliente
+  delay: number;
+  upstreamOffset: number;
+  upstream?: UpstreamInfo; // Paquete SNTP de la fuente que aportó la referencia
+  burst?: BurstInfo;
+  faults?: InjectedFault[]; // Fallos inyectados vigentes durante la sincronización
+  leapSmear?: number; // Corrección de smear del segundo intercalar aplicada a t1 y t2 (ms)
+  recordedAt?: number; // Hora del servidor al registrar el resultado
   error?: string;
 }
 
+// Campos decodificados del paquete SNTP de un servidor upstream
+export interface UpstreamInfo {
+  server: string;
+  stratum: number;
+  leapIndicator: 0 | 1 | 2 | 3;
+  referenceId: string;
+  rootDelay: number; // ms
+  rootDispersion: number; // ms
+  precision: number; // ms
+  receiveTimestamp: number;
+  transmitTimestamp: number;
+}
+
+export interface BurstInfo {
+  id: string;
+  size: number;
+  index: number;
+  selected: boolean; // Muestra con menor delay (filtro de reloj de NTP)
+  dispersion: number; // Desviación RMS de los offsets respecto a la muestra elegida
+}
+
+// Modelo del reloj local ajustado por regresión lineal sobre el historial
+export interface ClockModel {
+  offset: number; // Offset en anchorTime (ms)
+  drift: number; // Deriva (ms/ms)
+  anchorTime: number; // t3 de la última sincronización usada
+  samples: number;
+  residualRms: number; // ms
+  halfDelay: number; // Menor delay / 2 (ms)
+  meanTime: number; // Media de los tiempos relativos a anchorTime
+  sxx: number; // Suma de cuadrados de los tiempos centrados
+}
+
+// Lectura del reloj corregido
+export interface ClockReading {
+  localTime: number;
+  time: number; // Hora corregida
+  offset: number;
+  errorBound: number; // Cota de error predicha (± ms)
+}
+
+export interface SyncBurst {
+  id: string;
+  samples: SyncResult[]; // Todas las muestras en orden, incluida la elegida
+  selectedIndex: number;
+  dispersion: number;
+}
+
 export interface SyncStats {
   averageOffset: number;
   averageRTT: number;
@@ -29,8 +91,27 @@ export interface SyncResponse {
   isReliable: boolean;
   stats: SyncStats;
   recommendations: string[];
+  algorithm?: SyncAlgorithmName;
   clientId: string;
   serverProcessingTime: number;
+  burst?: SyncBurst;
+}
+
+export interface SyncExchangeResponse {
+  success: boolean;
+  syncId: string;
+  syncResult: SyncResult;
+  algorithm: SyncAlgorithmName;
+  clientId: string;
+}
+
+export interface BerkeleyCorrection {
+  round: number;
+  correction: number; // Ajuste a aplicar al reloj del cliente (ms)
+  averageDeviation: number;
+  participants: number;
+  discarded: boolean; // El reloj del cliente fue descartado como outlier
+  timestamp: number;
 }
 
 export interface ServerTime {
@@ -40,24 +121,139 @@ export interface ServerTime {
   highPrecisionTime: number;
   timezone: string;
   timestamp: string;
+  disciplined?: boolean;
+  offset?: number | null;
+  leap?: { policy: LeapPolicy; smearCorrection: number };
+}
+
+// Segundos intercalares: política del servidor y próximo evento (tabla del IERS o upstream)
+export type LeapPolicy = 'step' | 'smear';
+
+export interface LeapEvent {
+  at: number; // ms epoch en que rige el nuevo TAI - UTC (00:00 UTC tras el segundo)
+  type: 'insert' | 'delete';
+  source: 'table' | 'upstream';
+  taiOffset: number | null;
+  inMs: number;
+}
+
+export interface LeapStatus {
+  policy: LeapPolicy;
+  taiOffset: number | null;
+  smearCorrection: number; // ms
+  upcoming: LeapEvent | null;
+  table: {
+    source: string;
+    entries: number;
+    updatedAt: number | null;
+    expiresAt: number | null;
+    expired: boolean;
+    verified: boolean | null;
+  } | null;
+  error: string | null;
+}
+
+// ========================
+// AUTENTICACIÓN
+// ========================
+
+export type AuthRole = 'viewer' | 'operator' | 'admin';
+
+export interface AuthSession {
+  authEnabled: boolean; // false: AUTH_DISABLED=true en el servidor, todo se permite
+  anonymousRole?: AuthRole | null;
+  role: AuthRole | null;
+  subject: string;
+  method?: 'api-key' | 'jwt' | 'anonymous' | 'disabled';
+  expiresAt?: number;
+}
+
+// Cliente en el registro del servidor (POST /api/clients)
+export interface RegisteredClient {
+  id: string;
+  name: string;
+  registration: 'explicit' | 'implicit';
+  userAgent: string | null;
+  platform: string | null;
+  ip: string | null;
+  registeredAt: number;
+  lastSeen: number;
+  active: boolean;
+  connected: boolean;
+  totalSyncs: number;
+  lastSyncAt: number | null;
+}
+
+// ========================
+// CANAL EN VIVO (WebSocket)
+// ========================
+
+export type LiveTopic = 'health' | 'time' | 'logs' | 'metrics' | 'syncs';
+
+export const LIVE_TOPICS: LiveTopic[] = ['health', 'time', 'logs', 'metrics', 'syncs'];
+
+export interface LiveLogEntry {
+  id?: number; // Id creciente asignado por el servidor
+  timestamp: string;
+  level: 'ERROR' | 'WARN' | 'INFO' | 'DEBUG' | 'TRACE';
+  message: string;
+  context?: unknown;
+  clientId?: string;
+  server?: string;
+}
+
+// Resultado de sincronización de cualquier cliente
+export interface LiveSyncEvent {
+  clientId: string;
+  result: SyncResult;
+}
+
+export interface BreakerTransition {
+  server: string;
+  state: 'closed' | 'open' | 'half-open';
+  timestamp: number;
+}
+
+export interface LiveMetrics {
+  timestamp: string;
+  servers: Array<{
+    server: string;
+    averageLatency: number;
+    successRate: number;
+    responseTime: number;
+    failoverCount: number;
+    activeClients: number;
+    lastSync: number;
+  }>;
+  system: {
+    totalSyncs: number;
+    activeSessions: number;
+    uptime: number;
+  };
 }
 
 export interface HealthStatus {
   success: boolean;
   timestamp: string;
   overall: 'healthy' | 'degraded' | 'critical';
-  servers: {
-    primary: ServerHealth;
-    secondary: ServerHealth;
-  };
+  servers: ServerHealth[];
+  activeServer: string;
+  ensemble: EnsembleSelection | null;
   connectivity: ConnectivityTest[];
+  discipline?: DisciplineStatus;
+  leap?: LeapStatus;
   activeClients: number;
   uptime: number;
 }
 
+// Estado de una fuente NTP tras la selección del ensamble
+export type EnsembleReadingStatus = 'candidate' | 'survivor' | 'outlier' | 'falseticker' | 'unreachable';
+
 export interface ServerHealth {
   server: string;
-  status: 'healthy' | 'degraded';
+  port: number;
+  priority: number;
+  status: 'healthy' | 'degraded' | 'falseticker';
   circuitBreakerState: 'closed' | 'open' | 'half-open';
   stats: {
     fires: number;
@@ -68,12 +264,115 @@ export interface ServerHealth {
     successRate: number;
     activeClients: number;
   };
-  isActive?: boolean; // Indica si este servidor está siendo usado activamente
+  selection: {
+    status: EnsembleReadingStatus;
+    offset: number;
+    delay: number;
+    jitter: number;
+    rootDistance: number;
+    rejection: string | null; // Motivo de la comprobación de cordura, si la marcó como falseticker
+  } | null; // Resultado de la última selección del ensamble para esta fuente
+  sntp: (UpstreamInfo & { offset: number; delay: number; receivedAt: number }) | null; // Último paquete SNTP recibido
+  isActive?: boolean; // Indica si este servidor es el system peer actual
+}
+
+// Resultado de la última consulta al ensamble de servidores NTP
+export interface EnsembleSelection {
+  timestamp: number;
+  offset: number | null;
+  jitter: number;
+  systemPeer: string | null;
+  intersection: { low: number; high: number } | null;
+  falsetickers: number;
+}
+
+// Estado del lazo de disciplina del reloj del servidor
+export interface DisciplineStatus {
+  state: 'unset' | 'synchronized' | 'holdover';
+  running: boolean;
+  offset: number | null;
+  frequency: number; // ppm
+  jitter: number;
+  lastResidual: number;
+  pollInterval: number;
+  minPoll: number;
+  maxPoll: number;
+  systemPeer: string | null;
+  lastUpdate: number | null;
+  updates: number;
+  failures: number;
+}
+
+// Servidor NTP registrado en el ensamble (GET /api/time/servers)
+export interface NTPServerConfig {
+  host: string;
+  port: number;
+  priority: number;
+  timeout: number;
+}
+
+export interface NTPServerEntry extends NTPServerConfig {
+  circuitBreakerState: 'closed' | 'open' | 'half-open';
+  metrics?: {
+    averageLatency: number;
+    successRate: number;
+    activeClients: number;
+  };
+  isActive: boolean;
+}
+
+// Laboratorio de fallos sobre los servidores upstream (/api/time/admin/faults)
+export type FaultType = 'latency' | 'loss' | 'timeout' | 'offset' | 'drift' | 'kiss-of-death';
+
+export interface FaultSpec {
+  type: FaultType;
+  server: string;
+  duration: number; // ms
+  startDelay?: number; // ms
+  latency?: number; // ms
+  jitter?: number; // ± ms
+  lossPercent?: number;
+  offset?: number; // ms
+  driftPpm?: number;
+  kissCode?: 'RATE' | 'DENY' | 'RSTR';
+}
+
+export interface ActiveFault extends FaultSpec {
+  id: string;
+  scenario: string | null;
+  createdAt: number;
+  startsAt: number;
+  endsAt: number;
+  injections: number;
+  detail: string;
+  running: boolean; // false mientras está programado
+}
+
+export interface InjectedFault {
+  id: string;
+  type: FaultType;
+  server: string;
+  scenario: string | null;
+  detail: string;
+}
+
+export interface FaultScenario {
+  name: string;
+  description: string;
+  duration: number; // ms
+}
+
+export interface FaultStatus {
+  active: number;
+  scheduled: number;
+  totalInjections: number;
+  faults: ActiveFault[];
+  scenarios: FaultScenario[];
 }
 
 export interface ConnectivityTest {
   server: string;
-  status: 'ok' | 'failed';
+  status: 'ok' | 'failed' | 'degraded';
 }
 
 export interface ClientMetrics {
@@ -103,6 +402,7 @@ export interface AppSettings {
   serverUrl: string;
   autoSyncEnabled: boolean;
   syncInterval: number;
+  syncAlgorithm: SyncAlgorithmName;
   maxHistoryItems: number;
   showAdvancedMetrics: boolean;
   theme: 'light' | 'dark' | 'system';
@@ -130,6 +430,7 @@ export const settingsSchema = z.object({
   serverUrl: z.string().url('URL del servidor inválida'),
   autoSyncEnabled: z.boolean(),
   syncInterval: z.number().min(1).max(300), // 1 segundo a 5 minutos
+  syncAlgorithm: z.enum(['cristian', 'berkeley', 'marzullo']),
   maxHistoryItems: z.number().min(10).max(1000),
   showAdvancedMetrics: z.boolean(),
   theme: z.enum(['light', 'dark', 'system']),
@@ -143,6 +444,17 @@ export const clientNameSchema = z.object({
     .regex(/^[a-zA-Z0-9\s\-_]+$/, 'Solo letras, números, espacios, guiones y guiones bajos'),
 });
 
+export const ntpServerSchema = z.object({
+  host: z.string()
+    .min(1, 'Host requerido')
+    .regex(/^[a-zA-Z0-9.-]+$/, 'Host debe ser un dominio o una IPv4'),
+  port: z.number().int().min(1).max(65535),
+  priority: z.number().int().min(1).max(100),
+  timeout: z.number().int().min(100).max(30000),
+});
+
+export type NTPServerFormData = z.infer<typeof ntpServerSchema>;
+
 // ========================
 // TIPOS DE EVENTOS
 // ========================
@@ -164,6 +476,20 @@ export type ConnectionEvent = {
 // CONSTANTES
 // ========================
 
+export const DEFAULT_BURST_SAMPLES = 8;
+
+// Roles en orden creciente de privilegios, igual que en el servidor
+export const AUTH_ROLES: AuthRole[] = ['viewer', 'operator', 'admin'];
+
+export const hasAuthRole = (role: AuthRole | null | undefined, required: AuthRole): boolean =>
+  !!role && AUTH_ROLES.indexOf(role) >= AUTH_ROLES.indexOf(required);
+
+export const SYNC_ALGORITHMS: { value: SyncAlgorithmName; label: string }[] = [
+  { value: 'cristian', label: 'Cristian (NTP con failover)' },
+  { value: 'berkeley', label: 'Berkeley (promedio de clientes)' },
+  { value: 'marzullo', label: 'Marzullo (intersección de fuentes)' },
+];
+
 export const SYNC_STATUS = {
   IDLE: 'idle',
   SYNCING: 'syncing',
@@ -208,6 +534,7 @@ export interface SyncQualityMetrics {
 
 export interface UseSyncReturn {
   sync: () => Promise<SyncResponse | null>;
+  syncBurst: (samples?: number) => Promise<SyncResponse | null>;
   isLoading: boolean;
   error: string | null;
   lastResult: SyncResponse | null;
@@ -220,6 +547,72 @@ export interface UseServerHealthReturn {
   refetch: () => void;
 }
 
+export interface UseClockModelReturn {
+  model: ClockModel | null;
+  now: () => number; // Hora corregida (reloj local si aún no hay modelo)
+  read: () => ClockReading | null;
+}
+
+export interface UseLiveChannelReturn {
+  isLive: boolean; // false: los hooks vuelven a hacer polling
+  logs: LiveLogEntry[];
+  syncs: LiveSyncEvent[];
+  metrics: LiveMetrics | null;
+  lastBreakerTransition: BreakerTransition | null;
+}
+
+// Filtros del stream SSE de logs
+export interface LogStreamFilter {
+  level?: LiveLogEntry['level'];
+  clientId?: string;
+  server?: string;
+}
+
+export interface UseLogStreamReturn {
+  entries: LiveLogEntry[];
+  isConnected: boolean;
+  isPaused: boolean;
+  pending: number; // Entradas recibidas durante la pausa
+  pause: () => void;
+  resume: () => void;
+  clear: () => void;
+}
+
+export interface UseAuthReturn {
+  session: AuthSession | null;
+  role: AuthRole | null;
+  authEnabled: boolean;
+  hasRole: (required: AuthRole) => boolean;
+  login: (apiKey: string) => Promise<void>;
+  logout: () => void;
+  isLoggingIn: boolean;
+}
+
+export interface UseBerkeleyReturn {
+  isConnected: boolean;
+  totalCorrection: number; // Corrección acumulada aplicada al reloj local
+  lastCorrection: BerkeleyCorrection | null;
+}
+
+export interface UseNTPServersReturn {
+  servers: NTPServerEntry[];
+  isLoading: boolean;
+  error: string | null;
+  addServer: (server: NTPServerFormData) => Promise<void>;
+  updateServer: (host: string, changes: Partial<Omit<NTPServerConfig, 'host'>>) => Promise<void>;
+  removeServer: (host: string) => Promise<void>;
+  isMutating: boolean;
+}
+
+export interface UseFaultInjectionReturn {
+  status: FaultStatus | null;
+  isLoading: boolean;
+  runScenario: (name: string, server?: string, duration?: number) => Promise<void>;
+  removeFault: (id: string) => Promise<void>;
+  clearFaults: (server?: string) => Promise<void>;
+  isMutating: boolean;
+}
+
 export interface UseAutoSyncReturn {
   isEnabled: boolean;
   interval: number;
@@ -234,6 +627,8 @@ export interface UseAutoSyncReturn {
 
 export interface SyncButtonProps {
   onSync: () => void;
+  onBurstSync?: () => void;
+  burstSamples?: number;
   isLoading: boolean;
   disabled?: boolean;
   size?: 'sm' | 'md' | 'lg';
@@ -322,4 +717,19 @@ export const validateClientName = (data: unknown): ValidationResult<z.infer<type
       errors: ['Error de validación desconocido'] 
     };
   }
-};
\ No newline at end of file
+};
+
+export const validateNTPServer = (data: unknown): ValidationResult<NTPServerFormData> => {
+  try {
+    const validData = ntpServerSchema.parse(data);
+    return { success: true, data: validData };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { 
+        success: false, 
+        errors: error.issues.map((issue: z.ZodIssue) => issue.message) 
+      };
+    }
+    return { success: false, errors: ['Error de validación desconocido'] };
+  }
+};